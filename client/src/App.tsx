@@ -1,21 +1,99 @@
-import { useEffect, useMemo, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import './App.css';
+import { bulletsFromSummary, formatClock, formatOffset } from './format';
+import captureWorkletUrl from './captureWorklet.ts?worker&url';
+import { CAPTURE_PROCESSOR, presenterChannelName } from './types';
+import type {
+  CaptureControl,
+  CaptureMessage,
+  CaptureSettings,
+  ImageFeedback,
+  ImageItem,
+  PresenterMessage,
+  PresenterState,
+  SurveyResults,
+} from './types';
 
 type TranscriptEntry = {
   text: string;
   timestamp: number;
+  speaker?: string;
+  original?: string;
+  language?: 'ar' | 'en';
+  translation?: { language: 'ar' | 'en'; text: string };
 };
 
-type ImageItem = {
+type CaptionMode = 'original' | 'translation' | 'both';
+
+type GlossaryTerm = {
   id: string;
-  prompt: string;
-  summary: string;
-  phase: string;
-  createdAt: string;
-  size: string;
-  pinned: boolean;
-  deleted: boolean;
-  url: string;
+  term: string;
+  arabic: string;
+  variants: string[];
+};
+
+const EMPTY_GLOSSARY_DRAFT = { term: '', arabic: '', variants: '' };
+
+type PromptVersion = {
+  version: number;
+  system: string;
+  user: string;
+  createdAt: string | null;
+};
+
+type PromptTemplate = {
+  name: string;
+  label: string;
+  variables: string[];
+  active: number;
+  versions: PromptVersion[];
+};
+
+type PromptDraft = { name: string; system: string; user: string };
+
+type StyleEntry = {
+  id: string;
+  name: string;
+  description: string;
+  palette: string[];
+  mood: string;
+  negative: string;
+  referenceImage: string | null;
+  builtIn: boolean;
+};
+
+type StyleDraft = {
+  id: string | null;
+  name: string;
+  description: string;
+  palette: string;
+  mood: string;
+  negative: string;
+  referenceImage: string | null;
+};
+
+const EMPTY_STYLE_DRAFT: StyleDraft = {
+  id: null,
+  name: '',
+  description: '',
+  palette: '',
+  mood: '',
+  negative: '',
+  referenceImage: null,
+};
+
+type WorkshopTemplate = {
+  id: string;
+  name: string;
+  workshopType: string;
+  defaultStyle: string | null;
+  phases: { name: string; visualVocabulary: string; summaryFocus: string }[];
+};
+
+type Speaker = {
+  id: string;
+  label: string;
+  talkMs: number;
 };
 
 type Summary = {
@@ -24,37 +102,360 @@ type Summary = {
   phase: string;
 };
 
+// reconnecting / fallback: the server lost its upstream and is buffering, or transcribing in chunks meanwhile
+type RealtimeStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'fallback' | 'error';
+
+type SessionConfig = {
+  phase: string;
+  autoEnabled: boolean;
+  autoIntervalMinutes: number;
+  autoWordThreshold: number;
+  autoTopicShift: boolean;
+  imageSize: string;
+  stylePreset: string;
+  languageMode: 'auto' | 'arabic' | 'english';
+  workshopType: string;
+  templateId: string;
+  reviewEnabled: boolean;
+  reviewAutoRuns: ReviewAutoRuns;
+  reviewTimeoutSeconds: number;
+  keepFullTranscript: boolean;
+  diarization: boolean;
+  translation: boolean;
+  redactionRules: RedactionRule[];
+  redactionNames: string[];
+  redactionModel: boolean;
+  redactionKeep: RedactionKeep;
+  budgetCap: number;
+  styleId: string | null;
+  styleLocked: boolean;
+};
+
+type ReviewAutoRuns = 'review' | 'skip';
+
+type AutoReason = 'cadence' | 'words' | 'topic_shift';
+
+type ScheduleStatus = {
+  enabled: boolean;
+  nextRun: { at: string; reason: AutoReason; willSkip: boolean } | null;
+  wordsSinceRun: number;
+  wordsUntilRun?: number | null;
+  lastSimilarity: number | null;
+  lastDecision: { at: string; action: 'run' | 'skip'; reason: AutoReason; because?: string } | null;
+};
+
+// Recurring themes from the server's tracker; from/to are transcript timestamps (ms)
+type ThemeOccurrence = { from: number; to: number; words: number; note: string };
+
+type Theme = {
+  id: string;
+  label: string;
+  keywords: { term: string; count: number }[];
+  occurrences: ThemeOccurrence[];
+  words: number;
+  firstSeen: number;
+  lastSeen: number;
+  imageIds: string[];
+};
+
+type ThemeMap = {
+  enabled: boolean;
+  analysing: boolean;
+  analysedUntil: number | null;
+  themes: Theme[];
+};
+
+type RedactionRule = 'email' | 'phone' | 'saudi_id';
+
+type RedactionKeep = 'redacted' | 'original';
+
+type RedactionEntry = {
+  id: string;
+  at: string;
+  rule: RedactionRule | 'name' | 'model';
+  label: string;
+  preview: string;
+};
+
+type UsageKind = 'transcription' | 'chat' | 'image' | 'embedding';
+
+type UsageStatus = {
+  cost: number;
+  calls: number;
+  byKind: Record<
+    UsageKind,
+    { calls: number; inputTokens: number; outputTokens: number; audioSeconds: number; images: number; cost: number }
+  >;
+  unpricedModels: string[];
+  budgetCap: number;
+  budgetReached: boolean;
+};
+
+type BatchStatus = 'queued' | 'transcoding' | 'transcribing' | 'generating' | 'done' | 'cancelled' | 'failed';
+
+type BatchJob = {
+  id: string;
+  fileName: string | null;
+  split: 'time' | 'phases';
+  windowMinutes: number;
+  status: BatchStatus;
+  progress: { done: number; total: number };
+  durationMs: number | null;
+  failedSegments: number;
+  windows: { index: number; startMs: number; endMs: number; phase: string | null; status: string }[];
+  error: AppError | null;
+  cancelRequested: boolean;
+};
+
+const BATCH_WINDOW_OPTIONS = [5, 10, 15, 30];
+
+const BATCH_STATUS_LABELS: Record<BatchStatus, string> = {
+  queued: 'Queued',
+  transcoding: 'Preparing audio',
+  transcribing: 'Transcribing',
+  generating: 'Illustrating',
+  done: 'Finished',
+  cancelled: 'Cancelled',
+  failed: 'Failed',
+};
+
+const BATCH_RUNNING: BatchStatus[] = ['queued', 'transcoding', 'transcribing', 'generating'];
+
+const formatUsd = (value: number) => `$${value.toFixed(value < 1 ? 3 : 2)}`;
+
+// Participant reactions from the phone page, e.g. "👍 4 • 👎 1 • ★ 3.8 (5)"
+const describeFeedback = (feedback: ImageFeedback) => {
+  const parts = [`👍 ${feedback.up}`, `👎 ${feedback.down}`];
+  if (feedback.averageScore !== null) parts.push(`★ ${feedback.averageScore} (${feedback.scoreCount})`);
+  return parts.join(' • ');
+};
+
+// Themes that came up in the same analysed stretch, which is what links bubbles on the idea map
+const relatedThemes = (theme: Theme, themes: Theme[]) =>
+  themes.filter(
+    (other) =>
+      other.id !== theme.id &&
+      other.occurrences.some((o) => theme.occurrences.some((t) => t.from === o.from && t.to === o.to)),
+  );
+
+const VIEW_MODE_LABELS = {
+  latest: 'Latest image view',
+  gallery: 'Gallery grid',
+  themes: 'Theme timeline and idea map',
+};
+
+const isLocalHost = (url: string) => /^https?:\/\/(localhost|127\.0\.0\.1|\[::1\])(:|$)/.test(url);
+
+const REDACTION_RULE_OPTIONS: { id: RedactionRule; label: string }[] = [
+  { id: 'saudi_id', label: 'National ID / Iqama numbers' },
+  { id: 'phone', label: 'Phone numbers' },
+  { id: 'email', label: 'Email addresses' },
+];
+
+const AUTO_REASON_LABELS: Record<AutoReason, string> = {
+  cadence: 'cadence',
+  words: 'word count',
+  topic_shift: 'topic shift',
+};
+
+// Codes come from the server's error taxonomy; anything unlisted falls back to the raw message
+type AppError = { message: string; code?: string };
+
+const ERROR_HELP: Record<string, { label: string; hint: string }> = {
+  RATE_LIMITED: {
+    label: 'Rate limited',
+    hint: 'The provider is throttling requests. Wait a minute, or slow the auto-generation cadence.',
+  },
+  QUOTA_EXCEEDED: {
+    label: 'Quota exceeded',
+    hint: 'The API account is out of credit. Top up billing or switch to another key in Settings.',
+  },
+  AUTH_INVALID: {
+    label: 'Key rejected',
+    hint: 'The API key is missing or was rejected. Check it in Settings and run Test connection.',
+  },
+  CONTENT_BLOCKED: {
+    label: 'Content blocked',
+    hint: "The provider's safety filter refused this prompt. Edit the prompt or add a negative and try again.",
+  },
+  BAD_REQUEST: {
+    label: 'Request rejected',
+    hint: 'The provider rejected the request settings. Check the configured models and image size.',
+  },
+  PROVIDER_ERROR: {
+    label: 'Provider error',
+    hint: 'The provider failed after several retries. Trying again in a moment usually works.',
+  },
+  PROVIDER_UNAVAILABLE: {
+    label: 'Provider paused',
+    hint: 'Calls to this provider are paused after repeated failures and resume automatically shortly.',
+  },
+  NETWORK: {
+    label: 'Offline',
+    hint: 'The provider could not be reached. Check the venue network connection.',
+  },
+  TIMEOUT: {
+    label: 'Timed out',
+    hint: 'The provider took too long to answer. Try again, or use a smaller image size.',
+  },
+  AUTH_REQUIRED: {
+    label: 'Access denied',
+    hint: 'This session needs its facilitator token. Rejoin from the device that started it, or paste the token.',
+  },
+  FORBIDDEN: {
+    label: 'Read-only access',
+    hint: 'A viewer token can watch the session but not change it.',
+  },
+  ORIGIN_NOT_ALLOWED: {
+    label: 'Origin blocked',
+    hint: "This page's address is not in the backend's AII_CORS_ORIGINS list.",
+  },
+};
+
+// Facilitator tokens by session id, so this device can rejoin or resume its own sessions
+const SAVED_TOKENS_KEY = 'aii_session_tokens';
+const MAX_SAVED_TOKENS = 20;
+
+const savedTokens = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(SAVED_TOKENS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const saveToken = (id: string, token: string) => {
+  const entries = Object.entries({ ...savedTokens(), [id]: token }).slice(-MAX_SAVED_TOKENS);
+  localStorage.setItem(SAVED_TOKENS_KEY, JSON.stringify(Object.fromEntries(entries)));
+};
+
+const bearer = (token?: string | null): Record<string, string> => (token ? { Authorization: `Bearer ${token}` } : {});
+
+const requestError = (data: { error?: string; code?: string }, failure: string) =>
+  Object.assign(new Error(data.error || failure), { code: data.code });
+
+const errorCode = (err: unknown) =>
+  err instanceof Error && 'code' in err && typeof err.code === 'string' ? err.code : undefined;
+
+type ReviewDraft = {
+  id: string;
+  summary: string;
+  prompt: string;
+  phase: string;
+  trigger: 'auto' | 'manual';
+  createdAt: string;
+  expiresAt: string | null;
+};
+
+type SessionStatus = {
+  sessionActive: boolean;
+  config: SessionConfig;
+  lastSummary: Summary | null;
+  generationInProgress: boolean;
+  pendingTrigger: boolean;
+  transcripts: TranscriptEntry[];
+  images: ImageItem[];
+  imageCount: number;
+  realtime?: { status: string };
+  pendingReview: ReviewDraft | null;
+  speakers: Speaker[];
+  glossary: GlossaryTerm[];
+  styleAnchorId: string | null;
+  schedule: ScheduleStatus | null;
+  redactionLog: RedactionEntry[];
+  usage: UsageStatus | null;
+  batch: BatchJob | null;
+  survey: SurveyResults | null;
+  participantUrl: string | null;
+};
+
+type ReworkMode = 'regenerate' | 'variations' | 'refine';
+
+type ReworkDraft = {
+  image: ImageItem;
+  mode: ReworkMode;
+  prompt: string;
+  instruction: string;
+  count: number;
+};
+
+const ORIGIN_LABELS: Record<string, string> = {
+  regenerate: 'Regenerated',
+  variation: 'Variation',
+  refine: 'Refined',
+};
+
+type LiveSession = {
+  id: string;
+  name: string | null;
+  startedAt: string;
+  workshopType: string;
+  phase: string;
+  imageCount: number;
+  batch: { status: BatchStatus; progress: { done: number; total: number } } | null;
+};
+
+type StoredSession = {
+  id: string;
+  startedAt: string;
+  endedAt: string | null;
+  workshopType?: string;
+  phase?: string;
+  transcriptCount: number;
+  imageCount: number;
+};
+
 const API_BASE = import.meta.env.VITE_API_BASE || 'http://localhost:4000';
-const PHASES = ['Vision', 'Mission', 'Strategic objectives', 'KPIs', 'Other'];
 const INTERVAL_OPTIONS = [3, 5, 10];
-const SIZE_OPTIONS = ['1024x1024', '1792x1024'];
-const STYLE_PRESETS = [
-  'Flat, high-contrast illustration with bold shapes and minimal detail.',
-  'Minimal line art with soft gradients and clean iconography.',
-  'Semi-realistic workshop sketch with warm lighting and simplified faces.',
-];
-const CHUNK_DURATION_MS = 2000; // slightly longer slices for stable container boundaries
-const MIN_SPEECH_FRAMES = 6; // require multiple frames above threshold before dropping a chunk
-const SILENCE_RMS_THRESHOLD = 0.0015; // more sensitive than the previous 0.003 default
-const WS_BASE = (API_BASE || '').replace(/^http/, 'ws');
+const WORD_THRESHOLD_OPTIONS = [0, 150, 300, 600];
+const REVIEW_TIMEOUT_OPTIONS = [0, 30, 60, 120];
+
+type ExportFormat = 'markdown' | 'html' | 'pdf' | 'pptx';
+
+type TranscriptFormat = 'srt' | 'vtt' | 'txt' | 'json';
 
-const formatClock = (iso?: string) => {
-  if (!iso) return '';
-  const d = new Date(iso);
-  return d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+const TRANSCRIPT_FORMATS: TranscriptFormat[] = ['srt', 'vtt', 'txt', 'json'];
+
+const EXPORT_OPTIONS: Record<ExportFormat, { label: string; filename: string }> = {
+  markdown: { label: 'Prompts (Markdown)', filename: 'session-summary.md' },
+  html: { label: 'HTML gallery', filename: 'session-gallery.html' },
+  pdf: { label: 'PDF handout', filename: 'session-handout.pdf' },
+  pptx: { label: 'PowerPoint deck', filename: 'session-deck.pptx' },
+};
+const SIZE_OPTIONS = ['1024x1024', '1792x1024'];
+const CAPTURE_SAMPLE_RATE = 24000; // what the realtime API expects, so the server forwards PCM untouched
+const DEFAULT_HANGOVER_MS = 1500; // until the server's ready message says how long its VAD waits
+const STOP_FLUSH_TIMEOUT_MS = 500;
+const VOICE_LABELS = {
+  off: 'Mic off',
+  calibrating: 'Calibrating mic',
+  speech: 'Speech',
+  silence: 'Listening',
 };
+const WS_BASE = (API_BASE || '').replace(/^http/, 'ws');
+const SLIDESHOW_SECONDS = 8;
 
 const formatTranscriptTime = (ts: number) => {
   const d = new Date(ts);
   return d.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
 };
 
-const bulletsFromSummary = (text?: string) => {
-  if (!text) return [];
-  return text
-    .split('\n')
-    .map((line) => line.replace(/^[-•]\s*/, '').trim())
-    .filter(Boolean);
+const mapRealtimeStatus = (status: string): RealtimeStatus =>
+  status === 'connected' || status === 'client_connected'
+    ? 'connected'
+    : status === 'connecting' || status === 'reconnecting' || status === 'fallback'
+    ? status
+    : status === 'error'
+    ? 'error'
+    : 'idle';
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
 };
 
 const classNames = (...items: (string | undefined | false)[]) => items.filter(Boolean).join(' ');
@@ -62,40 +463,137 @@ const classNames = (...items: (string | undefined | false)[]) => items.filter(Bo
 function App() {
   const [apiKey, setApiKey] = useState('');
   const [saveKey, setSaveKey] = useState(false);
-  const [sessionActive, setSessionActive] = useState(false);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [sessionName, setSessionName] = useState('');
   const [languageMode, setLanguageMode] = useState<'auto' | 'arabic' | 'english'>('auto');
   const [workshopType, setWorkshopType] = useState('NCIM Strategy Workshop');
-  const [phase, setPhase] = useState(PHASES[0]);
+  const [templates, setTemplates] = useState<WorkshopTemplate[]>([]);
+  const [templateId, setTemplateId] = useState('strategy');
+  const [phase, setPhase] = useState('');
   const [autoEnabled, setAutoEnabled] = useState(false);
   const [autoInterval, setAutoInterval] = useState<number>(5);
+  const [autoWordThreshold, setAutoWordThreshold] = useState(0);
+  const [autoTopicShift, setAutoTopicShift] = useState(false);
+  const [schedule, setSchedule] = useState<ScheduleStatus | null>(null);
   const [imageSize, setImageSize] = useState<string>(SIZE_OPTIONS[0]);
-  const [stylePreset, setStylePreset] = useState<string>(STYLE_PRESETS[0]);
+  const [stylePreset, setStylePreset] = useState('');
+  const [styles, setStyles] = useState<StyleEntry[]>([]);
+  const [styleId, setStyleId] = useState<string | null>(null);
+  const [styleLocked, setStyleLocked] = useState(false);
+  const [styleAnchorId, setStyleAnchorId] = useState<string | null>(null);
+  const [stylesOpen, setStylesOpen] = useState(false);
+  const [styleDraft, setStyleDraft] = useState<StyleDraft>(EMPTY_STYLE_DRAFT);
   const [images, setImages] = useState<ImageItem[]>([]);
-  const [viewMode, setViewMode] = useState<'latest' | 'gallery'>('latest');
+  // Status carries only the newest images; this is the session's total so the gallery can page back
+  const [imageTotal, setImageTotal] = useState(0);
+  const [viewMode, setViewMode] = useState<'latest' | 'gallery' | 'themes'>('latest');
   const [transcripts, setTranscripts] = useState<TranscriptEntry[]>([]);
   const [lastSummary, setLastSummary] = useState<Summary | null>(null);
   const [statusMessage, setStatusMessage] = useState('Ready');
-  const [error, setError] = useState<string | null>(null);
+  const [error, setErrorState] = useState<AppError | null>(null);
+  const setError = useCallback(
+    (message: string | null, code?: string) => setErrorState(message ? { message, code } : null),
+    [],
+  );
   const [generationInProgress, setGenerationInProgress] = useState(false);
   const [pendingQueued, setPendingQueued] = useState(false);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [connectivityOk, setConnectivityOk] = useState<boolean | null>(null);
   const [audioLevel, setAudioLevel] = useState(0);
+  const [voiceState, setVoiceState] = useState<'off' | 'calibrating' | 'speech' | 'silence'>('off');
   const [transcriptionPaused, setTranscriptionPaused] = useState(false);
   const [skipSilence, setSkipSilence] = useState(false);
   const [testingKey, setTestingKey] = useState(false);
   const [connectionNote, setConnectionNote] = useState('');
-  const [realtimeStatus, setRealtimeStatus] = useState<'idle' | 'connecting' | 'connected' | 'error'>('idle');
+  const [realtimeStatus, setRealtimeStatus] = useState<RealtimeStatus>('idle');
   const [partialTranscript, setPartialTranscript] = useState('');
+  const [storedSessions, setStoredSessions] = useState<StoredSession[]>([]);
+  const [liveSessions, setLiveSessions] = useState<LiveSession[]>([]);
+  const [projectedId, setProjectedId] = useState<string | null>(null);
+  const [presenterCaptions, setPresenterCaptions] = useState(true);
+  const [streamConnected, setStreamConnected] = useState(false);
+  const [rework, setRework] = useState<ReworkDraft | null>(null);
+  const [reviewEnabled, setReviewEnabled] = useState(false);
+  const [reviewAutoRuns, setReviewAutoRuns] = useState<ReviewAutoRuns>('review');
+  const [reviewTimeoutSeconds, setReviewTimeoutSeconds] = useState(0);
+  const [pendingReview, setPendingReview] = useState<ReviewDraft | null>(null);
+  const [reviewEdit, setReviewEdit] = useState<{ id: string; prompt: string } | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('markdown');
+  const [keepFullTranscript, setKeepFullTranscript] = useState(false);
+  const [transcriptFormat, setTranscriptFormat] = useState<TranscriptFormat>('srt');
+  const [diarization, setDiarization] = useState(false);
+  const [translation, setTranslation] = useState(false);
+  const [captionMode, setCaptionMode] = useState<CaptionMode>('original');
+  const [redactionRules, setRedactionRules] = useState<RedactionRule[]>(REDACTION_RULE_OPTIONS.map((r) => r.id));
+  const [redactionNames, setRedactionNames] = useState<string[]>([]);
+  const [redactionModel, setRedactionModel] = useState(false);
+  const [redactionKeep, setRedactionKeep] = useState<RedactionKeep>('redacted');
+  const [redactionLog, setRedactionLog] = useState<RedactionEntry[]>([]);
+  const [budgetCap, setBudgetCap] = useState(0);
+  const [usage, setUsage] = useState<UsageStatus | null>(null);
+  const [batchFile, setBatchFile] = useState<File | null>(null);
+  const [batchSplit, setBatchSplit] = useState<BatchJob['split']>('time');
+  const [batchWindowMinutes, setBatchWindowMinutes] = useState(10);
+  const [batchUploading, setBatchUploading] = useState(false);
+  const [batchJob, setBatchJob] = useState<BatchJob | null>(null);
+  const [viewerToken, setViewerToken] = useState<string | null>(null);
+  const [participantToken, setParticipantToken] = useState<string | null>(null);
+  const [survey, setSurvey] = useState<SurveyResults | null>(null);
+  const [participantUrl, setParticipantUrl] = useState<string | null>(null);
+  const [participantQr, setParticipantQr] = useState(false);
+  const [themeMap, setThemeMap] = useState<ThemeMap | null>(null);
+  const [selectedThemeId, setSelectedThemeId] = useState<string | null>(null);
+  const [speakers, setSpeakers] = useState<Speaker[]>([]);
+  const [showTalkTime, setShowTalkTime] = useState(false);
+  const [glossary, setGlossary] = useState<GlossaryTerm[]>([]);
+  const [glossaryOpen, setGlossaryOpen] = useState(false);
+  const [glossaryDraft, setGlossaryDraft] = useState(EMPTY_GLOSSARY_DRAFT);
+  const [glossaryReplace, setGlossaryReplace] = useState(false);
+  const [promptsOpen, setPromptsOpen] = useState(false);
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
+  const [promptDraft, setPromptDraft] = useState<PromptDraft | null>(null);
+  const [promptPreview, setPromptPreview] = useState<{ system: string; user: string } | null>(null);
 
   const audioStreamRef = useRef<MediaStream | null>(null);
-  const analyserRef = useRef<AnalyserNode | null>(null);
-  const processorRef = useRef<ScriptProcessorNode | null>(null);
-  const rafRef = useRef<number | null>(null);
-  const chunkHasSpeechRef = useRef(false);
-  const speechFrameCountRef = useRef(0);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const captureNodeRef = useRef<AudioWorkletNode | null>(null);
+  // Read by the worklet through port messages, so pause and skip-silence apply without restarting capture
+  const captureSettingsRef = useRef<CaptureSettings>({
+    paused: false,
+    skipSilence: false,
+    hangoverMs: DEFAULT_HANGOVER_MS,
+  });
   const wsRef = useRef<WebSocket | null>(null);
+  // The facilitator token goes on every session request; a ref so effects and callbacks always see the current one
+  const accessTokenRef = useRef<string | null>(null);
+  // The session whose server config the form has loaded; edits are only pushed back once it matches
+  const configLoadedForRef = useRef<string | null>(null);
   const partialMapRef = useRef<Map<string, string>>(new Map());
+  const presenterChannelRef = useRef<BroadcastChannel | null>(null);
+  const presenterStateRef = useRef<PresenterState | null>(null);
+
+  const sessionActive = sessionId !== null;
+  const sessionUrl = (path: string, id = sessionId) => `${API_BASE}/api/sessions/${id}${path}`;
+  const authHeaders = () => bearer(accessTokenRef.current);
+  const sessionFetch = (path: string, init: RequestInit = {}, id = sessionId) =>
+    fetch(sessionUrl(path, id), {
+      ...init,
+      headers: { ...authHeaders(), ...(init.headers as Record<string, string> | undefined) },
+    });
+
+  const adoptSession = (data: {
+    sessionId: string;
+    facilitatorToken?: string;
+    viewerToken?: string | null;
+    participantToken?: string | null;
+  }) => {
+    accessTokenRef.current = data.facilitatorToken || null;
+    if (data.facilitatorToken) saveToken(data.sessionId, data.facilitatorToken);
+    setViewerToken(data.viewerToken || null);
+    setParticipantToken(data.participantToken || null);
+    setSessionId(data.sessionId);
+  };
 
   const closeRealtimeSocket = () => {
     if (wsRef.current) {
@@ -120,6 +618,10 @@ function App() {
           ? await event.data.text()
           : new TextDecoder().decode(event.data as ArrayBuffer);
       const msg = JSON.parse(raw);
+      if (msg.type === 'ready' && msg.vadSilenceMs) {
+        // a little over the server's silence window, so gated audio still ends each turn
+        updateCapture({ hangoverMs: msg.vadSilenceMs + 300 });
+      }
       if (msg.type === 'ready' || msg.type === 'ack') {
         setRealtimeStatus('connected');
         setStatusMessage('Realtime ready');
@@ -134,6 +636,12 @@ function App() {
         if (msg.text) {
           addTranscript(msg.text, msg.timestamp || Date.now());
         }
+      } else if (msg.type === 'transcript_translation') {
+        setTranscripts((prev) =>
+          prev.map((t) =>
+            t.timestamp === msg.timestamp ? { ...t, language: msg.language, translation: msg.translation } : t,
+          ),
+        );
       } else if (msg.type === 'transcript_error' || msg.type === 'error') {
         setError(msg.message || 'Realtime error');
         setRealtimeStatus('error');
@@ -143,11 +651,13 @@ function App() {
     }
   };
 
-  const openRealtimeSocket = (preferredMime: string) => {
+  const openRealtimeSocket = (id: string) => {
     if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
       return wsRef.current;
     }
-    const ws = new WebSocket(`${WS_BASE}/ws/audio`);
+    // WebSockets cannot send headers either
+    const token = encodeURIComponent(accessTokenRef.current || '');
+    const ws = new WebSocket(`${WS_BASE}/ws/audio?sessionId=${encodeURIComponent(id)}&token=${token}`);
     wsRef.current = ws;
     setRealtimeStatus('connecting');
     ws.addEventListener('message', (event) => {
@@ -155,7 +665,7 @@ function App() {
     });
     ws.addEventListener('open', () => {
       setRealtimeStatus('connected');
-      ws.send(JSON.stringify({ type: 'start', mime: preferredMime, chunkMs: CHUNK_DURATION_MS }));
+      ws.send(JSON.stringify({ type: 'start', format: 'pcm16', sampleRate: CAPTURE_SAMPLE_RATE }));
     });
     ws.addEventListener('error', () => {
       setRealtimeStatus('error');
@@ -169,11 +679,6 @@ function App() {
     return ws;
   };
 
-  const pickMimeType = () => {
-    const candidates = ['audio/ogg;codecs=opus', 'audio/webm;codecs=opus', 'audio/webm'];
-    return candidates.find((type) => MediaRecorder.isTypeSupported(type)) || '';
-  };
-
   useEffect(() => {
     const stored = localStorage.getItem('aii_api_key');
     if (stored) {
@@ -182,186 +687,468 @@ function App() {
     }
   }, []);
 
+  // Phase lists come from the server's workshop templates
   useEffect(() => {
-    if (!sessionActive || !autoEnabled) return;
-    const id = setInterval(() => {
-      triggerGenerate(true);
-    }, autoInterval * 60 * 1000);
-    return () => clearInterval(id);
-  }, [sessionActive, autoEnabled, autoInterval, phase]);
+    fetch(`${API_BASE}/api/templates`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        const list: WorkshopTemplate[] = data?.templates || [];
+        setTemplates(list);
+        setPhase((prev) => prev || list[0]?.phases[0]?.name || '');
+      })
+      .catch(() => {
+        /* the server falls back to the default template */
+      });
+    fetch(`${API_BASE}/api/styles`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setStyles(data?.styles || []))
+      .catch(() => {
+        /* without the library the template's default style is used */
+      });
+  }, []);
 
   useEffect(() => {
-    if (!sessionActive) return;
+    if (sessionActive) return;
+    fetch(`${API_BASE}/api/sessions`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => {
+        setStoredSessions(data?.sessions || []);
+        setLiveSessions(data?.live || []);
+      })
+      .catch(() => {
+        /* persistence is optional */
+      });
+  }, [sessionActive]);
+
+  useEffect(() => {
+    if (!sessionId) return;
+    const channel = new BroadcastChannel(presenterChannelName(sessionId));
+    channel.onmessage = (event: MessageEvent<PresenterMessage>) => {
+      // A presenter window that just opened asks for the current state
+      if (event.data.type === 'hello' && presenterStateRef.current) {
+        channel.postMessage({ type: 'state', state: presenterStateRef.current } satisfies PresenterMessage);
+      }
+    };
+    presenterChannelRef.current = channel;
+    return () => {
+      channel.close();
+      presenterChannelRef.current = null;
+    };
+  }, [sessionId]);
+
+  // Phones open the participant page with the participant token, which only reaches /feedback; the QR code is
+  // drawn by the server, and the projector fetches it with the viewer token
+  const participantBase = participantUrl || window.location.origin;
+  const participantLink =
+    sessionId && participantToken
+      ? `${participantBase}/?${new URLSearchParams({
+          view: 'participant',
+          session: sessionId,
+          token: participantToken,
+        })}`
+      : null;
+  const participantQrUrl =
+    sessionId && viewerToken
+      ? `${API_BASE}/api/sessions/${sessionId}/feedback/qr.svg?${new URLSearchParams({
+          token: viewerToken,
+          base: window.location.origin,
+        })}`
+      : null;
+
+  useEffect(() => {
+    const visible = [...images.filter((img) => img.pinned), ...images.filter((img) => !img.pinned)];
+    const state: PresenterState = {
+      mode: projectedId ? 'pinned' : viewMode === 'gallery' ? 'slideshow' : 'latest',
+      imageId: projectedId,
+      captions: presenterCaptions,
+      slideSeconds: SLIDESHOW_SECONDS,
+      images: visible,
+      participantQr: participantQr ? participantQrUrl : null,
+    };
+    presenterStateRef.current = state;
+    presenterChannelRef.current?.postMessage({ type: 'state', state } satisfies PresenterMessage);
+  }, [sessionId, images, viewMode, projectedId, presenterCaptions, participantQr, participantQrUrl]);
+
+  // Live updates come from the server event stream; polling only runs while the stream is down
+  useEffect(() => {
+    if (!sessionId) return;
+    const applyConfig = (config: SessionConfig) => {
+      setTemplateId(config.templateId);
+      setPhase(config.phase);
+      setAutoEnabled(config.autoEnabled);
+      setAutoInterval(config.autoIntervalMinutes);
+      setAutoWordThreshold(config.autoWordThreshold);
+      setAutoTopicShift(config.autoTopicShift);
+      setImageSize(config.imageSize);
+      setStylePreset(config.stylePreset);
+      setStyleId(config.styleId);
+      setStyleLocked(config.styleLocked);
+      setReviewEnabled(config.reviewEnabled);
+      setReviewAutoRuns(config.reviewAutoRuns);
+      setReviewTimeoutSeconds(config.reviewTimeoutSeconds);
+      setKeepFullTranscript(config.keepFullTranscript);
+      setDiarization(config.diarization);
+      setTranslation(config.translation);
+      setRedactionRules(config.redactionRules);
+      setRedactionNames(config.redactionNames);
+      setRedactionModel(config.redactionModel);
+      setRedactionKeep(config.redactionKeep);
+      setBudgetCap(config.budgetCap);
+    };
+    const applyStatus = (data: SessionStatus) => {
+      const latest = data.images || [];
+      const latestIds = new Set(latest.map((img) => img.id));
+      // Keep earlier pages the gallery already loaded; they are older than anything the status carries
+      setImages((prev) => [...latest, ...prev.filter((img) => !latestIds.has(img.id))]);
+      setImageTotal(data.imageCount ?? latest.length);
+      setTranscripts(data.transcripts || []);
+      if (data.lastSummary) {
+        setLastSummary(data.lastSummary);
+      }
+      setGenerationInProgress(data.generationInProgress);
+      setPendingQueued(data.pendingTrigger);
+      setPendingReview(data.pendingReview || null);
+      setSpeakers(data.speakers || []);
+      setGlossary(data.glossary || []);
+      setStyleAnchorId(data.styleAnchorId || null);
+      setSchedule(data.schedule || null);
+      setRedactionLog(data.redactionLog || []);
+      setUsage(data.usage || null);
+      setBatchJob(data.batch || null);
+      setSurvey(data.survey || null);
+      setParticipantUrl(data.participantUrl || null);
+      if (data.config) {
+        applyConfig(data.config);
+        configLoadedForRef.current = sessionId;
+      }
+      if (data.realtime?.status) {
+        setRealtimeStatus(mapRealtimeStatus(data.realtime.status));
+      }
+    };
+    const endedElsewhere = () => {
+      setSessionId(null);
+      setStatusMessage('Session ended elsewhere');
+    };
+
     const fetchStatus = async () => {
       try {
-        const res = await fetch(`${API_BASE}/api/status`);
-        if (!res.ok) return;
-        const data = await res.json();
-        setImages(data.images || []);
-        setTranscripts(data.transcripts || []);
-        if (data.lastSummary) {
-          setLastSummary(data.lastSummary);
-        }
-        setGenerationInProgress(data.generationInProgress);
-        setPendingQueued(data.pendingTrigger);
-        if (data.config) {
-          setPhase(data.config.phase);
-          setAutoInterval(data.config.autoIntervalMinutes);
-          setImageSize(data.config.imageSize);
-          setStylePreset(data.config.stylePreset);
-        }
-        if (data.realtime?.status) {
-          const mapped =
-            data.realtime.status === 'connected' || data.realtime.status === 'client_connected'
-              ? 'connected'
-              : data.realtime.status === 'connecting'
-              ? 'connecting'
-              : data.realtime.status === 'error'
-              ? 'error'
-              : 'idle';
-          setRealtimeStatus(mapped);
+        const res = await fetch(`${API_BASE}/api/sessions/${sessionId}/status`, {
+          headers: bearer(accessTokenRef.current),
+        });
+        if (res.status === 404) {
+          endedElsewhere();
+          return;
         }
-      } catch (e) {
+        if (!res.ok) return;
+        applyStatus(await res.json());
+      } catch {
         // ignore periodic errors
       }
     };
-    fetchStatus();
-    const id = setInterval(fetchStatus, 12000);
-    return () => clearInterval(id);
-  }, [sessionActive]);
+    let pollId: ReturnType<typeof setInterval> | null = null;
+    const startPolling = () => {
+      if (pollId) return;
+      fetchStatus();
+      pollId = setInterval(fetchStatus, 12000);
+    };
+    const stopPolling = () => {
+      if (pollId) clearInterval(pollId);
+      pollId = null;
+    };
+
+    // EventSource cannot send headers, so the token goes in the query string
+    const token = encodeURIComponent(accessTokenRef.current || '');
+    const source = new EventSource(`${API_BASE}/api/sessions/${sessionId}/events?token=${token}`);
+    const on = <T,>(type: string, handler: (data: T) => void) => {
+      source.addEventListener(type, (event) => handler(JSON.parse((event as MessageEvent).data)));
+    };
+    source.onopen = () => {
+      stopPolling();
+      setStreamConnected(true);
+    };
+    source.onerror = () => {
+      setStreamConnected(false);
+      startPolling();
+    };
+    on<{ status: SessionStatus }>('snapshot', ({ status }) => applyStatus(status));
+    on<{ image: ImageItem }>('image_created', ({ image }) => {
+      setImages((prev) => [image, ...prev.filter((img) => img.id !== image.id)]);
+      setImageTotal((total) => total + 1);
+      setGenerationInProgress(false);
+      setStatusMessage('Image ready');
+    });
+    on<{ image: Partial<ImageItem> & { id: string } }>('image_updated', ({ image }) => {
+      if (image.deleted) setImageTotal((total) => Math.max(total - 1, 0));
+      setImages((prev) =>
+        image.deleted
+          ? prev.filter((img) => img.id !== image.id)
+          : prev.map((img) => (img.id === image.id ? { ...img, ...image } : img)),
+      );
+    });
+    on<{ pendingTrigger: boolean }>('generation_started', ({ pendingTrigger }) => {
+      setGenerationInProgress(true);
+      setPendingQueued(pendingTrigger);
+    });
+    on('generation_queued', () => setPendingQueued(true));
+    on<{ because: string }>('generation_dropped', ({ because }) => {
+      setPendingQueued(false);
+      setStatusMessage(`Queued auto run skipped: ${because}`);
+    });
+    on<AppError>('generation_failed', ({ message, code }) => {
+      setGenerationInProgress(false);
+      setError(message, code);
+      setStatusMessage('Generation error');
+    });
+    on<{ review: ReviewDraft }>('review_pending', ({ review }) => {
+      setPendingReview(review);
+      setStatusMessage('Draft awaiting review');
+    });
+    on<{ id: string }>('review_resolved', ({ id }) =>
+      setPendingReview((prev) => (prev?.id === id ? null : prev)),
+    );
+    on<{ summary: Summary }>('summary_updated', ({ summary }) => setLastSummary(summary));
+    on<{ config: SessionConfig }>('config_changed', ({ config }) => applyConfig(config));
+    on<{ status: string }>('realtime_status', ({ status }) => setRealtimeStatus(mapRealtimeStatus(status)));
+    on<{ entry: TranscriptEntry }>('transcript_added', ({ entry }) => addTranscript(entry.text, entry.timestamp));
+    on<{ entry: TranscriptEntry }>('transcript_updated', ({ entry }) =>
+      setTranscripts((prev) =>
+        prev.map((t) => (t.timestamp === entry.timestamp && t.text === entry.text ? { ...t, ...entry } : t)),
+      ),
+    );
+    on<{ speakers: Speaker[] }>('speakers_updated', ({ speakers }) => setSpeakers(speakers));
+    on<{ terms: GlossaryTerm[] }>('glossary_updated', ({ terms }) => setGlossary(terms));
+    on<{ prompts: PromptTemplate[] }>('prompts_updated', ({ prompts }) => setPromptTemplates(prompts));
+    on<{ imageId: string | null }>('style_anchor_changed', ({ imageId }) => setStyleAnchorId(imageId));
+    on<{ schedule: ScheduleStatus }>('schedule_updated', ({ schedule }) => setSchedule(schedule));
+    on<{ usage: UsageStatus }>('usage_updated', ({ usage }) => setUsage(usage));
+    on<{ job: BatchJob }>('batch_progress', ({ job }) => setBatchJob(job));
+    on<{ survey: SurveyResults }>('survey_updated', ({ survey }) => setSurvey(survey));
+    on<ThemeMap>('themes_updated', (map) => setThemeMap(map));
+    on<{ usage: UsageStatus }>('budget_reached', ({ usage }) => {
+      setUsage(usage);
+      setError(`Budget cap of ${formatUsd(usage.budgetCap)} reached; auto generation is paused`);
+    });
+    on<{ entries: RedactionEntry[] }>('redactions_logged', ({ entries }) =>
+      setRedactionLog((prev) => [...prev, ...entries].slice(-200)),
+    );
+    on('session_ended', () => {
+      source.close();
+      endedElsewhere();
+    });
 
-  useEffect(() => {
     return () => {
-      stopAudio();
+      source.close();
+      stopPolling();
+      setStreamConnected(false);
     };
-  }, []);
+  }, [sessionId, setError]);
 
+  // Stop capturing whenever the session goes away, including when it is ended from another console
   useEffect(() => {
-    if (!sessionActive) return;
+    if (!sessionId) {
+      stopAudio();
+      return;
+    }
+    return () => stopAudio();
+  }, [sessionId]);
+
+  // Loaded when the themes view opens and again as images come and go, since the server places them
+  const imageCount = images.length;
+  useEffect(() => {
+    if (!sessionId || viewMode !== 'themes') return;
+    fetch(`${API_BASE}/api/sessions/${sessionId}/themes`, { headers: bearer(accessTokenRef.current) })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((map: ThemeMap | null) => {
+        if (map) setThemeMap(map);
+      })
+      .catch(() => {
+        /* the next themes_updated event brings it */
+      });
+  }, [sessionId, viewMode, imageCount]);
+
+  // A resumed or joined session keeps its own config: the form only pushes once that config has been loaded
+  useEffect(() => {
+    if (!sessionId || configLoadedForRef.current !== sessionId) return;
     const id = setTimeout(() => {
-      fetch(`${API_BASE}/api/config`, {
+      fetch(`${API_BASE}/api/sessions/${sessionId}/config`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...bearer(accessTokenRef.current) },
         body: JSON.stringify({
           phase,
+          autoEnabled,
           autoIntervalMinutes: autoInterval,
+          autoWordThreshold,
+          autoTopicShift,
           imageSize,
           stylePreset,
+          styleId,
+          styleLocked,
+          reviewEnabled,
+          reviewAutoRuns,
+          reviewTimeoutSeconds,
+          keepFullTranscript,
+          diarization,
+          translation,
+          redactionRules,
+          redactionNames,
+          redactionModel,
+          redactionKeep,
+          budgetCap,
         }),
       }).catch(() => {
         /* ignore background errors */
       });
     }, 200);
     return () => clearTimeout(id);
-  }, [sessionActive, phase, autoInterval, imageSize, stylePreset]);
+  }, [
+    sessionId,
+    phase,
+    autoEnabled,
+    autoInterval,
+    autoWordThreshold,
+    autoTopicShift,
+    imageSize,
+    stylePreset,
+    styleId,
+    styleLocked,
+    reviewEnabled,
+    reviewAutoRuns,
+    reviewTimeoutSeconds,
+    keepFullTranscript,
+    diarization,
+    translation,
+    redactionRules,
+    redactionNames,
+    redactionModel,
+    redactionKeep,
+    budgetCap,
+  ]);
 
+  // Tick once a second so the auto-approve countdown stays current
+  const reviewExpiresAt = pendingReview?.expiresAt;
+  useEffect(() => {
+    if (!reviewExpiresAt) return;
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [reviewExpiresAt]);
+
+  // The same segment can arrive from both the audio socket and the event stream
   const addTranscript = (text: string, timestamp = Date.now()) => {
-    setTranscripts((prev) => [...prev, { text, timestamp }].slice(-400));
+    setTranscripts((prev) =>
+      prev.some((t) => t.timestamp === timestamp && t.text === text)
+        ? prev
+        : [...prev, { text, timestamp }].slice(-400),
+    );
+  };
+
+  const updateCapture = (changes: Partial<CaptureSettings>) => {
+    captureSettingsRef.current = { ...captureSettingsRef.current, ...changes };
+    captureNodeRef.current?.port.postMessage(changes);
   };
 
-  const startAudio = async () => {
+  useEffect(() => {
+    updateCapture({ paused: transcriptionPaused, skipSilence });
+  }, [transcriptionPaused, skipSilence]);
+
+  // Capture runs in an AudioWorklet: PCM16 conversion and voice detection stay off the main thread,
+  // and the socket gets 100 ms PCM packets (only speech, plus padding, when skip silence is on)
+  const startAudio = async (id = sessionId) => {
+    if (!id || captureNodeRef.current) return;
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      const stream = await navigator.mediaDevices.getUserMedia({
+        audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+      });
       audioStreamRef.current = stream;
-      const preferredMime = pickMimeType();
-      const audioCtx = new AudioContext({ sampleRate: 24000 });
+      const audioCtx = new AudioContext({ sampleRate: CAPTURE_SAMPLE_RATE });
+      audioContextRef.current = audioCtx;
+      await audioCtx.audioWorklet.addModule(captureWorkletUrl);
       await audioCtx.resume();
       const source = audioCtx.createMediaStreamSource(stream);
-      const analyser = audioCtx.createAnalyser();
-      analyser.fftSize = 256;
-      source.connect(analyser);
-      analyserRef.current = analyser;
-
-      const dataArray = new Uint8Array(analyser.frequencyBinCount);
-      const tick = () => {
-        analyser.getByteTimeDomainData(dataArray);
-        const normalized = dataArray.map((v) => (v - 128) / 128);
-        const rms = Math.sqrt(normalized.reduce((acc, val) => acc + val * val, 0) / normalized.length);
-        if (rms >= SILENCE_RMS_THRESHOLD) {
-          chunkHasSpeechRef.current = true;
-          speechFrameCountRef.current += 1;
-        }
-        setAudioLevel(Math.min(1, rms * 4));
-        rafRef.current = requestAnimationFrame(tick);
-      };
-      tick();
-
-      openRealtimeSocket(preferredMime);
-      const resetChunkMeters = () => {
-        chunkHasSpeechRef.current = false;
-        speechFrameCountRef.current = 0;
-      };
-
-      const sendPcm = (pcm: ArrayBuffer) => {
-        if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
-        wsRef.current.send(pcm);
-        setStatusMessage('Streaming audio');
-      };
-
-      const processor = audioCtx.createScriptProcessor(2048, 1, 1);
-      processorRef.current = processor;
-      source.connect(processor);
-      processor.connect(audioCtx.destination);
-      processor.onaudioprocess = (event) => {
-        if (transcriptionPaused) return;
-        const input = event.inputBuffer.getChannelData(0);
-        const rms =
-          Math.sqrt(input.reduce((acc, sample) => acc + sample * sample, 0) / input.length) || 0;
-        if (rms >= SILENCE_RMS_THRESHOLD) {
-          chunkHasSpeechRef.current = true;
-          speechFrameCountRef.current += 1;
-        }
-        if (
-          skipSilence &&
-          (!chunkHasSpeechRef.current || speechFrameCountRef.current < MIN_SPEECH_FRAMES)
-        ) {
+      const node = new AudioWorkletNode(audioCtx, CAPTURE_PROCESSOR, {
+        numberOfInputs: 1,
+        numberOfOutputs: 0,
+        channelCount: 1,
+        processorOptions: captureSettingsRef.current,
+      });
+      captureNodeRef.current = node;
+      setVoiceState('calibrating');
+      node.port.onmessage = (event: MessageEvent<CaptureMessage>) => {
+        const msg = event.data;
+        if (msg.type === 'level') {
+          setAudioLevel(Math.min(1, msg.rms * 4));
+          setVoiceState(msg.calibrating ? 'calibrating' : msg.speaking ? 'speech' : 'silence');
           return;
         }
-        const int16 = new Int16Array(input.length);
-        for (let i = 0; i < input.length; i += 1) {
-          const s = Math.max(-1, Math.min(1, input[i]));
-          int16[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+        if (msg.type === 'audio' && wsRef.current?.readyState === WebSocket.OPEN) {
+          wsRef.current.send(msg.pcm);
         }
-        sendPcm(int16.buffer);
-        resetChunkMeters();
       };
-
-      setStatusMessage(`Listening (realtime PCM)${preferredMime ? ` (${preferredMime})` : ''}`);
-    } catch (err: any) {
-      setError('Microphone permission denied or unavailable');
+      source.connect(node);
+      openRealtimeSocket(id);
+      setStatusMessage('Listening (realtime PCM)');
+    } catch (err) {
+      stopAudio();
+      setError(
+        err instanceof DOMException && err.name === 'NotAllowedError'
+          ? 'Microphone permission denied or unavailable'
+          : `Audio capture failed: ${err instanceof Error ? err.message : 'unknown error'}`,
+      );
       setStatusMessage('Microphone unavailable');
     }
   };
 
+  // The worklet may still hold the end of the last utterance, so the node, context and socket are only
+  // released once it has flushed and answered (or after a short wait if it never does). They are taken
+  // off the refs straight away, so capture can restart meanwhile.
   const stopAudio = () => {
-    analyserRef.current?.disconnect();
-    processorRef.current?.disconnect();
-    processorRef.current = null;
-    if (rafRef.current) cancelAnimationFrame(rafRef.current);
+    const node = captureNodeRef.current;
+    const audioCtx = audioContextRef.current;
+    const ws = wsRef.current;
+    captureNodeRef.current = null;
+    audioContextRef.current = null;
+    wsRef.current = null;
     audioStreamRef.current?.getTracks().forEach((t) => t.stop());
     audioStreamRef.current = null;
     setAudioLevel(0);
+    setVoiceState('off');
     closeRealtimeSocket();
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      if (node) node.port.onmessage = null;
+      node?.disconnect();
+      audioCtx?.close().catch(() => {
+        /* already closed */
+      });
+      ws?.close();
+    };
+    if (!node) {
+      release();
+      return;
+    }
+    window.setTimeout(release, STOP_FLUSH_TIMEOUT_MS);
+    node.port.onmessage = (event: MessageEvent<CaptureMessage>) => {
+      const msg = event.data;
+      if (msg.type === 'audio' && ws?.readyState === WebSocket.OPEN) ws.send(msg.pcm);
+      if (msg.type === 'stopped') release();
+    };
+    node.port.postMessage({ type: 'stop' } satisfies CaptureControl);
   };
 
+  // Pausing keeps the microphone open (the meter still moves) but nothing is sent
   const toggleTranscription = async () => {
     if (transcriptionPaused) {
       setTranscriptionPaused(false);
-      await startAudio();
+      if (!captureNodeRef.current) await startAudio();
     } else {
       setTranscriptionPaused(true);
-      stopAudio();
       setStatusMessage('Transcription paused');
     }
   };
 
+  // The backend decides whether a key is needed (local providers may not require one)
   const validateKey = async (): Promise<boolean> => {
-    if (!apiKey && !import.meta.env.VITE_OPENAI_API_KEY) {
-      setError('Enter an OpenAI API key to test connectivity.');
-      setConnectivityOk(false);
-      setConnectionNote('');
-      return false;
-    }
     setTestingKey(true);
     setConnectionNote('');
     setStatusMessage('Validating API key...');
@@ -405,12 +1192,24 @@ function App() {
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           apiKey,
+          name: sessionName || undefined,
           languageMode,
           workshopType,
           summarizationWindowMinutes: 5,
           imageSize,
           stylePreset,
+          styleId,
+          styleLocked,
+          templateId,
           phase,
+          keepFullTranscript,
+          diarization,
+          translation,
+          redactionRules,
+          redactionNames,
+          redactionModel,
+          redactionKeep,
+          budgetCap,
         }),
       });
       const data = await res.json();
@@ -418,54 +1217,174 @@ function App() {
         setError(data.error || 'Unable to start session');
         return;
       }
-      setSessionActive(true);
+      adoptSession(data);
       setStatusMessage('Session started');
       if (saveKey) {
         localStorage.setItem('aii_api_key', apiKey);
       } else {
         localStorage.removeItem('aii_api_key');
       }
-      await startAudio();
+      await startAudio(data.sessionId);
     } catch (err: any) {
       setError(err?.message || 'Unable to start session');
     }
   };
 
+  const resumeSession = async (id: string) => {
+    setError(null);
+    try {
+      const token = savedTokens()[id];
+      const res = await fetch(`${API_BASE}/api/sessions/${id}/resume`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...bearer(token) },
+        body: JSON.stringify({ apiKey }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Unable to resume session', data.code);
+        return;
+      }
+      if (data.config) {
+        setLanguageMode(data.config.languageMode);
+        setWorkshopType(data.config.workshopType);
+      }
+      setSessionName(data.name || '');
+      adoptSession(data);
+      setStatusMessage('Session resumed');
+      await startAudio(data.sessionId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to resume session');
+    }
+  };
+
+  // The recording goes up as multipart; the server answers straight away and the import runs in the background
+  const importRecording = async () => {
+    if (!batchFile) return;
+    setError(null);
+    setBatchUploading(true);
+    setStatusMessage('Uploading recording...');
+    const form = new FormData();
+    form.append('audio', batchFile);
+    form.append('apiKey', apiKey);
+    form.append('name', sessionName || batchFile.name);
+    form.append('languageMode', languageMode);
+    form.append('templateId', templateId);
+    form.append('imageSize', imageSize);
+    if (styleId) form.append('styleId', styleId);
+    form.append('translation', String(translation));
+    form.append('split', batchSplit);
+    form.append('windowMinutes', String(batchWindowMinutes));
+    // Long recordings need the facilitator token of a live session; any room this console started will do
+    const token = liveSessions.map((live) => savedTokens()[live.id]).find(Boolean);
+    try {
+      const res = await fetch(`${API_BASE}/api/batch`, { method: 'POST', body: form, headers: bearer(token) });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Unable to import recording', data.code);
+        return;
+      }
+      setSessionName(data.name || '');
+      setWorkshopType(data.config.workshopType);
+      setBatchJob(data.job);
+      setBatchFile(null);
+      adoptSession(data);
+      setStatusMessage('Importing recording');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to import recording');
+    } finally {
+      setBatchUploading(false);
+    }
+  };
+
+  const cancelImport = async () => {
+    const data = await sessionRequest('/batch/cancel', { method: 'POST' }, 'Unable to cancel import');
+    if (data) setBatchJob(data.job);
+  };
+
+  // Rooms started on this device rejoin with the saved token; others need the facilitator token pasted in.
+  // Batch imports have no room audio, so joining one only watches its progress.
+  const joinSession = async (live: LiveSession) => {
+    setError(null);
+    const token = savedTokens()[live.id] || window.prompt('Facilitator token for this session')?.trim();
+    if (!token) return;
+    try {
+      const res = await fetch(sessionUrl('/access', live.id), { headers: bearer(token) });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Unable to join session', data.code);
+        return;
+      }
+      if (data.role !== 'facilitator') {
+        setError('That is a viewer token; the console needs the facilitator token', 'FORBIDDEN');
+        return;
+      }
+      setSessionName(live.name || '');
+      setWorkshopType(live.workshopType);
+      adoptSession({
+        sessionId: live.id,
+        facilitatorToken: token,
+        viewerToken: data.viewerToken,
+        participantToken: data.participantToken,
+      });
+      setStatusMessage('Joined session');
+      if (!live.batch) await startAudio(live.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to join session');
+    }
+  };
+
   const endSession = async () => {
     try {
-      await fetch(`${API_BASE}/api/session/end`, { method: 'POST' });
+      await sessionFetch('/end', { method: 'POST' });
     } catch (e) {
       // ignore
     }
     stopAudio();
-    setSessionActive(false);
+    setSessionId(null);
+    accessTokenRef.current = null;
+    setViewerToken(null);
+    setParticipantToken(null);
+    setProjectedId(null);
     setImages([]);
     setTranscripts([]);
+    setSpeakers([]);
     setLastSummary(null);
     setAutoEnabled(false);
+    setSchedule(null);
+    setBatchJob(null);
+    setThemeMap(null);
+    setSelectedThemeId(null);
     setStatusMessage('Session ended');
     setPartialTranscript('');
     setRealtimeStatus('idle');
   };
 
-  const triggerGenerate = async (isAuto = false) => {
+  // With a themeId the image covers that theme across the whole session instead of the latest window
+  const triggerGenerate = async (themeId?: string) => {
     if (!sessionActive) return;
     setError(null);
-    setStatusMessage(isAuto ? 'Auto generating...' : 'Generating image...');
+    setStatusMessage(themeId ? 'Generating image for theme...' : 'Generating image...');
     setGenerationInProgress(true);
     try {
-      const res = await fetch(`${API_BASE}/api/generate`, {
+      const res = await sessionFetch('/generate', {
         method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ trigger: 'manual', ...(themeId ? { themeId } : {}) }),
       });
       const data = await res.json();
       if (!res.ok) {
-        throw new Error(data.error || 'Generation failed');
+        throw requestError(data, 'Generation failed');
       }
       if (data.queued) {
         setPendingQueued(true);
         setStatusMessage(data.message);
         return;
       }
+      if (data.review) {
+        setPendingReview(data.review);
+        setStatusMessage('Draft awaiting review');
+        return;
+      }
       const newImage: ImageItem = data.image;
       setImages((prev) => [newImage, ...prev.filter((img) => img.id !== newImage.id)]);
       if (newImage.summary) {
@@ -478,7 +1397,7 @@ function App() {
       setStatusMessage('Image ready');
       setPendingQueued(false);
     } catch (err: any) {
-      setError(err?.message || 'Generation failed');
+      setError(err?.message || 'Generation failed', errorCode(err));
       setStatusMessage('Generation error');
     } finally {
       setGenerationInProgress(false);
@@ -487,7 +1406,7 @@ function App() {
 
   const handlePin = async (id: string, pinned: boolean) => {
     try {
-      const res = await fetch(`${API_BASE}/api/images/${id}`, {
+      const res = await sessionFetch(`/images/${id}`, {
         method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ pinned }),
@@ -496,55 +1415,324 @@ function App() {
       const data = await res.json();
       const updated: ImageItem = data.image;
       setImages((prev) => prev.map((img) => (img.id === id ? updated : img)));
+      // Pinning holds that image on the projector; unpinning it releases the hold
+      if (pinned) {
+        setProjectedId(id);
+      } else if (projectedId === id) {
+        setProjectedId(null);
+      }
     } catch (e) {
       // ignore
     }
   };
 
-  const handleDelete = async (id: string) => {
+  const setSurveyOpen = async (open: boolean) => {
     try {
-      const res = await fetch(`${API_BASE}/api/images/${id}`, {
-        method: 'DELETE',
-      });
+      const res = await sessionFetch('/feedback', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ surveyOpen: open }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || 'Unable to update the survey');
+      setStatusMessage(open ? 'Survey open on participant phones' : 'Survey closed');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to update the survey');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      const res = await sessionFetch(`/images/${id}`, {
+        method: 'DELETE',
+      });
       if (res.ok) {
         setImages((prev) => prev.filter((img) => img.id !== id));
+        if (projectedId === id) setProjectedId(null);
       }
     } catch (e) {
       // ignore
     }
   };
 
+  const loadEarlierImages = async () => {
+    const loaded = images.filter((img) => !img.pinned);
+    const before = loaded.length ? loaded[loaded.length - 1].id : '';
+    try {
+      const res = await sessionFetch(`/images?before=${encodeURIComponent(before)}`);
+      if (!res.ok) throw new Error('Could not load earlier images');
+      const data: { images: ImageItem[] } = await res.json();
+      setImages((prev) => {
+        const known = new Set(prev.map((img) => img.id));
+        return [...prev, ...data.images.filter((img) => !known.has(img.id))];
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not load earlier images');
+    }
+  };
+
   const handleExport = async () => {
+    const { label, filename } = EXPORT_OPTIONS[exportFormat];
+    setStatusMessage(`Preparing ${label}...`);
     try {
-      const res = await fetch(`${API_BASE}/api/export`, { method: 'POST' });
+      const res = await sessionFetch('/export', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ format: exportFormat }),
+      });
       if (!res.ok) {
         const data = await res.json();
         setError(data.error || 'Export failed');
         return;
       }
-      const blob = await res.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = 'session-summary.md';
-      a.click();
-      window.URL.revokeObjectURL(url);
-      setStatusMessage('Exported summary');
+      downloadBlob(await res.blob(), filename);
+      setStatusMessage(`Exported ${label}`);
     } catch (err: any) {
       setError(err?.message || 'Export failed');
     }
   };
 
+  const renameSpeaker = async (id: string, label: string) => {
+    const current = speakers.find((sp) => sp.id === id);
+    if (!label.trim() || current?.label === label.trim()) return;
+    try {
+      const res = await sessionFetch(`/speakers/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ label }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || 'Unable to rename speaker');
+        return;
+      }
+      setSpeakers(data.speakers);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to rename speaker');
+    }
+  };
+
+  const apiRequest = async (url: string, init: RequestInit, failure: string) => {
+    try {
+      const res = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || failure, data.code);
+        return null;
+      }
+      return data;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : failure);
+      return null;
+    }
+  };
+
+  const sessionRequest = (path: string, init: RequestInit, failure: string) =>
+    apiRequest(sessionUrl(path), init, failure);
+
+  const addGlossaryTerm = async () => {
+    const data = await sessionRequest(
+      '/glossary',
+      { method: 'POST', body: JSON.stringify({ ...glossaryDraft, variants: glossaryDraft.variants.split('|') }) },
+      'Unable to add term',
+    );
+    if (!data) return;
+    setGlossary((prev) => [...prev.filter((t) => t.id !== data.term.id), data.term]);
+    setGlossaryDraft(EMPTY_GLOSSARY_DRAFT);
+  };
+
+  const updateGlossaryTerm = async (term: GlossaryTerm, changes: Partial<Omit<GlossaryTerm, 'id'>>) => {
+    const data = await sessionRequest(
+      `/glossary/${term.id}`,
+      { method: 'PATCH', body: JSON.stringify(changes) },
+      'Unable to update term',
+    );
+    if (data) setGlossary((prev) => prev.map((t) => (t.id === term.id ? data.term : t)));
+  };
+
+  const removeGlossaryTerm = async (id: string) => {
+    const data = await sessionRequest(`/glossary/${id}`, { method: 'DELETE' }, 'Unable to remove term');
+    if (data) setGlossary((prev) => prev.filter((t) => t.id !== id));
+  };
+
+  const importGlossary = async (file: File) => {
+    const data = await sessionRequest(
+      '/glossary/import',
+      { method: 'POST', body: JSON.stringify({ csv: await file.text(), mode: glossaryReplace ? 'replace' : 'merge' }) },
+      'Glossary import failed',
+    );
+    if (!data) return;
+    setGlossary(data.terms);
+    setStatusMessage(`Glossary imported (${data.terms.length} terms)`);
+  };
+
+  const exportGlossary = async () => {
+    try {
+      const res = await sessionFetch('/glossary/export');
+      if (!res.ok) {
+        setError('Glossary export failed');
+        return;
+      }
+      downloadBlob(await res.blob(), 'glossary.csv');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Glossary export failed');
+    }
+  };
+
+  const selectPromptTemplate = (prompt: PromptTemplate, version?: PromptVersion) => {
+    const source = version || prompt.versions.find((v) => v.version === prompt.active) || prompt.versions[0];
+    setPromptDraft({ name: prompt.name, system: source.system, user: source.user });
+    setPromptPreview(null);
+  };
+
+  const openPrompts = async () => {
+    setPromptsOpen(true);
+    const data = await sessionRequest('/prompts', { method: 'GET' }, 'Unable to load prompt templates');
+    if (!data) return;
+    setPromptTemplates(data.prompts);
+    const current = data.prompts.find((p: PromptTemplate) => p.name === promptDraft?.name) || data.prompts[0];
+    if (current) selectPromptTemplate(current);
+  };
+
+  const previewPrompt = async () => {
+    if (!promptDraft) return;
+    const { name, system, user } = promptDraft;
+    const data = await sessionRequest(
+      `/prompts/${name}/preview`,
+      { method: 'POST', body: JSON.stringify({ system, user }) },
+      'Preview failed',
+    );
+    if (data) setPromptPreview({ system: data.system, user: data.user });
+  };
+
+  const savePrompt = async () => {
+    if (!promptDraft) return;
+    const { name, system, user } = promptDraft;
+    const data = await sessionRequest(
+      `/prompts/${name}`,
+      { method: 'PUT', body: JSON.stringify({ system, user }) },
+      'Unable to save prompt template',
+    );
+    if (data) setStatusMessage(`Saved ${name} prompt v${data.version.version}`);
+  };
+
+  const rollbackPrompt = async (name: string, version: number) => {
+    const data = await sessionRequest(
+      `/prompts/${name}/rollback`,
+      { method: 'POST', body: JSON.stringify({ version }) },
+      'Rollback failed',
+    );
+    if (!data) return;
+    setPromptDraft({ name, system: data.version.system, user: data.version.user });
+    setPromptPreview(null);
+    setStatusMessage(`Restored ${name} prompt v${version}`);
+  };
+
+  const editStyle = (style: StyleEntry, copy = false) =>
+    setStyleDraft({
+      id: copy ? null : style.id,
+      name: copy ? `${style.name} (copy)` : style.name,
+      description: style.description,
+      palette: style.palette.join(', '),
+      mood: style.mood,
+      negative: style.negative,
+      referenceImage: style.referenceImage,
+    });
+
+  const saveStyle = async () => {
+    const { id, ...fields } = styleDraft;
+    const data = await apiRequest(
+      id ? `${API_BASE}/api/styles/${id}` : `${API_BASE}/api/styles`,
+      { method: id ? 'PATCH' : 'POST', body: JSON.stringify(fields) },
+      'Unable to save style',
+    );
+    if (!data) return;
+    setStyles((prev) => [...prev.filter((st) => st.id !== data.style.id), data.style]);
+    setStyleDraft(EMPTY_STYLE_DRAFT);
+    setStatusMessage(`Saved style “${data.style.name}”`);
+  };
+
+  const removeStyle = async (id: string) => {
+    const data = await apiRequest(`${API_BASE}/api/styles/${id}`, { method: 'DELETE' }, 'Unable to delete style');
+    if (!data) return;
+    setStyles((prev) => prev.filter((st) => st.id !== id));
+    if (styleId === id) chooseStyle('');
+  };
+
+  const loadReferenceImage = (file: File) => {
+    const reader = new FileReader();
+    reader.onload = () => setStyleDraft((prev) => ({ ...prev, referenceImage: String(reader.result) }));
+    reader.readAsDataURL(file);
+  };
+
+  const editedPrompt = promptTemplates.find((p) => p.name === promptDraft?.name);
+  const template = templates.find((t) => t.id === templateId) || templates[0];
+  const phaseOptions = template ? template.phases.map((p) => p.name) : [phase];
+
+  // '' means the free-text preset, which follows the workshop template's default style
+  const chooseStyle = (id: string) => {
+    setStyleId(id || null);
+    if (!id) setStylePreset(template?.defaultStyle || '');
+  };
+
+  const chooseTemplate = (id: string) => {
+    const next = templates.find((t) => t.id === id);
+    if (!next) return;
+    setTemplateId(next.id);
+    setWorkshopType(next.workshopType);
+    setPhase(next.phases[0].name);
+    if (next.defaultStyle && !styleId) setStylePreset(next.defaultStyle);
+  };
+
+  const speakerLabel = (id?: string) => (id ? speakers.find((sp) => sp.id === id)?.label || id : null);
+  const totalTalkMs = speakers.reduce((sum, sp) => sum + sp.talkMs, 0);
+
+  const handleTranscriptExport = async () => {
+    try {
+      // The download follows the caption mode on screen, so a bilingual view exports both languages
+      const languages = translation ? captionMode : 'original';
+      const res = await sessionFetch(`/transcript?format=${transcriptFormat}&languages=${languages}`);
+      if (!res.ok) {
+        const data = await res.json();
+        setError(data.error || 'Transcript export failed');
+        return;
+      }
+      downloadBlob(await res.blob(), `session-transcript.${transcriptFormat}`);
+      setStatusMessage(`Exported transcript (${transcriptFormat.toUpperCase()})`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Transcript export failed');
+    }
+  };
+
   const handleConfigSave = async () => {
     try {
-      const res = await fetch(`${API_BASE}/api/config`, {
+      const res = await sessionFetch('/config', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           phase,
+          autoEnabled,
           autoIntervalMinutes: autoInterval,
+          autoWordThreshold,
+          autoTopicShift,
           imageSize,
           stylePreset,
+          styleId,
+          styleLocked,
+          reviewEnabled,
+          reviewAutoRuns,
+          reviewTimeoutSeconds,
+          keepFullTranscript,
+          diarization,
+          translation,
+          redactionRules,
+          redactionNames,
+          redactionModel,
+          redactionKeep,
+          budgetCap,
         }),
       });
       if (!res.ok) {
@@ -559,6 +1747,128 @@ function App() {
     }
   };
 
+  const reviewPrompt = pendingReview
+    ? reviewEdit?.id === pendingReview.id
+      ? reviewEdit.prompt
+      : pendingReview.prompt
+    : '';
+  const reviewSecondsLeft = pendingReview?.expiresAt
+    ? Math.max(0, Math.round((Date.parse(pendingReview.expiresAt) - now) / 1000))
+    : null;
+
+  const approveReview = async () => {
+    if (!pendingReview) return;
+    setError(null);
+    setGenerationInProgress(true);
+    setStatusMessage('Generating approved image...');
+    try {
+      const res = await sessionFetch(`/review/${pendingReview.id}/approve`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ prompt: reviewPrompt }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw requestError(data, 'Generation failed');
+      }
+      const newImage: ImageItem = data.image;
+      setImages((prev) => [newImage, ...prev.filter((img) => img.id !== newImage.id)]);
+      setPendingReview(null);
+      setStatusMessage('Image ready');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Generation failed', errorCode(err));
+      setStatusMessage('Generation error');
+    } finally {
+      setGenerationInProgress(false);
+    }
+  };
+
+  const discardReview = async () => {
+    if (!pendingReview) return;
+    try {
+      await sessionFetch(`/review/${pendingReview.id}/discard`, { method: 'POST' });
+      setPendingReview(null);
+      setStatusMessage('Draft discarded');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to discard draft');
+    }
+  };
+
+  const openRework = (image: ImageItem) => {
+    setRework({ image, mode: 'regenerate', prompt: image.prompt, instruction: '', count: 3 });
+  };
+
+  const submitRework = async () => {
+    if (!rework) return;
+    const { image, mode, prompt, instruction, count } = rework;
+    setError(null);
+    setGenerationInProgress(true);
+    setStatusMessage(mode === 'refine' ? 'Refining image...' : 'Regenerating image...');
+    setRework(null);
+    try {
+      const res = await sessionFetch(`/images/${image.id}/regenerate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ mode, prompt, instruction, count }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw requestError(data, 'Regeneration failed');
+      }
+      const created: ImageItem[] = data.images;
+      const ids = new Set(created.map((img) => img.id));
+      setImages((prev) => [...created, ...prev.filter((img) => !ids.has(img.id))]);
+      setStatusMessage(created.length > 1 ? `${created.length} variations ready` : 'Image ready');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Regeneration failed', errorCode(err));
+      setStatusMessage('Generation error');
+    } finally {
+      setGenerationInProgress(false);
+    }
+  };
+
+  const lineageLabel = (img: ImageItem) => {
+    if (!img.parentId || !img.origin) return null;
+    const parent = images.find((p) => p.id === img.parentId);
+    const label = ORIGIN_LABELS[img.origin] || 'Derived';
+    return parent ? `${label} from ${formatClock(parent.createdAt)}` : label;
+  };
+
+  const analyseThemesNow = async () => {
+    try {
+      const res = await sessionFetch('/themes/refresh', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        throw requestError(data, 'Theme analysis failed');
+      }
+      setThemeMap(data);
+      setStatusMessage('Themes updated');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Theme analysis failed', errorCode(err));
+    }
+  };
+
+  const toggleViewMode = () => {
+    setViewMode(viewMode === 'latest' ? 'gallery' : 'latest');
+    setProjectedId(null);
+  };
+
+  const openPresenter = () => {
+    if (!sessionId) return;
+    const url = `${window.location.pathname}?view=presenter&session=${encodeURIComponent(sessionId)}`;
+    window.open(url, `aii-presenter-${sessionId}`, 'popup,width=1280,height=720');
+  };
+
+  const copyToClipboard = async (text: string | null, what: string) => {
+    if (!text) return;
+    try {
+      await navigator.clipboard.writeText(text);
+      setStatusMessage(`${what} copied`);
+    } catch {
+      setError('Unable to copy to the clipboard');
+    }
+  };
+
   const clearSavedKey = () => {
     localStorage.removeItem('aii_api_key');
     setSaveKey(false);
@@ -567,14 +1877,30 @@ function App() {
   const latestImage = images.find((img) => !img.deleted);
   const pinnedImages = images.filter((img) => img.pinned);
   const recentImages = images.filter((img) => !img.pinned);
+  // An imported recording reads as a timeline, from the start of the recording to the end
+  const galleryImages = batchJob
+    ? [...images].sort((a, b) => (a.recordingSpan?.startMs ?? 0) - (b.recordingSpan?.startMs ?? 0))
+    : [...pinnedImages, ...recentImages];
   const summaryBullets = useMemo(() => bulletsFromSummary(lastSummary?.text), [lastSummary]);
+  const themes = themeMap?.themes || [];
+  const selectedTheme = themes.find((theme) => theme.id === selectedThemeId) || null;
+  // The timeline runs from the first analysed stretch to the last; images sit where their transcript ends
+  const timelineStart = themes.length ? Math.min(...themes.map((theme) => theme.firstSeen)) : 0;
+  const timelineRange = Math.max((themeMap?.analysedUntil || timelineStart) - timelineStart, 1);
+  const timelinePct = (ts: number) => Math.min(Math.max(((ts - timelineStart) / timelineRange) * 100, 0), 100);
+  const maxThemeWords = Math.max(1, ...themes.map((theme) => theme.words));
+  const imagesById = new Map(images.map((img) => [img.id, img]));
 
   return (
     <div className="app">
       <header className="topbar">
         <div>
           <h1>NCIM AI Illustrator</h1>
-          <p className="tagline">Live visuals for strategy workshops (Arabic + English)</p>
+          <p className="tagline">
+            {sessionActive && sessionName
+              ? `${sessionName} • ${workshopType}`
+              : 'Live visuals for strategy workshops (Arabic + English)'}
+          </p>
         </div>
         <div className="top-actions">
           {sessionActive ? (
@@ -586,6 +1912,16 @@ function App() {
               Start new session
             </button>
           )}
+          {sessionActive && (
+            <button className="ghost" onClick={() => setGlossaryOpen(true)}>
+              Glossary
+            </button>
+          )}
+          {sessionActive && (
+            <button className="ghost" onClick={openPrompts}>
+              Prompts
+            </button>
+          )}
           <button className="ghost" onClick={() => setSettingsOpen(true)}>
             Settings
           </button>
@@ -628,12 +1964,26 @@ function App() {
             </div>
           </div>
           <div className="setup-col narrow">
+            <label>Session name</label>
+            <input
+              value={sessionName}
+              onChange={(e) => setSessionName(e.target.value)}
+              placeholder="e.g. Breakout room A"
+            />
             <label>Default language handling</label>
             <select value={languageMode} onChange={(e) => setLanguageMode(e.target.value as any)}>
               <option value="auto">Auto detect (Arabic + English)</option>
               <option value="arabic">Arabic primary</option>
               <option value="english">English primary</option>
             </select>
+            <label>Workshop template</label>
+            <select value={templateId} onChange={(e) => chooseTemplate(e.target.value)}>
+              {templates.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                </option>
+              ))}
+            </select>
             <label>Workshop type</label>
             <input
               value={workshopType}
@@ -642,7 +1992,7 @@ function App() {
             />
             <label>Starting phase</label>
             <select value={phase} onChange={(e) => setPhase(e.target.value)}>
-              {PHASES.map((p) => (
+              {phaseOptions.map((p) => (
                 <option key={p}>{p}</option>
               ))}
             </select>
@@ -652,16 +2002,115 @@ function App() {
                 <option key={s}>{s}</option>
               ))}
             </select>
-            <label>Style preset</label>
-            <select value={stylePreset} onChange={(e) => setStylePreset(e.target.value)}>
-              {STYLE_PRESETS.map((s) => (
-                <option key={s}>{s}</option>
+            <label>Image style</label>
+            <select value={styleId || ''} onChange={(e) => chooseStyle(e.target.value)}>
+              <option value="">Template default</option>
+              {styles.map((st) => (
+                <option key={st.id} value={st.id}>
+                  {st.name}
+                </option>
               ))}
             </select>
+            <label className="checkbox">
+              <input type="checkbox" checked={styleLocked} onChange={(e) => setStyleLocked(e.target.checked)} />
+              Lock style to the first approved image
+            </label>
+            <label className="checkbox">
+              <input
+                type="checkbox"
+                checked={keepFullTranscript}
+                onChange={(e) => setKeepFullTranscript(e.target.checked)}
+              />
+              Keep the full transcript for export
+            </label>
+            <label className="checkbox">
+              <input type="checkbox" checked={diarization} onChange={(e) => setDiarization(e.target.checked)} />
+              Label speakers (diarisation)
+            </label>
+            <label className="checkbox">
+              <input type="checkbox" checked={translation} onChange={(e) => setTranslation(e.target.checked)} />
+              Translate captions (Arabic ⇄ English)
+            </label>
+          </div>
+        </div>
+      )}
+
+      {!sessionActive && (
+        <div className="card stored-sessions batch-import">
+          <div className="block-header">
+            <p className="label">Import a recording</p>
+            <span className="muted">An illustrated timeline of a finished workshop, using the settings above</span>
+          </div>
+          <div className="inline-actions">
+            <input type="file" accept="audio/*,video/*" onChange={(e) => setBatchFile(e.target.files?.[0] || null)} />
+            <select value={batchSplit} onChange={(e) => setBatchSplit(e.target.value as BatchJob['split'])}>
+              <option value="time">One image per time window</option>
+              <option value="phases">One image per template phase</option>
+            </select>
+            {batchSplit === 'time' && (
+              <select value={batchWindowMinutes} onChange={(e) => setBatchWindowMinutes(Number(e.target.value))}>
+                {BATCH_WINDOW_OPTIONS.map((opt) => (
+                  <option key={opt} value={opt}>
+                    Every {opt} min
+                  </option>
+                ))}
+              </select>
+            )}
+            <button className="primary" disabled={!batchFile || batchUploading} onClick={importRecording}>
+              {batchUploading ? 'Uploading…' : 'Import'}
+            </button>
           </div>
         </div>
       )}
 
+      {!sessionActive && liveSessions.length > 0 && (
+        <div className="card stored-sessions">
+          <div className="block-header">
+            <p className="label">Running sessions</p>
+            <span className="muted">Rejoin a room already live on this backend</span>
+          </div>
+          {liveSessions.map((s) => (
+            <div className="stored-session" key={s.id}>
+              <div>
+                <p>{s.name || s.workshopType}</p>
+                <p className="muted">
+                  Started {formatClock(s.startedAt)} • {s.phase} • {s.imageCount} images
+                  {s.batch &&
+                    ` • import ${BATCH_STATUS_LABELS[s.batch.status].toLowerCase()}` +
+                      (s.batch.progress.total ? ` (${s.batch.progress.done}/${s.batch.progress.total})` : '')}
+                </p>
+              </div>
+              <button className="ghost small" onClick={() => joinSession(s)}>
+                Join
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {!sessionActive && storedSessions.length > 0 && (
+        <div className="card stored-sessions">
+          <div className="block-header">
+            <p className="label">Previous sessions</p>
+            <span className="muted">Saved on this machine</span>
+          </div>
+          {storedSessions.map((s) => (
+            <div className="stored-session" key={s.id}>
+              <div>
+                <p>{s.workshopType || 'Workshop'}</p>
+                <p className="muted">
+                  {new Date(s.startedAt).toLocaleString()} • {s.imageCount} images • {s.transcriptCount} transcript
+                  entries{s.endedAt ? '' : ' • interrupted'}
+                </p>
+              </div>
+              <button className="ghost small" onClick={() => resumeSession(s.id)}>
+                Resume
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       {sessionActive && (
         <div className="session-layout">
           <section className="left-panel">
@@ -669,13 +2118,15 @@ function App() {
               <div>
                 <p className="label">Workshop phase</p>
                 <select value={phase} onChange={(e) => setPhase(e.target.value)}>
-                  {PHASES.map((p) => (
+                  {phaseOptions.map((p) => (
                     <option key={p}>{p}</option>
                   ))}
                 </select>
               </div>
               <div className="status-group">
-                <span className={classNames('pill', audioLevel > 0.05 ? 'good' : 'neutral')}>Listening</span>
+                <span className={classNames('pill', voiceState === 'speech' ? 'good' : 'neutral')}>
+                  {VOICE_LABELS[voiceState]}
+                </span>
                 <span className={classNames('pill', generationInProgress ? 'warn' : 'neutral')}>
                   {generationInProgress ? 'Generating' : 'Idle'}
                 </span>
@@ -684,7 +2135,9 @@ function App() {
                     'pill',
                     realtimeStatus === 'connected'
                       ? 'good'
-                      : realtimeStatus === 'connecting'
+                      : realtimeStatus === 'connecting' ||
+                        realtimeStatus === 'reconnecting' ||
+                        realtimeStatus === 'fallback'
                       ? 'warn'
                       : realtimeStatus === 'error'
                       ? 'bad'
@@ -695,19 +2148,59 @@ function App() {
                     ? 'Realtime on'
                     : realtimeStatus === 'connecting'
                     ? 'Realtime...'
+                    : realtimeStatus === 'reconnecting'
+                    ? 'Realtime reconnecting'
+                    : realtimeStatus === 'fallback'
+                    ? 'Chunked fallback'
                     : realtimeStatus === 'error'
                     ? 'Realtime error'
                     : 'Realtime off'}
                 </span>
+                {!streamConnected && <span className="pill warn">Polling</span>}
                 {transcriptionPaused && <span className="pill warn">Paused</span>}
-                {error && <span className="pill bad">Error</span>}
+                {error && <span className="pill bad">{ERROR_HELP[error.code || '']?.label || 'Error'}</span>}
               </div>
             </div>
 
-            <div className="audio-meter">
-              <div className="meter-bar" style={{ width: `${Math.min(audioLevel * 100, 100)}%` }} />
-              <span className="meter-label">Mic level</span>
-            </div>
+            {batchJob ? (
+              <div className="batch-progress">
+                <div className="block-header">
+                  <p className="label">
+                    {BATCH_STATUS_LABELS[batchJob.status]}
+                    {batchJob.fileName && ` • ${batchJob.fileName}`}
+                  </p>
+                  {BATCH_RUNNING.includes(batchJob.status) && (
+                    <button className="ghost small" disabled={batchJob.cancelRequested} onClick={cancelImport}>
+                      {batchJob.cancelRequested ? 'Cancelling…' : 'Cancel import'}
+                    </button>
+                  )}
+                </div>
+                <div className="audio-meter">
+                  <div
+                    className="meter-bar"
+                    style={{ width: `${(batchJob.progress.done / (batchJob.progress.total || 1)) * 100}%` }}
+                  />
+                </div>
+                <p className="muted">
+                  {batchJob.status === 'transcribing' &&
+                    `Minute ${batchJob.progress.done} of ${batchJob.progress.total}`}
+                  {batchJob.status === 'generating' &&
+                    `Window ${batchJob.progress.done} of ${batchJob.progress.total}`}
+                  {batchJob.durationMs !== null && ` • ${formatOffset(batchJob.durationMs)} recorded`}
+                  {batchJob.failedSegments > 0 && ` • ${batchJob.failedSegments} minute(s) could not be transcribed`}
+                </p>
+                {batchJob.error && (
+                  <p className="muted">
+                    {ERROR_HELP[batchJob.error.code || '']?.label || 'Import failed'}: {batchJob.error.message}
+                  </p>
+                )}
+              </div>
+            ) : (
+              <div className="audio-meter">
+                <div className="meter-bar" style={{ width: `${Math.min(audioLevel * 100, 100)}%` }} />
+                <span className="meter-label">Mic level</span>
+              </div>
+            )}
 
             <div className="controls-row">
               <button className="ghost" onClick={toggleTranscription}>
@@ -721,7 +2214,7 @@ function App() {
                 />
                 Skip silence
               </label>
-              <button className="primary" disabled={generationInProgress} onClick={() => triggerGenerate(false)}>
+              <button className="primary" disabled={generationInProgress} onClick={() => triggerGenerate()}>
                 {generationInProgress ? 'Generating…' : 'Generate image now'}
               </button>
               <div className="auto-toggle">
@@ -745,22 +2238,56 @@ function App() {
                   ))}
                 </select>
               </div>
-              <button className="ghost" onClick={() => setViewMode(viewMode === 'latest' ? 'gallery' : 'latest')}>
+              <button className="ghost" onClick={toggleViewMode}>
                 {viewMode === 'latest' ? 'Switch to gallery' : 'Latest only'}
               </button>
             </div>
+            {schedule?.enabled && schedule.nextRun && (
+              <p className="muted schedule-note">
+                Next auto run {formatClock(schedule.nextRun.at)} ({AUTO_REASON_LABELS[schedule.nextRun.reason]}
+                {schedule.nextRun.willSkip ? ', skipped unless more is said' : ''})
+                {schedule.wordsUntilRun ? ` or after ${schedule.wordsUntilRun} more words` : ''}
+                {autoTopicShift ? ' or on a topic shift' : ''}
+                {schedule.lastDecision &&
+                  ` • last: ${schedule.lastDecision.action === 'run' ? 'ran' : 'skipped'} on ${
+                    AUTO_REASON_LABELS[schedule.lastDecision.reason]
+                  }${schedule.lastDecision.because ? ` (${schedule.lastDecision.because})` : ''}`}
+              </p>
+            )}
+
+            {usage && (
+              <p className={`muted usage-note${usage.budgetReached ? ' over-budget' : ''}`}>
+                Estimated spend {formatUsd(usage.cost)}
+                {usage.budgetCap ? ` of ${formatUsd(usage.budgetCap)} cap` : ''} •{' '}
+                {(usage.byKind.transcription.audioSeconds / 60).toFixed(1)} audio min •{' '}
+                {usage.byKind.chat.inputTokens + usage.byKind.chat.outputTokens} chat tokens •{' '}
+                {usage.byKind.image.images} images
+                {usage.unpricedModels.length > 0 && ` • no price for ${usage.unpricedModels.join(', ')}`}
+                {usage.budgetReached && ' • auto generation paused'}
+              </p>
+            )}
 
             <div className="panel-block">
               <div className="block-header">
                 <p className="label">Transcript preview</p>
-                <span className="muted">Last few entries, not stored after session</span>
+                <span className="muted">
+                  {keepFullTranscript ? 'Full transcript kept for export' : 'Last few entries, not stored after session'}
+                </span>
               </div>
               <div className="transcript" dir="auto">
                 {transcripts.length === 0 && <p className="muted">Waiting for speech…</p>}
                 {transcripts.slice(-12).map((t, idx) => (
-                  <p key={`${t.timestamp}-${idx}`}>
+                  <p key={`${t.timestamp}-${idx}`} title={t.original ? `Original: ${t.original}` : undefined}>
                     <span className="muted">{formatTranscriptTime(t.timestamp)} — </span>
-                    {t.text}
+                    {t.speaker && <span className="speaker-tag">{speakerLabel(t.speaker)}</span>}
+                    {captionMode === 'both' && t.translation ? (
+                      <span className="caption-pair">
+                        <span dir="auto">{t.text}</span>
+                        <span dir="auto">{t.translation.text}</span>
+                      </span>
+                    ) : (
+                      <span dir="auto">{captionMode === 'translation' ? t.translation?.text || t.text : t.text}</span>
+                    )}
                   </p>
                 ))}
                 {partialTranscript && (
@@ -770,8 +2297,149 @@ function App() {
                   </p>
                 )}
               </div>
+              <div className="image-actions">
+                {translation && (
+                  <select
+                    value={captionMode}
+                    onChange={(e) => setCaptionMode(e.target.value as CaptionMode)}
+                    aria-label="Caption language"
+                  >
+                    <option value="original">Original</option>
+                    <option value="translation">Translation</option>
+                    <option value="both">Both languages</option>
+                  </select>
+                )}
+                <select
+                  value={transcriptFormat}
+                  onChange={(e) => setTranscriptFormat(e.target.value as TranscriptFormat)}
+                >
+                  {TRANSCRIPT_FORMATS.map((f) => (
+                    <option key={f} value={f}>
+                      {f.toUpperCase()}
+                    </option>
+                  ))}
+                </select>
+                <button className="ghost small" onClick={handleTranscriptExport}>
+                  Download transcript
+                </button>
+              </div>
             </div>
 
+            {participantLink && (
+              <div className="panel-block">
+                <div className="block-header">
+                  <p className="label">Participants</p>
+                  <label className="checkbox">
+                    <input
+                      type="checkbox"
+                      checked={participantQr}
+                      onChange={(e) => setParticipantQr(e.target.checked)}
+                    />
+                    QR on projector
+                  </label>
+                </div>
+                <div className="inline-actions">
+                  <button className="ghost small" onClick={() => copyToClipboard(participantLink, 'Participant link')}>
+                    Copy participant link
+                  </button>
+                  <button className="ghost small" onClick={() => setSurveyOpen(!survey?.open)}>
+                    {survey?.open ? 'Close survey' : 'Open survey'}
+                  </button>
+                </div>
+                {isLocalHost(participantBase) && (
+                  <p className="muted">
+                    Phones cannot open localhost: set AII_PARTICIPANT_URL on the server to this machine's network
+                    address.
+                  </p>
+                )}
+                {survey && survey.responses > 0 && (
+                  <div className="survey-results">
+                    <p className="muted">
+                      {survey.responses} survey {survey.responses === 1 ? 'response' : 'responses'}
+                    </p>
+                    {survey.questions.map((q) => (
+                      <div key={q.id}>
+                        <p>
+                          {q.label}{' '}
+                          {q.type === 'scale' && (
+                            <strong>{q.average !== null && q.average !== undefined ? `${q.average}/5` : '–'}</strong>
+                          )}
+                        </p>
+                        {q.type === 'text' && (
+                          <ul dir="auto">
+                            {(q.answers || []).slice(-5).map((answer, idx) => (
+                              <li key={idx}>{answer}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
+            {redactionLog.length > 0 && (
+              <div className="panel-block">
+                <div className="block-header">
+                  <p className="label">Redactions</p>
+                  <span className="muted">{redactionLog.length} removed before storage</span>
+                </div>
+                <div className="transcript">
+                  {redactionLog
+                    .slice(-8)
+                    .reverse()
+                    .map((entry) => (
+                      <p key={entry.id}>
+                        <span className="muted">{formatClock(entry.at)} — </span>
+                        {entry.label} <code>{entry.preview}</code>
+                      </p>
+                    ))}
+                </div>
+              </div>
+            )}
+
+            {diarization && (
+              <div className="panel-block">
+                <div className="block-header">
+                  <p className="label">Speakers</p>
+                  <label className="checkbox">
+                    <input
+                      type="checkbox"
+                      checked={showTalkTime}
+                      onChange={(e) => setShowTalkTime(e.target.checked)}
+                    />
+                    Talk time
+                  </label>
+                </div>
+                {speakers.length === 0 && <p className="muted">Speakers appear once voices are recognised.</p>}
+                {speakers.map((sp) => (
+                  <div className="speaker-row" key={sp.id}>
+                    <input
+                      key={sp.label}
+                      defaultValue={sp.label}
+                      aria-label={`Rename ${sp.id}`}
+                      onBlur={(e) => renameSpeaker(sp.id, e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') e.currentTarget.blur();
+                      }}
+                    />
+                    {showTalkTime && (
+                      <>
+                        <div className="talk-bar">
+                          <div style={{ width: `${totalTalkMs ? (sp.talkMs / totalTalkMs) * 100 : 0}%` }} />
+                        </div>
+                        <span className="muted">
+                          {(sp.talkMs / 60000).toFixed(1)} min •{' '}
+                          {totalTalkMs ? Math.round((sp.talkMs / totalTalkMs) * 100) : 0}%
+                        </span>
+                      </>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
             <div className="panel-block">
               <div className="block-header">
                 <p className="label">Last summary</p>
@@ -793,15 +2461,53 @@ function App() {
               <div>
                 <p className="label">Images</p>
                 <p className="muted">
-                  {viewMode === 'latest' ? 'Latest image view' : 'Gallery grid'} • {images.length} generated
+                  {VIEW_MODE_LABELS[viewMode]} • {images.length} generated
                 </p>
               </div>
               <div className="status-group">
+                {projectedId && <span className="pill good">Projector holding pinned image</span>}
                 {pendingQueued && <span className="pill warn">Next run queued</span>}
+                {pendingReview && <span className="pill warn">Awaiting review</span>}
                 <span className="pill neutral">{statusMessage}</span>
               </div>
             </div>
 
+            {pendingReview && (
+              <div className="panel-block review-card">
+                <div className="block-header">
+                  <p className="label">Draft awaiting review</p>
+                  <span className="muted">
+                    {pendingReview.phase} • {formatClock(pendingReview.createdAt)}
+                    {pendingReview.trigger === 'auto' && ' • auto run'}
+                    {reviewSecondsLeft !== null && ` • auto-approves in ${reviewSecondsLeft}s`}
+                  </span>
+                </div>
+                <ul className="summary-list" dir="auto">
+                  {bulletsFromSummary(pendingReview.summary).map((item, idx) => (
+                    <li key={idx}>{item}</li>
+                  ))}
+                </ul>
+                <label className="label">Prompt</label>
+                <textarea
+                  rows={5}
+                  value={reviewPrompt}
+                  onChange={(e) => setReviewEdit({ id: pendingReview.id, prompt: e.target.value })}
+                />
+                <div className="image-actions">
+                  <button
+                    className="primary small"
+                    disabled={generationInProgress || !reviewPrompt.trim()}
+                    onClick={approveReview}
+                  >
+                    Approve &amp; generate
+                  </button>
+                  <button className="ghost small" onClick={discardReview}>
+                    Discard
+                  </button>
+                </div>
+              </div>
+            )}
+
             {viewMode === 'latest' && latestImage && (
               <div className="latest-card">
                 <div className="image-wrapper">
@@ -811,6 +2517,7 @@ function App() {
                       <p className="label">{latestImage.phase}</p>
                       <p className="muted">
                         {formatClock(latestImage.createdAt)} • {latestImage.size}
+                        {lineageLabel(latestImage) && ` • ${lineageLabel(latestImage)}`}
                       </p>
                     </div>
                     <div className="image-actions">
@@ -820,6 +2527,13 @@ function App() {
                       >
                         {latestImage.pinned ? 'Unpin' : 'Pin'}
                       </button>
+                      <button
+                        className="ghost small"
+                        disabled={generationInProgress}
+                        onClick={() => openRework(latestImage)}
+                      >
+                        Rework
+                      </button>
                       <button className="ghost small" onClick={() => handleDelete(latestImage.id)}>
                         Delete
                       </button>
@@ -829,13 +2543,19 @@ function App() {
                 <div className="prompt">
                   <p className="label">Prompt</p>
                   <p>{latestImage.prompt}</p>
+                  {latestImage.promptVersions && (
+                    <p className="muted lineage">
+                      Summary template v{latestImage.promptVersions.summary} • illustration template v
+                      {latestImage.promptVersions.illustration}
+                    </p>
+                  )}
                 </div>
               </div>
             )}
 
             {viewMode === 'gallery' && (
               <div className="gallery-grid">
-                {[...pinnedImages, ...recentImages].map((img) => (
+                {galleryImages.map((img) => (
                   <div className="gallery-card" key={img.id}>
                     <div className="gallery-img">
                       <img src={img.url} alt={img.prompt.slice(0, 40)} />
@@ -846,13 +2566,32 @@ function App() {
                     </div>
                     <div className="gallery-meta">
                       <p className="muted">
-                        {formatClock(img.createdAt)} • {img.size}
+                        {img.recordingSpan
+                          ? `${formatOffset(img.recordingSpan.startMs)}–${formatOffset(img.recordingSpan.endMs)}`
+                          : formatClock(img.createdAt)}{' '}
+                        • {img.size}
                       </p>
+                      {lineageLabel(img) && <p className="muted lineage">↳ {lineageLabel(img)}</p>}
+                      {img.instruction && <p className="muted">“{img.instruction}”</p>}
                       <p className="prompt-snippet">{img.prompt}</p>
+                      {img.feedback && <p className="feedback-line">{describeFeedback(img.feedback)}</p>}
+                      {img.feedback && img.feedback.captions.length > 0 && (
+                        <details className="proposed-captions">
+                          <summary>{img.feedback.captions.length} proposed captions</summary>
+                          <ul dir="auto">
+                            {img.feedback.captions.map((c) => (
+                              <li key={c.at + c.text}>{c.text}</li>
+                            ))}
+                          </ul>
+                        </details>
+                      )}
                       <div className="image-actions">
                         <button className="ghost small" onClick={() => handlePin(img.id, !img.pinned)}>
                           {img.pinned ? 'Unpin' : 'Pin'}
                         </button>
+                        <button className="ghost small" disabled={generationInProgress} onClick={() => openRework(img)}>
+                          Rework
+                        </button>
                         <button className="ghost small" onClick={() => handleDelete(img.id)}>
                           Delete
                         </button>
@@ -861,6 +2600,154 @@ function App() {
                   </div>
                 ))}
                 {images.length === 0 && <p className="muted">No images yet. Generate to get started.</p>}
+                {imageTotal > images.length && (
+                  <button className="ghost small load-earlier" onClick={loadEarlierImages}>
+                    Show earlier images ({imageTotal - images.length})
+                  </button>
+                )}
+              </div>
+            )}
+
+            {viewMode === 'themes' && (
+              <div className="themes-view">
+                <div className="block-header">
+                  <p className="muted">
+                    {themeMap && !themeMap.enabled
+                      ? 'Theme tracking is switched off on the server'
+                      : themeMap?.analysing
+                        ? 'Reading the latest stretch of transcript…'
+                        : themeMap?.analysedUntil
+                          ? `Transcript read up to ${formatTranscriptTime(themeMap.analysedUntil)}`
+                          : 'Themes appear after a few minutes of discussion'}
+                  </p>
+                  <button
+                    className="ghost small"
+                    disabled={!themeMap?.enabled || themeMap.analysing}
+                    onClick={analyseThemesNow}
+                  >
+                    Analyse now
+                  </button>
+                </div>
+
+                {themes.length > 0 && (
+                  <div className="theme-timeline">
+                    {themes.map((theme) => (
+                      <div key={theme.id} className={`theme-lane${theme.id === selectedThemeId ? ' selected' : ''}`}>
+                        <button
+                          className="theme-lane-label"
+                          dir="auto"
+                          onClick={() => setSelectedThemeId(theme.id === selectedThemeId ? null : theme.id)}
+                        >
+                          {theme.label}
+                        </button>
+                        <div className="theme-track">
+                          {theme.occurrences.map((o) => (
+                            <span
+                              key={o.from}
+                              className="theme-bar"
+                              title={`${formatTranscriptTime(o.from)}–${formatTranscriptTime(o.to)} ${o.note}`}
+                              style={{
+                                left: `${timelinePct(o.from)}%`,
+                                width: `${Math.max(timelinePct(o.to) - timelinePct(o.from), 1.5)}%`,
+                              }}
+                            />
+                          ))}
+                          {theme.imageIds.map((id) => {
+                            const img = imagesById.get(id);
+                            if (!img) return null;
+                            const at = img.transcriptSpan?.to ?? Date.parse(img.createdAt);
+                            const made = formatClock(img.createdAt);
+                            return (
+                              <img
+                                key={id}
+                                className="theme-marker"
+                                src={img.url}
+                                alt={img.prompt.slice(0, 40)}
+                                title={img.themeId ? `${made} • generated for this theme` : made}
+                                style={{ left: `${timelinePct(at)}%` }}
+                              />
+                            );
+                          })}
+                        </div>
+                      </div>
+                    ))}
+                    <div className="theme-axis muted">
+                      <span>{formatTranscriptTime(timelineStart)}</span>
+                      <span>{formatTranscriptTime(timelineStart + timelineRange)}</span>
+                    </div>
+                  </div>
+                )}
+
+                {themes.length > 0 && (
+                  <div className="idea-map">
+                    {themes.map((theme) => {
+                      const related = relatedThemes(theme, themes);
+                      return (
+                        <div
+                          key={theme.id}
+                          className={`idea-bubble${theme.id === selectedThemeId ? ' selected' : ''}`}
+                          style={{ flexBasis: `${140 + 140 * Math.sqrt(theme.words / maxThemeWords)}px` }}
+                        >
+                          <button
+                            className="idea-label"
+                            dir="auto"
+                            onClick={() => setSelectedThemeId(theme.id === selectedThemeId ? null : theme.id)}
+                          >
+                            {theme.label}
+                          </button>
+                          <p className="muted">
+                            {theme.occurrences.length}× • {theme.words} words
+                          </p>
+                          <div className="keyword-chips" dir="auto">
+                            {theme.keywords.map((k) => (
+                              <span key={k.term} className="chip">
+                                {k.term}
+                              </span>
+                            ))}
+                          </div>
+                          {related.length > 0 && (
+                            <p className="muted">Came up with {related.map((r) => r.label).join(', ')}</p>
+                          )}
+                          {theme.imageIds.length > 0 && (
+                            <div className="idea-images">
+                              {theme.imageIds.map((id) => {
+                                const img = imagesById.get(id);
+                                return img ? <img key={id} src={img.url} alt={img.prompt.slice(0, 40)} /> : null;
+                              })}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {selectedTheme && (
+                  <div className="panel-block theme-detail">
+                    <div className="block-header">
+                      <p className="label" dir="auto">
+                        {selectedTheme.label}
+                      </p>
+                      <button
+                        className="primary small"
+                        disabled={generationInProgress}
+                        onClick={() => triggerGenerate(selectedTheme.id)}
+                      >
+                        Generate for this theme
+                      </button>
+                    </div>
+                    <ul className="theme-notes" dir="auto">
+                      {selectedTheme.occurrences.map((o) => (
+                        <li key={o.from}>
+                          <span className="muted">
+                            {formatTranscriptTime(o.from)}–{formatTranscriptTime(o.to)}
+                          </span>{' '}
+                          {o.note}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
               </div>
             )}
 
@@ -871,12 +2758,33 @@ function App() {
                 </span>
               </div>
               <div className="footer-actions">
+                <label className="checkbox">
+                  <input
+                    type="checkbox"
+                    checked={presenterCaptions}
+                    onChange={(e) => setPresenterCaptions(e.target.checked)}
+                  />
+                  Captions
+                </label>
+                <button className="ghost" onClick={openPresenter}>
+                  Open presenter view
+                </button>
+                <select value={exportFormat} onChange={(e) => setExportFormat(e.target.value as ExportFormat)}>
+                  {Object.entries(EXPORT_OPTIONS).map(([value, { label }]) => (
+                    <option key={value} value={value}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
                 <button className="ghost" onClick={handleExport}>
-                  Export prompts
+                  Export
                 </button>
-                <button className="ghost" onClick={() => setViewMode(viewMode === 'latest' ? 'gallery' : 'latest')}>
+                <button className="ghost" onClick={toggleViewMode}>
                   {viewMode === 'latest' ? 'Gallery view' : 'Latest view'}
                 </button>
+                <button className="ghost" onClick={() => setViewMode(viewMode === 'themes' ? 'latest' : 'themes')}>
+                  {viewMode === 'themes' ? 'Back to images' : 'Themes'}
+                </button>
               </div>
             </div>
           </section>
@@ -886,12 +2794,369 @@ function App() {
       {error && (
         <div className="toast error">
           <div>
-            <strong>Error:</strong> {error}
+            <strong>{ERROR_HELP[error.code || '']?.label || 'Error'}:</strong>{' '}
+            {ERROR_HELP[error.code || ''] ? (
+              <>
+                {ERROR_HELP[error.code || ''].hint}
+                <small className="error-detail">{error.message}</small>
+              </>
+            ) : (
+              error.message
+            )}
           </div>
           <button onClick={() => setError(null)}>Dismiss</button>
         </div>
       )}
 
+      {rework && (
+        <div className="modal">
+          <div className="modal-content">
+            <div className="modal-header">
+              <h3>Rework image</h3>
+              <button className="ghost" onClick={() => setRework(null)}>
+                Close
+              </button>
+            </div>
+            <img className="rework-preview" src={rework.image.url} alt={rework.image.prompt.slice(0, 60)} />
+            <label>Mode</label>
+            <select
+              value={rework.mode}
+              onChange={(e) => setRework({ ...rework, mode: e.target.value as ReworkMode })}
+            >
+              <option value="regenerate">Regenerate (optionally edit the prompt)</option>
+              <option value="variations">Variations from the same prompt</option>
+              <option value="refine">Refine this image with an instruction</option>
+            </select>
+            {rework.mode === 'refine' ? (
+              <>
+                <label>Instruction</label>
+                <input
+                  value={rework.instruction}
+                  onChange={(e) => setRework({ ...rework, instruction: e.target.value })}
+                  placeholder="e.g. make it warmer, add a bridge"
+                />
+              </>
+            ) : (
+              <>
+                <label>Prompt</label>
+                <textarea
+                  rows={5}
+                  value={rework.prompt}
+                  onChange={(e) => setRework({ ...rework, prompt: e.target.value })}
+                />
+              </>
+            )}
+            {rework.mode === 'variations' && (
+              <>
+                <label>Candidates</label>
+                <select
+                  value={rework.count}
+                  onChange={(e) => setRework({ ...rework, count: Number(e.target.value) })}
+                >
+                  {[2, 3, 4].map((n) => (
+                    <option key={n} value={n}>
+                      {n}
+                    </option>
+                  ))}
+                </select>
+              </>
+            )}
+            <div className="modal-footer">
+              <button
+                className="primary"
+                disabled={rework.mode === 'refine' && !rework.instruction.trim()}
+                onClick={submitRework}
+              >
+                {rework.mode === 'refine' ? 'Refine' : rework.mode === 'variations' ? 'Generate variations' : 'Regenerate'}
+              </button>
+              <button className="ghost" onClick={() => setRework(null)}>
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {glossaryOpen && (
+        <div className="modal">
+          <div className="modal-content glossary">
+            <div className="modal-header">
+              <h3>Glossary</h3>
+              <button className="ghost" onClick={() => setGlossaryOpen(false)}>
+                Close
+              </button>
+            </div>
+            <p className="muted">
+              Preferred spellings guide transcription, polishing and summaries. Separate “never transcribe as” variants
+              with |.
+            </p>
+            <div className="glossary-row glossary-head">
+              <span className="label">Term</span>
+              <span className="label">Arabic</span>
+              <span className="label">Never transcribe as</span>
+              <span />
+            </div>
+            {glossary.map((t) => (
+              <div className="glossary-row" key={`${t.id}-${t.term}-${t.arabic}-${t.variants.join('|')}`}>
+                <input
+                  defaultValue={t.term}
+                  onBlur={(e) => e.target.value.trim() !== t.term && updateGlossaryTerm(t, { term: e.target.value })}
+                />
+                <input
+                  dir="rtl"
+                  defaultValue={t.arabic}
+                  onBlur={(e) => e.target.value.trim() !== t.arabic && updateGlossaryTerm(t, { arabic: e.target.value })}
+                />
+                <input
+                  defaultValue={t.variants.join(' | ')}
+                  onBlur={(e) =>
+                    e.target.value !== t.variants.join(' | ') &&
+                    updateGlossaryTerm(t, { variants: e.target.value.split('|') })
+                  }
+                />
+                <button className="ghost small" onClick={() => removeGlossaryTerm(t.id)}>
+                  Remove
+                </button>
+              </div>
+            ))}
+            <div className="glossary-row">
+              <input
+                value={glossaryDraft.term}
+                placeholder="e.g. Vision 2030"
+                onChange={(e) => setGlossaryDraft({ ...glossaryDraft, term: e.target.value })}
+              />
+              <input
+                dir="rtl"
+                value={glossaryDraft.arabic}
+                placeholder="رؤية 2030"
+                onChange={(e) => setGlossaryDraft({ ...glossaryDraft, arabic: e.target.value })}
+              />
+              <input
+                value={glossaryDraft.variants}
+                placeholder="vision twenty thirty | vision 23"
+                onChange={(e) => setGlossaryDraft({ ...glossaryDraft, variants: e.target.value })}
+              />
+              <button className="primary small" disabled={!glossaryDraft.term.trim()} onClick={addGlossaryTerm}>
+                Add
+              </button>
+            </div>
+            <div className="modal-footer">
+              <label className="ghost file-button">
+                Import CSV
+                <input
+                  type="file"
+                  accept=".csv,text/csv"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) importGlossary(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              <label className="checkbox">
+                <input
+                  type="checkbox"
+                  checked={glossaryReplace}
+                  onChange={(e) => setGlossaryReplace(e.target.checked)}
+                />
+                Replace existing terms
+              </label>
+              <button className="ghost" onClick={exportGlossary}>
+                Export CSV
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {promptsOpen && (
+        <div className="modal">
+          <div className="modal-content glossary">
+            <div className="modal-header">
+              <h3>Prompt templates</h3>
+              <button className="ghost" onClick={() => setPromptsOpen(false)}>
+                Close
+              </button>
+            </div>
+            <select
+              value={promptDraft?.name || ''}
+              onChange={(e) => {
+                const next = promptTemplates.find((p) => p.name === e.target.value);
+                if (next) selectPromptTemplate(next);
+              }}
+            >
+              {promptTemplates.map((p) => (
+                <option key={p.name} value={p.name}>
+                  {p.label} (v{p.active})
+                </option>
+              ))}
+            </select>
+            {promptDraft && (
+              <>
+                <p className="muted">Variables: {editedPrompt?.variables.map((v) => `{${v}}`).join(' ')}</p>
+                <label>System prompt</label>
+                <textarea
+                  rows={4}
+                  value={promptDraft.system}
+                  onChange={(e) => setPromptDraft({ ...promptDraft, system: e.target.value })}
+                />
+                <label>User prompt</label>
+                <textarea
+                  rows={8}
+                  value={promptDraft.user}
+                  onChange={(e) => setPromptDraft({ ...promptDraft, user: e.target.value })}
+                />
+                <div className="inline-actions">
+                  <button className="ghost" onClick={previewPrompt}>
+                    Preview with current transcript
+                  </button>
+                  <button className="primary" onClick={savePrompt}>
+                    Save as new version
+                  </button>
+                </div>
+                {promptPreview && (
+                  <div className="panel-block">
+                    <p className="label">System</p>
+                    <pre className="prompt-preview">{promptPreview.system}</pre>
+                    <p className="label">User</p>
+                    <pre className="prompt-preview">{promptPreview.user}</pre>
+                  </div>
+                )}
+                <p className="label">History</p>
+                {editedPrompt &&
+                  [...editedPrompt.versions].reverse().map((v) => (
+                    <div className="stored-session" key={v.version}>
+                      <span>
+                        v{v.version} • {v.createdAt ? formatClock(v.createdAt) : 'default'}{' '}
+                        {editedPrompt.active === v.version && <span className="pill good">Active</span>}
+                      </span>
+                      <div className="inline-actions">
+                        <button className="ghost small" onClick={() => selectPromptTemplate(editedPrompt, v)}>
+                          Load
+                        </button>
+                        <button
+                          className="ghost small"
+                          disabled={editedPrompt.active === v.version}
+                          onClick={() => rollbackPrompt(editedPrompt.name, v.version)}
+                        >
+                          Roll back
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+
+      {stylesOpen && (
+        <div className="modal">
+          <div className="modal-content glossary">
+            <div className="modal-header">
+              <h3>Style library</h3>
+              <button className="ghost" onClick={() => setStylesOpen(false)}>
+                Close
+              </button>
+            </div>
+            {styles.map((st) => (
+              <div className="stored-session" key={st.id}>
+                <div>
+                  <strong>{st.name}</strong> {st.builtIn && <span className="pill neutral">Built in</span>}
+                  <p className="muted">{st.description}</p>
+                  <div className="swatches">
+                    {st.palette.map((c) => (
+                      <span key={c} className="swatch" style={{ background: c }} title={c} />
+                    ))}
+                    {st.mood && <span className="muted">{st.mood}</span>}
+                  </div>
+                </div>
+                <div className="inline-actions">
+                  {st.builtIn ? (
+                    <button className="ghost small" onClick={() => editStyle(st, true)}>
+                      Duplicate
+                    </button>
+                  ) : (
+                    <>
+                      <button className="ghost small" onClick={() => editStyle(st)}>
+                        Edit
+                      </button>
+                      <button className="ghost small danger" onClick={() => removeStyle(st.id)}>
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+            <p className="label">{styleDraft.id ? 'Edit style' : 'New style'}</p>
+            <input
+              value={styleDraft.name}
+              placeholder="Name"
+              onChange={(e) => setStyleDraft({ ...styleDraft, name: e.target.value })}
+            />
+            <textarea
+              rows={2}
+              value={styleDraft.description}
+              placeholder="Description used in the illustration prompt"
+              onChange={(e) => setStyleDraft({ ...styleDraft, description: e.target.value })}
+            />
+            <input
+              value={styleDraft.palette}
+              placeholder="Palette, e.g. #0b3d5c, #1ce5b4"
+              onChange={(e) => setStyleDraft({ ...styleDraft, palette: e.target.value })}
+            />
+            <input
+              value={styleDraft.mood}
+              placeholder="Mood"
+              onChange={(e) => setStyleDraft({ ...styleDraft, mood: e.target.value })}
+            />
+            <input
+              value={styleDraft.negative}
+              placeholder="Avoid (negative instructions)"
+              onChange={(e) => setStyleDraft({ ...styleDraft, negative: e.target.value })}
+            />
+            <div className="inline-actions">
+              <label className="ghost file-button">
+                {styleDraft.referenceImage ? 'Replace reference image' : 'Add reference image'}
+                <input
+                  type="file"
+                  accept="image/png,image/jpeg,image/webp"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) loadReferenceImage(file);
+                    e.target.value = '';
+                  }}
+                />
+              </label>
+              {styleDraft.referenceImage && (
+                <button
+                  className="ghost small"
+                  onClick={() => setStyleDraft({ ...styleDraft, referenceImage: null })}
+                >
+                  Remove reference
+                </button>
+              )}
+            </div>
+            {styleDraft.referenceImage && (
+              <img className="rework-preview" src={styleDraft.referenceImage} alt="Style reference" />
+            )}
+            <div className="modal-footer">
+              <button className="ghost" onClick={() => setStyleDraft(EMPTY_STYLE_DRAFT)}>
+                Clear
+              </button>
+              <button
+                className="primary"
+                disabled={!styleDraft.name.trim() || !styleDraft.description.trim()}
+                onClick={saveStyle}
+              >
+                {styleDraft.id ? 'Save changes' : 'Add style'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {settingsOpen && (
         <div className="modal">
           <div className="modal-content">
@@ -908,11 +3173,34 @@ function App() {
               ))}
             </select>
             <label>Image style</label>
-            <select value={stylePreset} onChange={(e) => setStylePreset(e.target.value)}>
-              {STYLE_PRESETS.map((s) => (
-                <option key={s}>{s}</option>
+            <select value={styleId || ''} onChange={(e) => chooseStyle(e.target.value)}>
+              <option value="">Template default</option>
+              {styles.map((st) => (
+                <option key={st.id} value={st.id}>
+                  {st.name}
+                </option>
               ))}
             </select>
+            <label className="checkbox">
+              <input type="checkbox" checked={styleLocked} onChange={(e) => setStyleLocked(e.target.checked)} />
+              Lock style to the first approved image
+            </label>
+            {styleLocked && (
+              <p className="muted">
+                {styleAnchorId
+                  ? 'Later images follow the anchored image. Switch style or unlock to pick a new anchor.'
+                  : 'The next approved image becomes the style anchor.'}
+              </p>
+            )}
+            <button
+              className="ghost small"
+              onClick={() => {
+                setSettingsOpen(false);
+                setStylesOpen(true);
+              }}
+            >
+              Manage style library
+            </button>
             <label>Auto generation default</label>
             <select value={autoInterval} onChange={(e) => setAutoInterval(Number(e.target.value))}>
               {INTERVAL_OPTIONS.map((opt) => (
@@ -921,6 +3209,133 @@ function App() {
                 </option>
               ))}
             </select>
+            <label>Also run after new words</label>
+            <select value={autoWordThreshold} onChange={(e) => setAutoWordThreshold(Number(e.target.value))}>
+              {WORD_THRESHOLD_OPTIONS.map((opt) => (
+                <option key={opt} value={opt}>
+                  {opt ? `${opt} words` : 'Off'}
+                </option>
+              ))}
+            </select>
+            <label className="checkbox">
+              <input type="checkbox" checked={autoTopicShift} onChange={(e) => setAutoTopicShift(e.target.checked)} />
+              Also run when the topic shifts
+            </label>
+            <label className="checkbox">
+              <input
+                type="checkbox"
+                checked={reviewEnabled}
+                onChange={(e) => setReviewEnabled(e.target.checked)}
+              />
+              Review prompts before generating images
+            </label>
+            <label className="checkbox">
+              <input
+                type="checkbox"
+                checked={keepFullTranscript}
+                onChange={(e) => setKeepFullTranscript(e.target.checked)}
+              />
+              Keep the full transcript (not just the rolling window)
+            </label>
+            <label className="checkbox">
+              <input type="checkbox" checked={diarization} onChange={(e) => setDiarization(e.target.checked)} />
+              Label speakers in the transcript (extra transcription cost)
+            </label>
+            <label className="checkbox">
+              <input type="checkbox" checked={translation} onChange={(e) => setTranslation(e.target.checked)} />
+              Translate each segment into the other language (extra chat cost)
+            </label>
+            <label>Redact before any model sees the text</label>
+            {REDACTION_RULE_OPTIONS.map((rule) => (
+              <label className="checkbox" key={rule.id}>
+                <input
+                  type="checkbox"
+                  checked={redactionRules.includes(rule.id)}
+                  onChange={(e) =>
+                    setRedactionRules((prev) =>
+                      e.target.checked ? [...prev, rule.id] : prev.filter((id) => id !== rule.id),
+                    )
+                  }
+                />
+                {rule.label}
+              </label>
+            ))}
+            <label>Names to redact (one per line)</label>
+            <textarea
+              key={redactionNames.join('\n')}
+              rows={3}
+              dir="auto"
+              defaultValue={redactionNames.join('\n')}
+              onBlur={(e) =>
+                setRedactionNames(
+                  e.target.value
+                    .split(/[\n,]/)
+                    .map((name) => name.trim())
+                    .filter(Boolean),
+                )
+              }
+            />
+            <label className="checkbox">
+              <input type="checkbox" checked={redactionModel} onChange={(e) => setRedactionModel(e.target.checked)} />
+              Also let the model find other names and personal data (extra chat cost)
+            </label>
+            <label>Text kept in memory</label>
+            <select value={redactionKeep} onChange={(e) => setRedactionKeep(e.target.value as RedactionKeep)}>
+              <option value="redacted">Redacted text only</option>
+              <option value="original">Original too (console only, never saved or exported)</option>
+            </select>
+            <label>Budget cap (USD, 0 = no cap)</label>
+            <input
+              type="number"
+              min={0}
+              step={0.5}
+              value={budgetCap}
+              onChange={(e) => setBudgetCap(Math.max(0, Number(e.target.value) || 0))}
+            />
+            <label>Auto-triggered runs</label>
+            <select
+              value={reviewAutoRuns}
+              disabled={!reviewEnabled}
+              onChange={(e) => setReviewAutoRuns(e.target.value as ReviewAutoRuns)}
+            >
+              <option value="review">Hold for review</option>
+              <option value="skip">Generate without review</option>
+            </select>
+            <label>Auto-approve after</label>
+            <select
+              value={reviewTimeoutSeconds}
+              disabled={!reviewEnabled}
+              onChange={(e) => setReviewTimeoutSeconds(Number(e.target.value))}
+            >
+              {REVIEW_TIMEOUT_OPTIONS.map((opt) => (
+                <option key={opt} value={opt}>
+                  {opt ? `${opt} seconds` : 'Never (wait for facilitator)'}
+                </option>
+              ))}
+            </select>
+            {sessionActive && accessTokenRef.current && (
+              <>
+                <label>Access</label>
+                <div className="inline-actions">
+                  <button
+                    className="ghost small"
+                    onClick={() => copyToClipboard(accessTokenRef.current, 'Facilitator token')}
+                  >
+                    Copy facilitator token
+                  </button>
+                  {viewerToken && (
+                    <button className="ghost small" onClick={() => copyToClipboard(viewerToken, 'Viewer token')}>
+                      Copy viewer token
+                    </button>
+                  )}
+                </div>
+                <p className="muted">
+                  The facilitator token controls this session; share it only with co-facilitators. The viewer token
+                  is read-only, for presenter screens. Phones get their own participant token through the QR code,
+                  which only reaches the feedback page.
+                </p>
+              </>
+            )}
             <div className="modal-footer">
               <button className="primary" onClick={handleConfigSave}>
                 Save
@@ -0,0 +1,296 @@
+import { useEffect, useState } from 'react';
+import './Participant.css';
+import { bulletsFromSummary } from './format';
+import type { ImageItem, SurveyQuestion } from './types';
+
+type ParticipantProps = {
+  sessionId: string;
+  token: string;
+};
+
+type Thumb = 'up' | 'down';
+
+type MyVote = { thumb: Thumb | null; score: number | null };
+
+type FeedbackPage = {
+  sessionActive: boolean;
+  name: string | null;
+  images: Pick<ImageItem, 'id' | 'phase' | 'createdAt' | 'summary' | 'feedback'>[];
+  surveyOpen: boolean;
+  questions: SurveyQuestion[];
+  mine: { votes: Record<string, MyVote>; surveyAnswered: boolean } | null;
+};
+
+// Phones reach the server on the host they loaded this page from, unless VITE_API_BASE says otherwise
+const API_BASE = import.meta.env.VITE_API_BASE || `${window.location.protocol}//${window.location.hostname}:4000`;
+const POLL_MS = 5000;
+const SCORES = [1, 2, 3, 4, 5];
+
+// Anonymous and per browser, so a second vote replaces the first. crypto.randomUUID needs HTTPS,
+// which a workshop LAN rarely has.
+const participantId = (() => {
+  const stored = localStorage.getItem('aii_participant_id');
+  if (stored) return stored;
+  const bytes = crypto.getRandomValues(new Uint8Array(12));
+  const id = Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+  localStorage.setItem('aii_participant_id', id);
+  return id;
+})();
+
+function Participant({ sessionId, token }: ParticipantProps) {
+  const [page, setPage] = useState<FeedbackPage | null>(null);
+  const [problem, setProblem] = useState<string | null>(null);
+  const [pickedId, setPickedId] = useState<string | null>(null);
+  const [imageUrls, setImageUrls] = useState<Record<string, string>>({});
+  const [caption, setCaption] = useState('');
+  const [answers, setAnswers] = useState<Record<string, number | string>>({});
+  const [notice, setNotice] = useState('');
+
+  const base = `${API_BASE}/api/sessions/${encodeURIComponent(sessionId)}/feedback`;
+  const headers = { Authorization: `Bearer ${token}` };
+
+  useEffect(() => {
+    const url = `${API_BASE}/api/sessions/${encodeURIComponent(sessionId)}/feedback?participant=${participantId}`;
+    const load = async () => {
+      try {
+        const res = await fetch(url, { headers: { Authorization: `Bearer ${token}` } });
+        if (res.status === 404) {
+          setProblem('This session has ended. Thank you for taking part!');
+          return;
+        }
+        if (res.status === 401) {
+          setProblem('This link is no longer valid. Scan the code on the screen again.');
+          return;
+        }
+        if (!res.ok) return;
+        setPage(await res.json());
+        setProblem(null);
+      } catch {
+        // the next poll retries
+      }
+    };
+    load();
+    const id = setInterval(load, POLL_MS);
+    return () => clearInterval(id);
+  }, [sessionId, token]);
+
+  // Follows the newest image until the participant picks another one
+  const current = page?.images.find((img) => img.id === pickedId) || page?.images[0];
+  const currentId = current?.id;
+  const haveUrl = currentId ? Boolean(imageUrls[currentId]) : true;
+  useEffect(() => {
+    if (!currentId || haveUrl) return;
+    fetch(`${API_BASE}/api/sessions/${encodeURIComponent(sessionId)}/feedback/images/${currentId}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data: { url?: string } | null) => {
+        const url = data?.url;
+        if (url) setImageUrls((prev) => ({ ...prev, [currentId]: url }));
+      })
+      .catch(() => {
+        /* shown without the picture */
+      });
+  }, [sessionId, token, currentId, haveUrl]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const id = setTimeout(() => setNotice(''), 3000);
+    return () => clearTimeout(id);
+  }, [notice]);
+
+  const post = async (path: string, body: object) => {
+    try {
+      const res = await fetch(`${base}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify({ participantId, ...body }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setNotice(data.error || 'That did not go through, please try again');
+        return null;
+      }
+      return data;
+    } catch {
+      setNotice('No connection to the workshop server');
+      return null;
+    }
+  };
+
+  const mine = current ? page?.mine?.votes[current.id] : undefined;
+
+  const vote = async (change: Partial<MyVote>) => {
+    if (!current) return;
+    const data = await post('/vote', { imageId: current.id, ...change });
+    if (!data) return;
+    setNotice('Thanks for voting');
+    setPage((prev) =>
+      prev && {
+        ...prev,
+        images: prev.images.map((img) => (img.id === current.id ? { ...img, feedback: data.feedback } : img)),
+        mine: {
+          surveyAnswered: prev.mine?.surveyAnswered || false,
+          votes: { ...prev.mine?.votes, [current.id]: { thumb: null, score: null, ...mine, ...change } },
+        },
+      },
+    );
+  };
+
+  const sendCaption = async () => {
+    if (!current || !caption.trim()) return;
+    if (await post('/caption', { imageId: current.id, text: caption })) {
+      setCaption('');
+      setNotice('Caption sent to the facilitator');
+    }
+  };
+
+  const sendSurvey = async () => {
+    if (await post('/survey', { answers })) {
+      setNotice('Thank you for your answers');
+      setPage((prev) => prev && { ...prev, mine: { votes: prev.mine?.votes || {}, surveyAnswered: true } });
+    }
+  };
+
+  if (problem) {
+    return (
+      <div className="participant">
+        <p className="participant-message">{problem}</p>
+      </div>
+    );
+  }
+  if (!page) {
+    return (
+      <div className="participant">
+        <p className="participant-message">Connecting to the workshop…</p>
+      </div>
+    );
+  }
+
+  const feedback = current?.feedback;
+  return (
+    <div className="participant">
+      <header>
+        <h1>{page.name || 'Workshop'}</h1>
+        <p>React to the images on the screen • تفاعل مع الصور المعروضة</p>
+      </header>
+
+      {!current && <p className="participant-message">The first image is on its way…</p>}
+      {current && (
+        <section className="participant-card">
+          {imageUrls[current.id] ? (
+            <img src={imageUrls[current.id]} alt={current.phase} />
+          ) : (
+            <div className="participant-placeholder" />
+          )}
+          <p className="participant-caption" dir="auto">
+            <span>{current.phase}</span> {bulletsFromSummary(current.summary)[0]}
+          </p>
+
+          <div className="participant-thumbs">
+            {(['up', 'down'] as Thumb[]).map((thumb) => (
+              <button
+                key={thumb}
+                className={mine?.thumb === thumb ? 'chosen' : ''}
+                aria-label={thumb === 'up' ? 'Thumbs up' : 'Thumbs down'}
+                onClick={() => vote({ thumb: mine?.thumb === thumb ? null : thumb })}
+              >
+                {thumb === 'up' ? '👍' : '👎'}{' '}
+                <small>{(thumb === 'up' ? feedback?.up : feedback?.down) || 0}</small>
+              </button>
+            ))}
+          </div>
+          <div className="participant-scores" role="group" aria-label="Score from 1 to 5">
+            {SCORES.map((score) => (
+              <button
+                key={score}
+                className={mine?.score === score ? 'chosen' : ''}
+                onClick={() => vote({ score: mine?.score === score ? null : score })}
+              >
+                {score}
+              </button>
+            ))}
+          </div>
+
+          <div className="participant-row">
+            <input
+              dir="auto"
+              maxLength={120}
+              placeholder="Suggest a caption • اقترح عنوانًا"
+              value={caption}
+              onChange={(e) => setCaption(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') sendCaption();
+              }}
+            />
+            <button onClick={sendCaption} disabled={!caption.trim()}>
+              Send
+            </button>
+          </div>
+
+          {page.images.length > 1 && (
+            <div className="participant-strip">
+              {page.images.map((img, idx) => (
+                <button
+                  key={img.id}
+                  className={img.id === current.id ? 'chosen' : ''}
+                  onClick={() => setPickedId(idx === 0 ? null : img.id)}
+                >
+                  {idx === 0 ? 'Latest' : `${img.phase} ${page.images.length - idx}`}
+                  {page.mine?.votes[img.id] ? ' ✓' : ''}
+                </button>
+              ))}
+            </div>
+          )}
+        </section>
+      )}
+
+      {page.surveyOpen && (
+        <section className="participant-card participant-survey">
+          <h2>Session survey • استبيان الجلسة</h2>
+          {page.mine?.surveyAnswered && (
+            <p className="participant-note">Answered — you can still change your answers.</p>
+          )}
+          {page.questions.map((q) => (
+            <div key={q.id} className="participant-question">
+              <p>{q.label}</p>
+              <p dir="rtl">{q.labelAr}</p>
+              {q.type === 'scale' ? (
+                <div className="participant-scores">
+                  {SCORES.map((score) => (
+                    <button
+                      key={score}
+                      className={answers[q.id] === score ? 'chosen' : ''}
+                      onClick={() => setAnswers((prev) => ({ ...prev, [q.id]: score }))}
+                    >
+                      {score}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <textarea
+                  dir="auto"
+                  rows={3}
+                  maxLength={500}
+                  value={String(answers[q.id] ?? '')}
+                  onChange={(e) => setAnswers((prev) => ({ ...prev, [q.id]: e.target.value }))}
+                />
+              )}
+            </div>
+          ))}
+          <button className="participant-submit" onClick={sendSurvey} disabled={!Object.keys(answers).length}>
+            Submit • إرسال
+          </button>
+        </section>
+      )}
+
+      {notice && (
+        <p className="participant-notice" role="status">
+          {notice}
+        </p>
+      )}
+    </div>
+  );
+}
+
+export default Participant;
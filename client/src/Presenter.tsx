@@ -0,0 +1,104 @@
+import { useEffect, useState } from 'react';
+import './Presenter.css';
+import { bulletsFromSummary, formatClock } from './format';
+import { presenterChannelName } from './types';
+import type { ImageItem, PresenterMessage, PresenterState } from './types';
+
+type PresenterProps = {
+  sessionId: string;
+};
+
+const pickImage = (state: PresenterState | null, slideIndex: number): ImageItem | undefined => {
+  if (!state || state.images.length === 0) return undefined;
+  if (state.mode === 'pinned') {
+    const held = state.images.find((img) => img.id === state.imageId);
+    if (held) return held;
+  }
+  if (state.mode === 'slideshow') {
+    return state.images[slideIndex % state.images.length];
+  }
+  // Latest is the newest image whether or not it is pinned; the list puts pinned images first for the slideshow
+  const newer = (newest: ImageItem | undefined, img: ImageItem) =>
+    !newest || img.createdAt > newest.createdAt ? img : newest;
+  return state.images.filter((img) => !img.deleted).reduce(newer, undefined);
+};
+
+function Presenter({ sessionId }: PresenterProps) {
+  const [state, setState] = useState<PresenterState | null>(null);
+  const [slideIndex, setSlideIndex] = useState(0);
+  const [layers, setLayers] = useState<ImageItem[]>([]);
+
+  useEffect(() => {
+    const channel = new BroadcastChannel(presenterChannelName(sessionId));
+    channel.onmessage = (event: MessageEvent<PresenterMessage>) => {
+      if (event.data.type === 'state') {
+        setState(event.data.state);
+      }
+    };
+    channel.postMessage({ type: 'hello' } satisfies PresenterMessage);
+    return () => channel.close();
+  }, [sessionId]);
+
+  const slideshow = state?.mode === 'slideshow';
+  const slideSeconds = state?.slideSeconds || 8;
+  useEffect(() => {
+    if (!slideshow) return;
+    const id = setInterval(() => setSlideIndex((idx) => idx + 1), slideSeconds * 1000);
+    return () => clearInterval(id);
+  }, [slideshow, slideSeconds]);
+
+  // Keep the outgoing image underneath while the new one fades in on top
+  const current = pickImage(state, slideIndex);
+  if (current && layers[layers.length - 1]?.id !== current.id) {
+    setLayers([...layers.slice(-1), current]);
+  }
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {
+        /* ignore */
+      });
+    } else {
+      document.documentElement.requestFullscreen().catch(() => {
+        /* ignore */
+      });
+    }
+  };
+
+  const caption = current ? bulletsFromSummary(current.summary)[0] : undefined;
+
+  return (
+    <div className="presenter" onDoubleClick={toggleFullscreen}>
+      {!current && (
+        <p className="presenter-waiting">
+          {state ? 'Waiting for the first image…' : 'Waiting for the facilitator console…'}
+        </p>
+      )}
+      {current &&
+        layers.map((img) => (
+          <img
+            key={img.id}
+            className={img.id === current.id ? 'presenter-layer entering' : 'presenter-layer'}
+            src={img.url}
+            alt={img.prompt.slice(0, 60)}
+          />
+        ))}
+      {current && state?.captions && (
+        <div className="presenter-caption" dir="auto">
+          <span className="presenter-caption-meta">
+            {current.phase} • {formatClock(current.createdAt)}
+          </span>
+          {caption && <span>{caption}</span>}
+        </div>
+      )}
+      {state?.participantQr && (
+        <div className="presenter-qr">
+          <img src={state.participantQr} alt="Participant page QR code" />
+          <span>Scan to vote • امسح للتصويت</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default Presenter;
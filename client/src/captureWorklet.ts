@@ -0,0 +1,185 @@
+// Microphone capture, run on the audio rendering thread. Converts to PCM16, runs an energy VAD against an
+// adaptive noise floor and posts audio packets and level readings back to the console.
+// Vite bundles it on its own (?worker&url) for audioWorklet.addModule.
+import { CAPTURE_PROCESSOR, type CaptureControl, type CaptureMessage, type CaptureSettings } from './types';
+
+// AudioWorkletGlobalScope is not part of lib.dom
+declare const sampleRate: number;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+declare function registerProcessor(
+  name: string,
+  processor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessor,
+): void;
+
+const FRAME_MS = 20;
+const CALIBRATION_MS = 1000; // the first second sets the starting noise floor
+const SPEECH_RATIO = 3; // about 10 dB over the noise floor
+const MIN_THRESHOLD = 0.0015; // a dead-quiet room should not open on hiss
+const ONSET_FRAMES = 3; // 60 ms over the threshold before speech opens
+const PREROLL_MS = 300; // sent ahead of each onset so the first syllable is not clipped
+const PACKET_MS = 100;
+const LEVEL_MS = 50;
+
+const toPcm16 = (samples: Float32Array) => {
+  const int16 = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i += 1) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    int16[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return int16;
+};
+
+const rmsOf = (samples: Float32Array) => {
+  let sum = 0;
+  for (const sample of samples) sum += sample * sample;
+  return Math.sqrt(sum / samples.length);
+};
+
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  settings: CaptureSettings;
+  frame: Float32Array;
+  frameFill = 0;
+  // noise floor: averaged during calibration, then falls quickly and rises slowly while nobody speaks
+  noiseFloor = 0;
+  calibrationFrames = 0;
+  onsetFrames = 0;
+  speaking = false;
+  hangoverFrames = 0;
+  preroll: Int16Array[] = [];
+  packet: Int16Array[] = [];
+  packetSamples = 0;
+  levelPeak = 0;
+  levelFrames = 0;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    this.settings = options.processorOptions as CaptureSettings;
+    this.frame = new Float32Array(Math.round((sampleRate * FRAME_MS) / 1000));
+    // Speech already queued goes out before a pause or stop takes effect
+    this.port.onmessage = (event: MessageEvent<CaptureControl>) => {
+      const control = event.data;
+      if ('type' in control) {
+        this.flush();
+        this.port.postMessage({ type: 'stopped' } satisfies CaptureMessage);
+        return;
+      }
+      this.settings = { ...this.settings, ...control };
+      if (this.settings.paused) {
+        this.flush();
+        this.preroll = [];
+        this.hangoverFrames = 0;
+      }
+    };
+  }
+
+  get calibrating() {
+    return this.calibrationFrames < CALIBRATION_MS / FRAME_MS;
+  }
+
+  process(inputs: Float32Array[][]) {
+    const input = inputs[0]?.[0];
+    if (!input) return true;
+    for (let offset = 0; offset < input.length; ) {
+      const take = Math.min(input.length - offset, this.frame.length - this.frameFill);
+      this.frame.set(input.subarray(offset, offset + take), this.frameFill);
+      this.frameFill += take;
+      offset += take;
+      if (this.frameFill === this.frame.length) {
+        this.handleFrame(this.frame);
+        this.frameFill = 0;
+      }
+    }
+    return true;
+  }
+
+  handleFrame(frame: Float32Array) {
+    const rms = rmsOf(frame);
+    const wasSpeaking = this.speaking;
+    this.detect(rms);
+    this.reportLevel(rms);
+    if (this.settings.paused) return;
+
+    const pcm = toPcm16(frame);
+    if (!this.settings.skipSilence) {
+      this.queue(pcm);
+      return;
+    }
+    if (this.speaking && !wasSpeaking) {
+      for (const chunk of this.preroll) this.queue(chunk);
+      this.preroll = [];
+    }
+    if (this.speaking || this.hangoverFrames > 0) {
+      this.queue(pcm);
+      if (!this.speaking) {
+        this.hangoverFrames -= 1;
+        if (this.hangoverFrames === 0) this.flush();
+      }
+      return;
+    }
+    // With no hangover, the packet holding the end of speech would otherwise wait for the next onset
+    if (wasSpeaking) this.flush();
+    this.preroll.push(pcm);
+    if (this.preroll.length > PREROLL_MS / FRAME_MS) this.preroll.shift();
+  }
+
+  detect(rms: number) {
+    if (this.calibrating) {
+      this.calibrationFrames += 1;
+      this.noiseFloor += (rms - this.noiseFloor) / this.calibrationFrames;
+      return;
+    }
+    const threshold = Math.max(MIN_THRESHOLD, this.noiseFloor * SPEECH_RATIO);
+    if (rms >= threshold) {
+      this.onsetFrames += 1;
+      if (this.onsetFrames >= ONSET_FRAMES) this.speaking = true;
+    } else {
+      this.onsetFrames = 0;
+      if (this.speaking) {
+        this.speaking = false;
+        this.hangoverFrames = Math.ceil(this.settings.hangoverMs / FRAME_MS);
+      }
+    }
+    // Creeps up even during speech, so a noise step (air conditioning, a projector fan) cannot hold VAD open
+    const rate = rms < this.noiseFloor ? 0.2 : this.speaking ? 0.0005 : 0.02;
+    this.noiseFloor += (rms - this.noiseFloor) * rate;
+  }
+
+  reportLevel(rms: number) {
+    this.levelPeak = Math.max(this.levelPeak, rms);
+    this.levelFrames += 1;
+    if (this.levelFrames < LEVEL_MS / FRAME_MS) return;
+    this.port.postMessage({
+      type: 'level',
+      rms: this.levelPeak,
+      speaking: this.speaking,
+      calibrating: this.calibrating,
+      noiseFloor: this.noiseFloor,
+    } satisfies CaptureMessage);
+    this.levelPeak = 0;
+    this.levelFrames = 0;
+  }
+
+  queue(pcm: Int16Array) {
+    this.packet.push(pcm);
+    this.packetSamples += pcm.length;
+    if (this.packetSamples >= (sampleRate * PACKET_MS) / 1000) this.flush();
+  }
+
+  flush() {
+    if (!this.packetSamples) return;
+    const pcm = new Int16Array(this.packetSamples);
+    let offset = 0;
+    for (const chunk of this.packet) {
+      pcm.set(chunk, offset);
+      offset += chunk.length;
+    }
+    this.packet = [];
+    this.packetSamples = 0;
+    this.port.postMessage({ type: 'audio', pcm: pcm.buffer } satisfies CaptureMessage, [pcm.buffer]);
+  }
+}
+
+registerProcessor(CAPTURE_PROCESSOR, PcmCaptureProcessor);
@@ -2,9 +2,23 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import Presenter from './Presenter.tsx'
+import Participant from './Participant.tsx'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
+// The projector window is opened by the console as ?view=presenter&session=<id>; phones arrive from the
+// projector's QR code as ?view=participant&session=<id>&token=<participant token>
+const params = new URLSearchParams(window.location.search)
+const view = params.get('view')
+const session = params.get('session')
+const token = params.get('token')
+
+const root =
+  view === 'presenter' && session ? (
+    <Presenter sessionId={session} />
+  ) : view === 'participant' && session && token ? (
+    <Participant sessionId={session} token={token} />
+  ) : (
     <App />
-  </StrictMode>,
-)
+  )
+
+createRoot(document.getElementById('root')!).render(<StrictMode>{root}</StrictMode>)
@@ -0,0 +1,89 @@
+export type ImageItem = {
+  id: string;
+  prompt: string;
+  summary: string;
+  phase: string;
+  createdAt: string;
+  size: string;
+  pinned: boolean;
+  deleted: boolean;
+  url: string;
+  parentId?: string | null;
+  origin?: 'pipeline' | 'regenerate' | 'variation' | 'refine';
+  instruction?: string;
+  promptVersions?: { summary: number; illustration: number } | null;
+  styleId?: string | null;
+  // batch imports: the stretch of the recording the image was drawn from
+  recordingSpan?: { startMs: number; endMs: number } | null;
+  // timestamps of the first and last transcript entries behind the summary
+  transcriptSpan?: { from: number; to: number } | null;
+  // set when the image was generated for one tracked theme
+  themeId?: string;
+  // participant reactions from the phone page, aggregated by the server; null until somebody reacts
+  feedback?: ImageFeedback | null;
+};
+
+export type ImageFeedback = {
+  up: number;
+  down: number;
+  scoreCount: number;
+  averageScore: number | null;
+  participants: number;
+  captions: { text: string; at: string }[];
+};
+
+export type SurveyQuestion = {
+  id: string;
+  type: 'scale' | 'text';
+  label: string;
+  labelAr: string;
+};
+
+// scale questions carry count/average/distribution (scores 1-5), text questions the answers
+export type SurveyResult = SurveyQuestion & {
+  count?: number;
+  average?: number | null;
+  distribution?: number[];
+  answers?: string[];
+};
+
+export type SurveyResults = {
+  open: boolean;
+  responses: number;
+  questions: SurveyResult[];
+};
+
+export type PresenterMode = 'latest' | 'pinned' | 'slideshow';
+
+export type PresenterState = {
+  mode: PresenterMode;
+  imageId: string | null;
+  captions: boolean;
+  slideSeconds: number;
+  images: ImageItem[];
+  // QR code image for the participant page, shown in a corner of the projector
+  participantQr: string | null;
+};
+
+// Facilitator and presenter windows talk over a BroadcastChannel, so both must run in the same browser
+export type PresenterMessage = { type: 'hello' } | { type: 'state'; state: PresenterState };
+
+export const presenterChannelName = (sessionId: string) => `aii-presenter-${sessionId}`;
+
+// Console ⇄ capture worklet (captureWorklet.ts)
+export const CAPTURE_PROCESSOR = 'pcm-capture';
+
+export type CaptureSettings = {
+  paused: boolean;
+  skipSilence: boolean;
+  // keep sending this long after speech ends, so the server's own VAD hears the pause and closes the turn
+  hangoverMs: number;
+};
+
+// Console to worklet: settings changes, or stop (flush what is held, then answer 'stopped')
+export type CaptureControl = Partial<CaptureSettings> | { type: 'stop' };
+
+export type CaptureMessage =
+  | { type: 'audio'; pcm: ArrayBuffer }
+  | { type: 'stopped' }
+  | { type: 'level'; rms: number; speaking: boolean; calibrating: boolean; noiseFloor: number };
@@ -0,0 +1,122 @@
+const crypto = require('crypto');
+
+// Each session issues three bearer tokens at start: the facilitator token unlocks everything, the viewer token
+// is for read-only presenter screens and the participant token, printed in the room's QR code, only reaches
+// the participant page. Browsers cannot set headers on EventSource, WebSocket or download links, so `?token=`
+// is accepted as well as `Authorization: Bearer`.
+const ROLES = ['participant', 'viewer', 'facilitator'];
+
+// The session routes a role below the facilitator may use, as [method, path]; a role also gets the routes of
+// the roles below it, and anything not listed needs the facilitator. Viewers get the live status and its
+// event stream, images, the theme map and the QR code, never the transcript, exports, prompts or the glossary.
+const ROLE_ROUTES = {
+  participant: [
+    ['GET', /^\/feedback(\/images\/[^/]+)?$/],
+    ['POST', /^\/feedback\/(vote|caption|survey)$/],
+  ],
+  viewer: [
+    ['GET', /^\/(access|status|events|images|themes)$/],
+    ['GET', /^\/feedback\/qr\.svg$/],
+  ],
+};
+
+const createAccessTokens = () => ({
+  facilitator: crypto.randomBytes(24).toString('base64url'),
+  viewer: crypto.randomBytes(24).toString('base64url'),
+  participant: crypto.randomBytes(24).toString('base64url'),
+});
+
+// Only hashes go to the session journal, so a copied data directory does not hand out live tokens
+const hashToken = (token) => crypto.createHash('sha256').update(String(token)).digest('hex');
+
+const tokensMatch = (given, expected) => {
+  if (!given || !expected) return false;
+  const a = Buffer.from(hashToken(given));
+  const b = Buffer.from(hashToken(expected));
+  return crypto.timingSafeEqual(a, b);
+};
+
+const readToken = (req) => {
+  const header = req.headers?.authorization || '';
+  const match = /^Bearer\s+(\S+)$/i.exec(header);
+  if (match) return match[1];
+  const query = req.query?.token ?? new URL(req.url || '/', 'http://localhost').searchParams.get('token');
+  return typeof query === 'string' && query ? query : null;
+};
+
+// null when the token belongs to none of the roles
+const tokenRole = (tokens, token) => {
+  if (!tokens) return null;
+  if (tokensMatch(token, tokens.facilitator)) return 'facilitator';
+  if (tokensMatch(token, tokens.viewer)) return 'viewer';
+  if (tokensMatch(token, tokens.participant)) return 'participant';
+  return null;
+};
+
+const hasRole = (role, required) => ROLES.indexOf(role) >= ROLES.indexOf(required);
+
+// The lowest role whose routes include the request
+const requiredRole = (req) => {
+  const method = req.method === 'HEAD' ? 'GET' : req.method;
+  const allows = (role) => (ROLE_ROUTES[role] || []).some(([m, path]) => m === method && path.test(req.path));
+  return ROLES.find(allows) || 'facilitator';
+};
+
+// Comma-separated AII_CORS_ORIGINS; `*` allows any origin. Requests without an Origin header
+// (same-origin pages, curl, server-to-server) are not CORS requests and pass.
+const parseOrigins = (value) =>
+  String(value || '')
+    .split(',')
+    .map((origin) => origin.trim().replace(/\/$/, ''))
+    .filter(Boolean);
+
+const originAllowed = (origins, origin) => !origin || origins.includes('*') || origins.includes(origin);
+
+// enabled: false turns every check off (AII_ACCESS_CONTROL=false), for a single laptop on a closed network.
+// getSessionTokens(req) returns the tokens of the session the request targets, or null when there is none;
+// a route can pass its own getter, returning a list when a token from any of several sessions will do.
+const createAccessControl = ({ enabled = true, getSessionTokens, logEvent }) => {
+  const deny = (req, res, status, error, code) => {
+    logEvent('info', 'Access denied', { method: req.method, path: req.originalUrl.split('?')[0], code });
+    res.status(status).json({ error, code });
+  };
+
+  const check = (req, res, next, role, getTokens) => {
+    const candidates = [].concat(getTokens(req) || []);
+    // Nothing to protect: the route itself answers "No active session"
+    if (!enabled || !candidates.length) return next();
+    const token = readToken(req);
+    if (!token) return deny(req, res, 401, 'Access token required', 'AUTH_REQUIRED');
+    const granted = candidates
+      .map((tokens) => tokenRole(tokens, token))
+      .reduce((best, found) => (found && (!best || hasRole(found, best)) ? found : best), null);
+    if (!granted) return deny(req, res, 401, 'Access token not valid for this session', 'AUTH_REQUIRED');
+    if (!hasRole(granted, role)) return deny(req, res, 403, 'Facilitator access required', 'FORBIDDEN');
+    req.accessRole = granted;
+    next();
+  };
+
+  return {
+    enabled,
+    // Picks the role from ROLE_ROUTES; routes not listed there need the facilitator token
+    guard: (req, res, next) => check(req, res, next, requiredRole(req), getSessionTokens),
+    require:
+      (role, getTokens = getSessionTokens) =>
+      (req, res, next) =>
+        check(req, res, next, role, getTokens),
+    roleFor: (tokens, req) => (enabled ? tokenRole(tokens, readToken(req)) : 'facilitator'),
+  };
+};
+
+module.exports = {
+  ROLES,
+  createAccessControl,
+  createAccessTokens,
+  hashToken,
+  hasRole,
+  originAllowed,
+  parseOrigins,
+  readToken,
+  tokenRole,
+  tokensMatch,
+};
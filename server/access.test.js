@@ -0,0 +1,110 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const {
+  createAccessControl,
+  createAccessTokens,
+  originAllowed,
+  parseOrigins,
+  readToken,
+  tokenRole,
+} = require('./access');
+
+const fakeRes = () => {
+  const res = { statusCode: 200, body: null };
+  res.status = (code) => {
+    res.statusCode = code;
+    return res;
+  };
+  res.json = (body) => {
+    res.body = body;
+    return res;
+  };
+  return res;
+};
+
+const run = (middleware, req) => {
+  const res = fakeRes();
+  let passed = false;
+  middleware({ headers: {}, query: {}, originalUrl: req.path || '/', ...req }, res, () => {
+    passed = true;
+  });
+  return { passed, status: res.statusCode, code: res.body?.code };
+};
+
+test('tokens resolve to roles from the header or the query string', () => {
+  const tokens = createAccessTokens();
+  assert.strictEqual(new Set(Object.values(tokens)).size, 3);
+  assert.strictEqual(tokenRole(tokens, tokens.facilitator), 'facilitator');
+  assert.strictEqual(tokenRole(tokens, tokens.viewer), 'viewer');
+  assert.strictEqual(tokenRole(tokens, tokens.participant), 'participant');
+  assert.strictEqual(tokenRole(tokens, 'guess'), null);
+  assert.strictEqual(tokenRole(tokens, null), null);
+
+  assert.strictEqual(readToken({ headers: { authorization: 'Bearer abc' }, query: {} }), 'abc');
+  assert.strictEqual(readToken({ headers: {}, query: { token: 'xyz' } }), 'xyz');
+  // WebSocket upgrades are plain IncomingMessages without a parsed query
+  assert.strictEqual(readToken({ headers: {}, url: '/ws/audio?sessionId=1&token=ws' }), 'ws');
+});
+
+test('the guard lets viewers watch and keeps everything else for the facilitator', () => {
+  const tokens = createAccessTokens();
+  const access = createAccessControl({ getSessionTokens: () => tokens, logEvent: () => {} });
+  const viewer = { authorization: `Bearer ${tokens.viewer}` };
+  const facilitator = { authorization: `Bearer ${tokens.facilitator}` };
+
+  assert.deepStrictEqual(run(access.guard, { method: 'GET', path: '/status' }), {
+    passed: false,
+    status: 401,
+    code: 'AUTH_REQUIRED',
+  });
+  for (const [method, path] of [
+    ['GET', '/status'],
+    ['HEAD', '/events'],
+    ['GET', '/images'],
+    ['GET', '/feedback/images/img-1'],
+    ['POST', '/feedback/vote'],
+  ]) {
+    assert.strictEqual(run(access.guard, { method, path, headers: viewer }).passed, true, `${method} ${path}`);
+  }
+  // presenter screens only watch: the transcript, exports, prompts and the glossary are the facilitator's
+  for (const [method, path] of [
+    ['GET', '/transcript'],
+    ['POST', '/export'],
+    ['GET', '/prompts'],
+    ['POST', '/prompts/summary/preview'],
+    ['GET', '/glossary/export'],
+    ['GET', '/redactions'],
+    ['GET', '/images/img-1'],
+    ['POST', '/config'],
+  ]) {
+    assert.strictEqual(run(access.guard, { method, path, headers: viewer }).code, 'FORBIDDEN', `${method} ${path}`);
+  }
+  assert.strictEqual(run(access.guard, { method: 'GET', path: '/transcript', headers: facilitator }).passed, true);
+
+  // the QR code's participant token only reaches the participant page
+  const phone = { authorization: `Bearer ${tokens.participant}` };
+  assert.strictEqual(run(access.guard, { method: 'GET', path: '/feedback', headers: phone }).passed, true);
+  assert.strictEqual(run(access.guard, { method: 'POST', path: '/feedback/caption', headers: phone }).passed, true);
+  for (const path of ['/status', '/events', '/feedback/qr.svg']) {
+    assert.strictEqual(run(access.guard, { method: 'GET', path, headers: phone }).code, 'FORBIDDEN', path);
+  }
+  assert.strictEqual(run(access.guard, { method: 'DELETE', path: '/images/1', headers: facilitator }).passed, true);
+
+  // any live session's facilitator will do for shared resources
+  const other = createAccessTokens();
+  const shared = access.require('facilitator', () => [other, tokens]);
+  assert.strictEqual(run(shared, { method: 'POST', path: '/styles', headers: facilitator }).passed, true);
+  assert.strictEqual(run(access.require('facilitator', () => []), { method: 'POST', path: '/styles' }).passed, true);
+
+  const open = createAccessControl({ enabled: false, getSessionTokens: () => tokens, logEvent: () => {} });
+  assert.strictEqual(run(open.guard, { method: 'POST', path: '/config' }).passed, true);
+});
+
+test('origin allowlist', () => {
+  const origins = parseOrigins(' http://localhost:5173/, https://illustrator.example ,');
+  assert.deepStrictEqual(origins, ['http://localhost:5173', 'https://illustrator.example']);
+  assert.strictEqual(originAllowed(origins, 'https://illustrator.example'), true);
+  assert.strictEqual(originAllowed(origins, 'http://evil.example'), false);
+  assert.strictEqual(originAllowed(origins, undefined), true);
+  assert.strictEqual(originAllowed(['*'], 'http://evil.example'), true);
+});
@@ -0,0 +1,122 @@
+const fs = require('fs');
+const { v4: uuid } = require('uuid');
+const { encodeWav } = require('./diarization');
+
+// Recordings are transcribed in one-minute WAV slices: well under the 25 MB upload cap of the
+// transcription API, and short enough that a failed slice only loses a minute
+const BATCH_SEGMENT_MS = 60000;
+const BATCH_SPLITS = ['time', 'phases'];
+const BATCH_DONE = ['done', 'cancelled', 'failed'];
+
+const WAV_HEADER_BYTES = 64 * 1024; // the fmt and data chunk headers sit well inside this
+
+// Walks the RIFF chunks; only uncompressed PCM is understood. totalLength is the whole file's size when
+// buffer only holds its start.
+const readWavInfo = (buffer, totalLength = buffer.length) => {
+  if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    return null;
+  }
+  let format = null;
+  for (let offset = 12; offset + 8 <= buffer.length; ) {
+    const id = buffer.toString('ascii', offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+    if (id === 'fmt ') {
+      format = {
+        audioFormat: buffer.readUInt16LE(body),
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        bitsPerSample: buffer.readUInt16LE(body + 14),
+      };
+    } else if (id === 'data' && format) {
+      return { ...format, dataOffset: body, dataLength: Math.min(size, totalLength - body) };
+    }
+    offset = body + size + (size % 2);
+  }
+  return null;
+};
+
+const readRange = async (filePath, position, length) => {
+  const handle = await fs.promises.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, position);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+};
+
+// PCM16 mono WAV is sliced straight from the spooled upload: each segment's load() reads only its own
+// byte range, so a long recording is never held in memory. Anything else (other containers, stereo,
+// float) resolves to null and goes through ffmpeg instead.
+const splitWavFile = async (filePath, segmentMs = BATCH_SEGMENT_MS) => {
+  const { size } = await fs.promises.stat(filePath);
+  const info = readWavInfo(await readRange(filePath, 0, Math.min(size, WAV_HEADER_BYTES)), size);
+  if (!info || info.audioFormat !== 1 || info.channels !== 1 || info.bitsPerSample !== 16) return null;
+  const bytesPerMs = (info.sampleRate * 2) / 1000;
+  const segmentBytes = Math.floor((segmentMs * bytesPerMs) / 2) * 2;
+  const segments = [];
+  for (let start = 0; start < info.dataLength; start += segmentBytes) {
+    const length = Math.min(segmentBytes, info.dataLength - start);
+    const position = info.dataOffset + start;
+    segments.push({
+      startMs: Math.round(start / bytesPerMs),
+      durationMs: Math.round(length / bytesPerMs),
+      load: async () => encodeWav(await readRange(filePath, position, length), info.sampleRate),
+    });
+  }
+  return segments;
+};
+
+// time:   fixed windows of windowMinutes
+// phases: the recording divided evenly across the template's phases, in order
+const planWindows = ({ durationMs, split = 'time', windowMinutes = 10, phases = [] }) => {
+  if (!durationMs) return [];
+  if (split === 'phases' && phases.length) {
+    const size = durationMs / phases.length;
+    return phases.map((phase, index) => ({
+      index,
+      startMs: Math.round(index * size),
+      endMs: Math.round((index + 1) * size),
+      phase,
+    }));
+  }
+  const size = windowMinutes * 60 * 1000;
+  const windows = [];
+  for (let startMs = 0; startMs < durationMs; startMs += size) {
+    windows.push({ index: windows.length, startMs, endMs: Math.min(startMs + size, durationMs), phase: null });
+  }
+  return windows;
+};
+
+// Entries are placed by where they start in the recording
+const windowEntries = (window, entries) =>
+  entries.filter((entry) => entry.offsetMs >= window.startMs && entry.offsetMs < window.endMs);
+
+const createBatchJob = ({ fileName, split, windowMinutes }) => ({
+  id: uuid(),
+  fileName: fileName || null,
+  split: BATCH_SPLITS.includes(split) ? split : 'time',
+  windowMinutes: Number(windowMinutes) > 0 ? Number(windowMinutes) : 10,
+  status: 'queued', // queued | transcoding | transcribing | generating | done | cancelled | failed
+  progress: { done: 0, total: 0 },
+  durationMs: null,
+  failedSegments: 0,
+  windows: [],
+  error: null,
+  cancelRequested: false,
+  createdAt: new Date().toISOString(),
+  finishedAt: null,
+});
+
+module.exports = {
+  BATCH_DONE,
+  BATCH_SEGMENT_MS,
+  BATCH_SPLITS,
+  createBatchJob,
+  planWindows,
+  readWavInfo,
+  splitWavFile,
+  windowEntries,
+};
@@ -0,0 +1,68 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { encodeWav } = require('./diarization');
+const { createBatchJob, planWindows, readWavInfo, splitWavFile, windowEntries } = require('./batch');
+
+test('splits PCM16 mono WAV into fixed slices read from disk and leaves other formats to ffmpeg', async () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aii-batch-'));
+  const write = (name, buffer) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, buffer);
+    return file;
+  };
+  // 2.5 s at 1000 Hz, each sample its own index so the slices can be told apart
+  const pcm = Buffer.alloc(5000);
+  for (let i = 0; i < 2500; i += 1) pcm.writeInt16LE(i, i * 2);
+  const wav = encodeWav(pcm, 1000);
+  const slices = await splitWavFile(write('talk.wav', wav), 1000);
+  assert.deepStrictEqual(
+    slices.map(({ startMs, durationMs }) => [startMs, durationMs]),
+    [
+      [0, 1000],
+      [1000, 1000],
+      [2000, 500],
+    ],
+  );
+  const last = await slices[2].load();
+  const info = readWavInfo(last);
+  assert.strictEqual(info.dataLength, 1000);
+  assert.strictEqual(last.readInt16LE(info.dataOffset), 2000);
+
+  const stereo = Buffer.from(wav);
+  stereo.writeUInt16LE(2, 22);
+  assert.strictEqual(await splitWavFile(write('stereo.wav', stereo)), null);
+  assert.strictEqual(await splitWavFile(write('talk.mp3', Buffer.from('ID3 not a wav'))), null);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+test('plans time or phase windows and places entries by offset', () => {
+  const minutes = (m) => m * 60 * 1000;
+  assert.deepStrictEqual(
+    planWindows({ durationMs: minutes(25), windowMinutes: 10 }).map((w) => [w.startMs, w.endMs]),
+    [
+      [0, minutes(10)],
+      [minutes(10), minutes(20)],
+      [minutes(20), minutes(25)],
+    ],
+  );
+  // a long recording keeps its window size, one image per window
+  assert.strictEqual(planWindows({ durationMs: minutes(600), windowMinutes: 5 }).length, 120);
+
+  const phases = planWindows({ durationMs: minutes(30), split: 'phases', phases: ['Vision', 'Goals', 'KPIs'] });
+  assert.deepStrictEqual(
+    phases.map((w) => [w.phase, w.startMs]),
+    [
+      ['Vision', 0],
+      ['Goals', minutes(10)],
+      ['KPIs', minutes(20)],
+    ],
+  );
+  const entries = [{ offsetMs: 0 }, { offsetMs: minutes(10) }, { offsetMs: minutes(19) }];
+  assert.strictEqual(windowEntries(phases[1], entries).length, 2);
+
+  const job = createBatchJob({ fileName: 'rehearsal.m4a', split: 'chapters', windowMinutes: '0' });
+  assert.deepStrictEqual([job.split, job.windowMinutes, job.status], ['time', 10, 'queued']);
+});
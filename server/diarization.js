@@ -0,0 +1,119 @@
+// The diarize model accepts at most four known speakers, each with a 2–10 s reference clip
+const MAX_SPEAKERS = 4;
+const MIN_REFERENCE_MS = 2000;
+const MAX_REFERENCE_MS = 10000;
+
+const encodeWav = (pcm, sampleRate) => {
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0);
+  header.writeUInt32LE(36 + pcm.length, 4);
+  header.write('WAVE', 8);
+  header.write('fmt ', 12);
+  header.writeUInt32LE(16, 16);
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // mono
+  header.writeUInt32LE(sampleRate, 24);
+  header.writeUInt32LE(sampleRate * 2, 28);
+  header.writeUInt16LE(2, 32);
+  header.writeUInt16LE(16, 34);
+  header.write('data', 36);
+  header.writeUInt32LE(pcm.length, 40);
+  return Buffer.concat([header, pcm]);
+};
+
+// Keeps the last few minutes of PCM16 mono sent upstream, addressable by the
+// audio_start_ms / audio_end_ms offsets the realtime VAD reports
+const createPcmRecorder = ({ sampleRate, maxMs = 180000 }) => {
+  const bytesPerMs = (sampleRate * 2) / 1000;
+  let chunks = [];
+  let totalMs = 0;
+
+  const append = (pcm) => {
+    chunks.push({ startMs: totalMs, pcm });
+    totalMs += pcm.length / bytesPerMs;
+    const cutoff = totalMs - maxMs;
+    while (chunks.length > 1 && chunks[1].startMs <= cutoff) chunks.shift();
+  };
+
+  const slice = (startMs, endMs) => {
+    const parts = [];
+    for (const chunk of chunks) {
+      const chunkEnd = chunk.startMs + chunk.pcm.length / bytesPerMs;
+      if (chunkEnd <= startMs || chunk.startMs >= endMs) continue;
+      // keep 16-bit sample alignment when cutting into a chunk
+      const from = Math.max(0, Math.floor(((startMs - chunk.startMs) * bytesPerMs) / 2) * 2);
+      const to = Math.min(chunk.pcm.length, Math.ceil(((endMs - chunk.startMs) * bytesPerMs) / 2) * 2);
+      parts.push(chunk.pcm.subarray(from, to));
+    }
+    return parts.length ? Buffer.concat(parts) : null;
+  };
+
+  const reset = () => {
+    chunks = [];
+    totalMs = 0;
+  };
+
+  return { append, slice, reset, bytesPerMs };
+};
+
+// Maps per-request diarisation labels onto stable session speakers. Known speakers are sent back to the
+// model by id with a reference clip, so it answers with that id when it hears the same voice again.
+const createSpeakerRoster = (saved = []) => {
+  const speakers = saved.map(({ id, label, talkMs = 0 }) => ({ id, label, talkMs, reference: null }));
+
+  const knownSpeakers = () => {
+    const known = speakers.filter((s) => s.reference);
+    return { names: known.map((s) => s.id), references: known.map((s) => s.reference) };
+  };
+
+  // segments: [{ speaker, start, end }] in seconds; clip: { dataUrl, durationMs } or null
+  const assign = (segments, clip) => {
+    const talk = new Map();
+    for (const seg of segments) {
+      const ms = Math.max(0, (Number(seg.end) - Number(seg.start)) * 1000) || 0;
+      talk.set(seg.speaker, (talk.get(seg.speaker) || 0) + ms);
+    }
+    const [dominant, talkMs] = [...talk.entries()].sort((a, b) => b[1] - a[1])[0] || [];
+    if (!dominant) return null;
+    let speaker = speakers.find((s) => s.id === dominant);
+    const usableClip = clip && (clip.durationMs === undefined || clip.durationMs >= MIN_REFERENCE_MS);
+    if (!speaker) {
+      // An unknown voice only becomes a new speaker if we can keep a clip to recognise it next time
+      if (speakers.length >= MAX_SPEAKERS || !usableClip) return null;
+      const n = speakers.length + 1;
+      speaker = { id: `S${n}`, label: `Speaker ${n}`, talkMs: 0, reference: null };
+      speakers.push(speaker);
+    }
+    if (!speaker.reference && usableClip) {
+      speaker.reference = clip.dataUrl;
+    }
+    speaker.talkMs += talkMs;
+    return speaker;
+  };
+
+  const rename = (id, label) => {
+    const speaker = speakers.find((s) => s.id === id);
+    if (speaker) speaker.label = label;
+    return speaker || null;
+  };
+
+  const labelFor = (id) => speakers.find((s) => s.id === id)?.label || null;
+
+  const list = () => speakers.map(({ id, label, talkMs }) => ({ id, label, talkMs: Math.round(talkMs) }));
+
+  return { assign, rename, labelFor, list, knownSpeakers };
+};
+
+const clipFromPcm = (pcm, sampleRate) => {
+  const bytesPerMs = (sampleRate * 2) / 1000;
+  const durationMs = pcm.length / bytesPerMs;
+  const trimmed = pcm.subarray(0, Math.floor((MAX_REFERENCE_MS * bytesPerMs) / 2) * 2);
+  const wav = encodeWav(pcm, sampleRate);
+  return {
+    wav,
+    durationMs,
+    dataUrl: `data:audio/wav;base64,${encodeWav(trimmed, sampleRate).toString('base64')}`,
+  };
+};
+
+module.exports = { MAX_SPEAKERS, clipFromPcm, createPcmRecorder, createSpeakerRoster, encodeWav };
@@ -0,0 +1,38 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { clipFromPcm, createPcmRecorder, createSpeakerRoster } = require('./diarization');
+
+test('slices recorded pcm by VAD offsets', () => {
+  const recorder = createPcmRecorder({ sampleRate: 1000, maxMs: 2000 });
+  // 1 kHz mono PCM16 is 2 bytes per ms
+  recorder.append(Buffer.alloc(1000, 1)); // 0-500 ms
+  recorder.append(Buffer.alloc(1000, 2)); // 500-1000 ms
+  const clip = recorder.slice(250, 750);
+  assert.strictEqual(clip.length, 1000);
+  assert.strictEqual(clip[0], 1);
+  assert.strictEqual(clip[clip.length - 1], 2);
+
+  recorder.append(Buffer.alloc(4000, 3)); // 1000-3000 ms pushes the oldest chunks out
+  assert.strictEqual(recorder.slice(0, 400), null);
+});
+
+test('keeps speakers stable across diarisation calls', () => {
+  const roster = createSpeakerRoster();
+  const clip = clipFromPcm(Buffer.alloc(24000 * 2 * 3), 24000);
+  assert.strictEqual(Math.round(clip.durationMs), 3000);
+
+  const first = roster.assign([{ speaker: 'A', start: 0, end: 3 }], clip);
+  assert.strictEqual(first.id, 'S1');
+  assert.deepStrictEqual(roster.knownSpeakers().names, ['S1']);
+
+  // The model answers with the known id when it recognises the reference voice
+  const again = roster.assign([{ speaker: 'S1', start: 0, end: 1 }], null);
+  assert.strictEqual(again.id, 'S1');
+
+  // An unknown voice without a usable reference clip stays unlabelled
+  const short = clipFromPcm(Buffer.alloc(24000 * 2), 24000);
+  assert.strictEqual(roster.assign([{ speaker: 'A', start: 0, end: 1 }], short), null);
+
+  roster.rename('S1', 'Amal');
+  assert.deepStrictEqual(roster.list(), [{ id: 'S1', label: 'Amal', talkMs: 4000 }]);
+});
@@ -0,0 +1,477 @@
+const PDFDocument = require('pdfkit');
+const PptxGenJS = require('pptxgenjs');
+
+const EXPORT_FORMATS = {
+  markdown: { filename: 'session-summary.md', mime: 'text/markdown' },
+  html: { filename: 'session-gallery.html', mime: 'text/html; charset=utf-8' },
+  pdf: { filename: 'session-handout.pdf', mime: 'application/pdf' },
+  pptx: {
+    filename: 'session-deck.pptx',
+    mime: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  },
+};
+
+const TRANSCRIPT_FORMATS = {
+  srt: { filename: 'session-transcript.srt', mime: 'application/x-subrip; charset=utf-8' },
+  vtt: { filename: 'session-transcript.vtt', mime: 'text/vtt; charset=utf-8' },
+  txt: { filename: 'session-transcript.txt', mime: 'text/plain; charset=utf-8' },
+  json: { filename: 'session-transcript.json', mime: 'application/json' },
+};
+
+// Which side of a translated transcript the caption formats print; JSON always carries both
+const TRANSCRIPT_LANGUAGES = ['original', 'translation', 'both'];
+
+const bulletsFromSummary = (text) =>
+  (text || '')
+    .split('\n')
+    .map((line) => line.replace(/^[-•]\s*/, '').trim())
+    .filter(Boolean);
+
+const parseDataUrl = (url) => {
+  const match = /^data:([^;]+);base64,(.*)$/s.exec(url || '');
+  return match ? { mime: match[1], base64: match[2] } : null;
+};
+
+const formatTimestamp = (iso) => (iso ? new Date(iso).toISOString().replace('T', ' ').slice(0, 16) : '');
+
+const escapeHtml = (text) =>
+  String(text ?? '').replace(
+    /[&<>"']/g,
+    (ch) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[ch],
+  );
+
+const plural = (count, word) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// "3 up • 1 down • 4.2/5 from 5 scores"; plain words, since the PDF's built-in font has no emoji
+const describeFeedback = (feedback) => {
+  if (!feedback || (!feedback.participants && !feedback.captions?.length)) return null;
+  const parts = [`${feedback.up} up`, `${feedback.down} down`];
+  if (feedback.scoreCount) {
+    parts.push(`${feedback.averageScore}/5 from ${plural(feedback.scoreCount, 'score')}`);
+  }
+  return parts.join(' • ');
+};
+
+// Only sessions where somebody answered get a survey section
+const surveyForExport = (session) => {
+  const results = session.feedback?.surveyResults();
+  return results?.responses ? results : null;
+};
+
+const describeSurveyQuestion = (question) =>
+  question.type === 'scale'
+    ? `${question.average ?? '–'}/5 (${plural(question.count, 'answer')})`
+    : plural(question.answers.length, 'comment');
+
+// Everything the rich exports render: live images oldest-first, grouped by phase in the order phases were reached
+const buildExportDocument = (session, now = new Date()) => {
+  const images = session.images
+    .filter((img) => !img.deleted)
+    .slice()
+    .sort((a, b) => String(a.createdAt).localeCompare(String(b.createdAt)));
+  const groups = [];
+  for (const img of images) {
+    let group = groups.find((g) => g.phase === img.phase);
+    if (!group) {
+      group = { phase: img.phase, images: [] };
+      groups.push(group);
+    }
+    group.images.push({
+      ...img,
+      bullets: bulletsFromSummary(img.summary),
+      feedbackLine: describeFeedback(img.feedback),
+      proposedCaptions: (img.feedback?.captions || []).map((c) => c.text),
+    });
+  }
+  return {
+    title: session.name || 'NCIM AI Illustrator session',
+    workshopType: session.config.workshopType,
+    startedAt: session.startedAt,
+    exportedAt: now.toISOString(),
+    imageCount: images.length,
+    pinnedCount: images.filter((img) => img.pinned).length,
+    groups,
+    survey: surveyForExport(session),
+  };
+};
+
+const renderMarkdown = (session, now = new Date()) => {
+  const lines = [];
+  lines.push(`# NCIM AI Illustrator session`);
+  lines.push(`Date: ${now.toISOString()}`);
+  lines.push(`Workshop type: ${session.config.workshopType}`);
+  lines.push(`Phases used: ${Array.from(new Set(session.images.map((img) => img.phase))).join(', ')}`);
+  lines.push('');
+  lines.push('## Prompts');
+  session.images.forEach((img, idx) => {
+    lines.push(`${idx + 1}. [${img.createdAt}] (${img.phase})`);
+    lines.push(`Prompt: ${img.prompt}`);
+    const feedback = describeFeedback(img.feedback);
+    if (feedback) lines.push(`Participants: ${feedback}`);
+    (img.feedback?.captions || []).forEach((c) => lines.push(`- Proposed caption: ${c.text}`));
+    lines.push('');
+  });
+  if (session.lastSummary) {
+    lines.push('## Last summary');
+    lines.push(session.lastSummary.text);
+  }
+  const survey = surveyForExport(session);
+  if (survey) {
+    lines.push('');
+    lines.push(`## Participant survey (${plural(survey.responses, 'response')})`);
+    for (const question of survey.questions) {
+      lines.push(`- ${question.label}: ${describeSurveyQuestion(question)}`);
+      if (question.type === 'text') question.answers.forEach((answer) => lines.push(`  - ${answer}`));
+    }
+  }
+  return lines.join('\n');
+};
+
+const htmlList = (items, className) => {
+  if (!items.length) return '';
+  const attrs = className ? ` class="${className}" dir="auto"` : ' dir="auto"';
+  return `<ul${attrs}>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+};
+
+const renderHtml = (doc) => {
+  const figures = (group) =>
+    group.images
+      .map(
+        (img) => `
+      <figure class="${img.pinned ? 'pinned' : ''}">
+        <img src="${escapeHtml(img.url)}" alt="${escapeHtml(img.prompt.slice(0, 80))}" />
+        <figcaption>
+          <p class="meta">${escapeHtml(img.phase)} • ${escapeHtml(formatTimestamp(img.createdAt))}${img.pinned ? ' • <strong>Pinned</strong>' : ''}</p>
+          ${htmlList(img.bullets)}
+          <p class="prompt"><span>Prompt</span> ${escapeHtml(img.prompt)}</p>
+          ${img.feedbackLine ? `<p class="feedback"><span>Participants</span> ${escapeHtml(img.feedbackLine)}</p>` : ''}
+          ${htmlList(img.proposedCaptions, 'captions')}
+        </figcaption>
+      </figure>`,
+      )
+      .join('');
+  const sections = doc.groups
+    .map((group) => `\n    <section>\n      <h2>${escapeHtml(group.phase)}</h2>${figures(group)}\n    </section>`)
+    .join('');
+  const question = (q) =>
+    `\n        <dt>${escapeHtml(q.label)}</dt><dd>${escapeHtml(describeSurveyQuestion(q))}${
+      q.type === 'text' ? htmlList(q.answers) : ''
+    }</dd>`;
+  const survey = doc.survey
+    ? `
+    <section class="survey">
+      <h2>Participant survey (${plural(doc.survey.responses, 'response')})</h2>
+      <dl>${doc.survey.questions.map(question).join('')}
+      </dl>
+    </section>`
+    : '';
+  return `<!doctype html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8" />
+    <title>${escapeHtml(doc.title)}</title>
+    <style>
+      body { font-family: system-ui, sans-serif; margin: 0 auto; max-width: 1100px; padding: 32px; color: #10212b; }
+      header p { color: #4b6272; margin: 4px 0; }
+      section { margin-top: 40px; }
+      h2 { border-bottom: 2px solid #1ce5b4; padding-bottom: 6px; }
+      figure { display: grid; grid-template-columns: minmax(0, 3fr) minmax(0, 2fr); gap: 20px; margin: 24px 0; padding: 16px; border: 1px solid #d5e1e8; border-radius: 12px; break-inside: avoid; }
+      figure.pinned { border: 2px solid #e0a800; background: #fff9e6; }
+      figure img { width: 100%; border-radius: 8px; }
+      .meta { font-weight: 600; margin-top: 0; }
+      .prompt { font-size: 14px; color: #4b6272; }
+      .prompt span, .feedback span { display: block; font-weight: 600; text-transform: uppercase; font-size: 12px; }
+      .feedback { font-size: 14px; }
+      .captions { font-size: 14px; font-style: italic; color: #4b6272; }
+      .survey dt { font-weight: 600; margin-top: 12px; }
+    </style>
+  </head>
+  <body>
+    <header>
+      <h1>${escapeHtml(doc.title)}</h1>
+      <p>${escapeHtml(doc.workshopType)} • started ${escapeHtml(formatTimestamp(doc.startedAt))} • exported ${escapeHtml(formatTimestamp(doc.exportedAt))}</p>
+      <p>${doc.imageCount} images across ${doc.groups.length} phases • ${doc.pinnedCount} pinned</p>
+    </header>${sections || '\n    <p>No images were generated in this session.</p>'}${survey}
+  </body>
+</html>
+`;
+};
+
+const renderPdf = (doc) =>
+  new Promise((resolve, reject) => {
+    const pdf = new PDFDocument({ size: 'A4', margin: 40, info: { Title: doc.title } });
+    const chunks = [];
+    pdf.on('data', (chunk) => chunks.push(chunk));
+    pdf.on('end', () => resolve(Buffer.concat(chunks)));
+    pdf.on('error', reject);
+
+    const width = pdf.page.width - 80;
+    pdf.fontSize(22).text(doc.title);
+    pdf
+      .moveDown(0.3)
+      .fontSize(11)
+      .fillColor('#4b6272')
+      .text(`${doc.workshopType} • started ${formatTimestamp(doc.startedAt)} • exported ${formatTimestamp(doc.exportedAt)}`)
+      .text(`${doc.imageCount} images across ${doc.groups.length} phases • ${doc.pinnedCount} pinned`)
+      .fillColor('black');
+
+    for (const group of doc.groups) {
+      pdf.addPage().fontSize(18).text(group.phase);
+      for (const img of group.images) {
+        // One image per half page keeps handouts readable when printed
+        if (pdf.y > pdf.page.height / 2) pdf.addPage();
+        const data = parseDataUrl(img.url);
+        if (data) {
+          try {
+            pdf.moveDown(0.5).image(Buffer.from(data.base64, 'base64'), { fit: [width, 260], align: 'center' });
+          } catch (err) {
+            // PDFKit only embeds PNG and JPEG; other formats fall back to text only
+            pdf.moveDown(0.5).fontSize(10).text(`[${data.mime} image not embeddable]`);
+          }
+        }
+        pdf
+          .moveDown(0.5)
+          .fontSize(11)
+          .fillColor(img.pinned ? '#b07f00' : 'black')
+          .text(`${img.phase} • ${formatTimestamp(img.createdAt)}${img.pinned ? ' • PINNED' : ''}`)
+          .fillColor('black')
+          .fontSize(10);
+        img.bullets.forEach((bullet) => pdf.text(`• ${bullet}`, { indent: 10 }));
+        pdf.moveDown(0.3).fillColor('#4b6272').text(`Prompt: ${img.prompt}`).fillColor('black');
+        if (img.feedbackLine) pdf.moveDown(0.3).text(`Participants: ${img.feedbackLine}`);
+        img.proposedCaptions.forEach((caption) => pdf.text(`“${caption}”`, { indent: 10 }));
+        pdf.moveDown();
+      }
+    }
+    if (doc.survey) {
+      pdf.addPage().fontSize(18).text(`Participant survey (${plural(doc.survey.responses, 'response')})`).fontSize(11);
+      for (const question of doc.survey.questions) {
+        pdf.moveDown(0.6).text(`${question.label}: ${describeSurveyQuestion(question)}`);
+        if (question.type === 'text') question.answers.forEach((answer) => pdf.text(`• ${answer}`, { indent: 10 }));
+      }
+    }
+    pdf.end();
+  });
+
+const renderPptx = async (doc) => {
+  const pptx = new PptxGenJS();
+  pptx.layout = 'LAYOUT_WIDE';
+  pptx.title = doc.title;
+
+  const cover = pptx.addSlide();
+  cover.addText(doc.title, { x: 0.6, y: 2.4, w: 12, h: 1, fontSize: 36, bold: true });
+  cover.addText(
+    `${doc.workshopType} • ${formatTimestamp(doc.startedAt)}\n${doc.imageCount} images across ${doc.groups.length} phases`,
+    { x: 0.6, y: 3.5, w: 12, h: 1, fontSize: 18, color: '4B6272' },
+  );
+
+  for (const group of doc.groups) {
+    const divider = pptx.addSlide();
+    divider.addText(group.phase, { x: 0.6, y: 3, w: 12, h: 1.2, fontSize: 40, bold: true, color: '1CA585' });
+    for (const img of group.images) {
+      const slide = pptx.addSlide();
+      const data = parseDataUrl(img.url);
+      if (data) {
+        slide.addImage({
+          data: `${data.mime};base64,${data.base64}`,
+          x: 0.4,
+          y: 0.4,
+          w: 7.2,
+          h: 6.7,
+          sizing: { type: 'contain', w: 7.2, h: 6.7 },
+        });
+      }
+      if (img.pinned) {
+        slide.addShape(pptx.ShapeType.rect, { x: 0.3, y: 0.3, w: 7.4, h: 6.9, line: { color: 'E0A800', width: 3 } });
+      }
+      slide.addText(`${img.phase} • ${formatTimestamp(img.createdAt)}${img.pinned ? ' • Pinned' : ''}`, {
+        x: 8,
+        y: 0.4,
+        w: 4.9,
+        h: 0.5,
+        fontSize: 14,
+        bold: true,
+      });
+      slide.addText(
+        img.bullets.map((bullet) => ({ text: bullet, options: { bullet: true } })),
+        { x: 8, y: 1, w: 4.9, h: 3.6, fontSize: 13, valign: 'top' },
+      );
+      slide.addText(img.prompt, { x: 8, y: 4.8, w: 4.9, h: 1.8, fontSize: 10, color: '4B6272', valign: 'top' });
+      if (img.feedbackLine) {
+        slide.addText(`Participants: ${img.feedbackLine}`, { x: 8, y: 6.7, w: 4.9, h: 0.4, fontSize: 11, bold: true });
+      }
+      const notes = img.proposedCaptions.length
+        ? `${img.prompt}\n\nProposed captions:\n${img.proposedCaptions.map((c) => `- ${c}`).join('\n')}`
+        : img.prompt;
+      slide.addNotes(notes);
+    }
+  }
+  if (doc.survey) {
+    const slide = pptx.addSlide();
+    slide.addText(`Participant survey (${plural(doc.survey.responses, 'response')})`, {
+      x: 0.6,
+      y: 0.4,
+      w: 12,
+      h: 0.8,
+      fontSize: 28,
+      bold: true,
+    });
+    slide.addText(
+      doc.survey.questions.map((q) => ({
+        text: `${q.label}: ${describeSurveyQuestion(q)}`,
+        options: { bullet: true },
+      })),
+      { x: 0.6, y: 1.4, w: 12, h: 2.4, fontSize: 16, valign: 'top' },
+    );
+    const comments = doc.survey.questions.filter((q) => q.type === 'text').flatMap((q) => q.answers);
+    if (comments.length) {
+      slide.addText(comments.map((text) => ({ text, options: { bullet: true } })), {
+        x: 0.6,
+        y: 4,
+        w: 12,
+        h: 3.1,
+        fontSize: 12,
+        color: '4B6272',
+        valign: 'top',
+      });
+    }
+  }
+  return pptx.write({ outputType: 'nodebuffer' });
+};
+
+// Chunked uploads only know when a segment arrived, so estimate how long it was spoken for
+const estimateSpeechMs = (text) => Math.min(Math.max(text.split(/\s+/).length * 350, 1000), 15000);
+
+// Cue times are offsets from the session start; images point back at the cues their summary was built from
+const buildTranscriptCues = (session, entries) => {
+  const origin = Date.parse(session.startedAt) || entries[0]?.timestamp || 0;
+  let previousEnd = 0;
+  const cues = entries.map((entry, idx) => {
+    const end = Math.max((entry.endedAt ?? entry.timestamp) - origin, previousEnd);
+    const estimatedStart = Math.max(end - estimateSpeechMs(entry.text), previousEnd);
+    const start = Math.min(entry.startedAt ? Math.max(entry.startedAt - origin, 0) : estimatedStart, end);
+    previousEnd = end;
+    const speaker = entry.speaker ? session.speakers?.labelFor(entry.speaker) || entry.speaker : null;
+    return {
+      index: idx + 1,
+      itemId: entry.itemId || null,
+      speakerId: entry.speaker || null,
+      speaker,
+      start,
+      end,
+      timestamp: entry.timestamp,
+      text: entry.text,
+      language: entry.language || null,
+      translation: entry.translation || null,
+    };
+  });
+  const images = session.images
+    .filter((img) => !img.deleted && img.transcriptSpan)
+    .slice()
+    .reverse()
+    .map((img) => ({
+      id: img.id,
+      phase: img.phase,
+      createdAt: img.createdAt,
+      prompt: img.prompt,
+      parentId: img.parentId || null,
+      transcriptSpan: img.transcriptSpan,
+      cues: cues
+        .filter((cue) => cue.timestamp >= img.transcriptSpan.from && cue.timestamp <= img.transcriptSpan.to)
+        .map((cue) => cue.index),
+      at: Math.max(Date.parse(img.createdAt) - origin, 0),
+    }));
+  return { cues, images };
+};
+
+const formatCueTime = (ms, separator) => {
+  const pad = (value, size = 2) => String(value).padStart(size, '0');
+  const total = Math.round(ms);
+  const hours = Math.floor(total / 3600000);
+  const minutes = Math.floor(total / 60000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+};
+
+const describeImageCues = (image) =>
+  image.cues.length ? `cues ${image.cues[0]}–${image.cues[image.cues.length - 1]}` : 'no retained cues';
+
+// Segments that were never translated fall back to the original so the caption track has no gaps
+const cueText = (cue, languages) => {
+  if (languages === 'translation') return cue.translation?.text || cue.text;
+  if (languages === 'both' && cue.translation) return `${cue.text}\n${cue.translation.text}`;
+  return cue.text;
+};
+
+const renderTranscript = (format, session, entries, { languages = 'original' } = {}) => {
+  const { cues, images } = buildTranscriptCues(session, entries);
+  if (format === 'json') {
+    return JSON.stringify(
+      {
+        session: {
+          id: session.id,
+          name: session.name || null,
+          startedAt: session.startedAt,
+          workshopType: session.config.workshopType,
+        },
+        complete: Boolean(session.config.keepFullTranscript),
+        speakers: session.speakers?.list() || [],
+        segments: cues.map(({ timestamp, ...cue }) => ({ ...cue, receivedAt: new Date(timestamp).toISOString() })),
+        images,
+      },
+      null,
+      2,
+    );
+  }
+  if (format === 'srt') {
+    return cues
+      .map((cue) => {
+        const text = cue.speaker ? `${cue.speaker}: ${cueText(cue, languages)}` : cueText(cue, languages);
+        return `${cue.index}\n${formatCueTime(cue.start, ',')} --> ${formatCueTime(cue.end, ',')}\n${text}\n`;
+      })
+      .join('\n');
+  }
+  // Image markers follow the last cue that fed them, in both WebVTT NOTE blocks and the plain-text log
+  const markersAfter = (cue) => images.filter((img) => img.cues[img.cues.length - 1] === cue.index);
+  if (format === 'vtt') {
+    const blocks = ['WEBVTT'];
+    for (const cue of cues) {
+      const text = cue.speaker ? `<v ${cue.speaker}>${cueText(cue, languages)}` : cueText(cue, languages);
+      blocks.push(`${cue.index}\n${formatCueTime(cue.start, '.')} --> ${formatCueTime(cue.end, '.')}\n${text}`);
+      for (const img of markersAfter(cue)) {
+        const prompt = img.prompt.replace(/-->/g, '->');
+        blocks.push(`NOTE image ${img.id} (${img.phase}) from ${describeImageCues(img)}\n${prompt}`);
+      }
+    }
+    return `${blocks.join('\n\n')}\n`;
+  }
+  const lines = [];
+  for (const cue of cues) {
+    const speaker = cue.speaker ? `${cue.speaker}: ` : '';
+    const stamp = `[${formatCueTime(cue.start, '.').slice(0, 8)}]`;
+    lines.push(`${stamp} ${speaker}${cueText(cue, languages).replace(/\n/g, `\n${' '.repeat(stamp.length + 1)}`)}`);
+    for (const img of markersAfter(cue)) {
+      const at = formatCueTime(img.at, '.').slice(0, 8);
+      lines.push(`[${at}] >> Image (${img.phase}) from ${describeImageCues(img)}: ${img.prompt}`);
+    }
+  }
+  return `${lines.join('\n')}\n`;
+};
+
+const renderExport = async (format, session) => {
+  if (format === 'markdown') return renderMarkdown(session);
+  const doc = buildExportDocument(session);
+  if (format === 'html') return renderHtml(doc);
+  if (format === 'pdf') return renderPdf(doc);
+  return renderPptx(doc);
+};
+
+module.exports = {
+  EXPORT_FORMATS,
+  TRANSCRIPT_FORMATS,
+  TRANSCRIPT_LANGUAGES,
+  buildExportDocument,
+  buildTranscriptCues,
+  renderExport,
+  renderTranscript,
+};
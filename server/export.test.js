@@ -0,0 +1,158 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { buildExportDocument, buildTranscriptCues, renderExport, renderTranscript } = require('./export');
+const { createFeedbackBook } = require('./feedback');
+
+const pngDataUrl =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mP8/x8AAusB9Y3nKwAAAABJRU5ErkJggg==';
+
+const image = (id, phase, createdAt, extra = {}) => ({
+  id,
+  phase,
+  createdAt,
+  prompt: `prompt ${id}`,
+  summary: `- idea from ${id}\n- second point`,
+  url: pngDataUrl,
+  pinned: false,
+  ...extra,
+});
+
+// Session images are kept newest-first, as the live pipeline stores them
+const session = {
+  name: 'Room A',
+  startedAt: '2024-01-01T09:00:00.000Z',
+  config: { workshopType: 'Strategy', phase: 'KPIs' },
+  lastSummary: null,
+  images: [
+    image('img-4', 'Vision', '2024-01-01T09:40:00.000Z', { deleted: true }),
+    image('img-3', 'KPIs', '2024-01-01T09:30:00.000Z'),
+    image('img-2', 'Vision', '2024-01-01T09:20:00.000Z', { pinned: true }),
+    image('img-1', 'Vision', '2024-01-01T09:10:00.000Z'),
+  ],
+};
+
+test('groups live images by phase in time order', () => {
+  const doc = buildExportDocument(session);
+  assert.deepStrictEqual(
+    doc.groups.map((g) => [g.phase, g.images.map((img) => img.id)]),
+    [
+      ['Vision', ['img-1', 'img-2']],
+      ['KPIs', ['img-3']],
+    ],
+  );
+  assert.strictEqual(doc.pinnedCount, 1);
+  assert.deepStrictEqual(doc.groups[0].images[0].bullets, ['idea from img-1', 'second point']);
+});
+
+test('renders html, pdf and pptx exports', async () => {
+  const html = await renderExport('html', session);
+  assert.match(html, /<h2>Vision<\/h2>/);
+  assert.match(html, /class="pinned"/);
+  assert.ok(html.includes(pngDataUrl));
+  assert.ok(!html.includes('prompt img-4'));
+
+  const pdf = await renderExport('pdf', session);
+  assert.strictEqual(pdf.subarray(0, 4).toString(), '%PDF');
+
+  const pptx = await renderExport('pptx', session);
+  assert.strictEqual(pptx.subarray(0, 2).toString(), 'PK');
+});
+
+test('includes participant scores, captions and the survey', async () => {
+  const feedback = createFeedbackBook();
+  feedback.vote({ imageId: 'img-2', participantId: 'phone-aaaa', thumb: 'up', score: 5 });
+  feedback.vote({ imageId: 'img-2', participantId: 'phone-bbbb', thumb: 'down', score: 2 });
+  feedback.caption({ imageId: 'img-2', participantId: 'phone-aaaa', text: 'The bridge we need' });
+  feedback.answerSurvey({ participantId: 'phone-aaaa', answers: { helpful: 4, comment: 'Loved it' } });
+  const rated = {
+    ...session,
+    feedback,
+    images: session.images.map((img) => ({ ...img, feedback: feedback.imageSummary(img.id) })),
+  };
+
+  const doc = buildExportDocument(rated);
+  assert.strictEqual(doc.groups[0].images[1].feedbackLine, '1 up • 1 down • 3.5/5 from 2 scores');
+  assert.strictEqual(doc.groups[0].images[0].feedbackLine, null);
+  assert.strictEqual(doc.survey.responses, 1);
+
+  const markdown = await renderExport('markdown', rated);
+  assert.match(markdown, /Participants: 1 up • 1 down/);
+  assert.match(markdown, /- Proposed caption: The bridge we need/);
+  assert.match(markdown, /## Participant survey \(1 response\)/);
+  const html = await renderExport('html', rated);
+  assert.match(html, /<ul class="captions" dir="auto"><li>The bridge we need<\/li><\/ul>/);
+  assert.match(html, /<li>Loved it<\/li>/);
+  assert.strictEqual((await renderExport('pdf', rated)).subarray(0, 4).toString(), '%PDF');
+  assert.strictEqual((await renderExport('pptx', rated)).subarray(0, 2).toString(), 'PK');
+});
+
+test('renders transcript cues with image cross-references', () => {
+  const started = Date.parse(session.startedAt);
+  const entries = [
+    {
+      text: 'first point',
+      timestamp: started + 5000,
+      itemId: 'item-1',
+      startedAt: started + 2000,
+      endedAt: started + 4500,
+    },
+    { text: 'second point from a chunk upload', timestamp: started + 9000 },
+  ];
+  const withSpan = {
+    ...session,
+    images: [
+      image('img-9', 'Vision', '2024-01-01T09:00:10.000Z', {
+        transcriptSpan: { from: entries[0].timestamp, to: entries[1].timestamp },
+      }),
+    ],
+  };
+  const { cues, images } = buildTranscriptCues(withSpan, entries);
+  assert.deepStrictEqual(
+    cues.map((cue) => [cue.start, cue.end]),
+    [
+      [2000, 4500],
+      [6900, 9000],
+    ],
+  );
+  assert.deepStrictEqual(images[0].cues, [1, 2]);
+
+  const srt = renderTranscript('srt', withSpan, entries);
+  assert.match(srt, /^1\n00:00:02,000 --> 00:00:04,500\nfirst point\n/);
+  const vtt = renderTranscript('vtt', withSpan, entries);
+  assert.match(vtt, /^WEBVTT\n\n1\n00:00:02\.000 --> 00:00:04\.500/);
+  assert.match(vtt, /NOTE image img-9 \(Vision\) from cues 1–2/);
+  const json = JSON.parse(renderTranscript('json', withSpan, entries));
+  assert.strictEqual(json.segments[0].itemId, 'item-1');
+  assert.strictEqual(json.images[0].id, 'img-9');
+});
+
+test('prints original, translated or bilingual caption text', () => {
+  const started = Date.parse(session.startedAt);
+  const entries = [
+    {
+      text: 'مرحبا بالجميع',
+      language: 'ar',
+      translation: { language: 'en', text: 'Hello everyone' },
+      timestamp: started + 4000,
+    },
+    { text: 'not translated yet', timestamp: started + 8000 },
+  ];
+  const original = renderTranscript('srt', session, entries);
+  assert.ok(original.includes('مرحبا بالجميع') && !original.includes('Hello everyone'));
+
+  const translated = renderTranscript('vtt', session, entries, { languages: 'translation' });
+  assert.ok(translated.includes('Hello everyone') && !translated.includes('مرحبا'));
+  assert.ok(translated.includes('not translated yet'));
+
+  const both = renderTranscript('srt', session, entries, { languages: 'both' });
+  assert.match(both, /مرحبا بالجميع\nHello everyone\n/);
+
+  const json = JSON.parse(renderTranscript('json', session, entries));
+  assert.deepStrictEqual(
+    json.segments.map((s) => [s.language, s.translation?.text ?? null]),
+    [
+      ['ar', 'Hello everyone'],
+      [null, null],
+    ],
+  );
+});
@@ -0,0 +1,187 @@
+// Participant feedback from the phone page: reactions to images (thumbs and/or a 1-5 score), proposed
+// captions and the end-of-session survey. Participants are anonymous; the page keeps a random id in
+// localStorage so a second vote replaces the first instead of counting twice.
+
+const SURVEY_QUESTIONS = [
+  {
+    id: 'helpful',
+    type: 'scale',
+    label: 'How much did the live illustrations help the discussion?',
+    labelAr: 'إلى أي مدى ساعدت الرسومات الحية في النقاش؟',
+  },
+  {
+    id: 'accurate',
+    type: 'scale',
+    label: 'How well did the images reflect what was said?',
+    labelAr: 'إلى أي مدى عكست الصور ما قيل؟',
+  },
+  {
+    id: 'comment',
+    type: 'text',
+    label: 'Anything we should change next time?',
+    labelAr: 'هل هناك ما يجب تغييره في المرة القادمة؟',
+  },
+];
+
+const PARTICIPANT_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+const MAX_CAPTION_LENGTH = 120;
+const MAX_CAPTIONS_PER_IMAGE = 3; // per participant
+const MAX_COMMENT_LENGTH = 500;
+
+const checkParticipant = (participantId) => {
+  if (!PARTICIPANT_ID_PATTERN.test(participantId || '')) {
+    throw new Error('participantId must be 8-64 letters, digits, - or _');
+  }
+};
+
+// Captions are one line: newlines and runs of spaces collapse
+const oneLine = (text, limit) =>
+  String(text ?? '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, limit);
+
+const isScore = (value) => Number.isInteger(value) && value >= 1 && value <= 5;
+
+const round = (value) => Math.round(value * 100) / 100;
+
+// Records are kept so a resumed session restores every vote and answer
+//   vote        { imageId, participantId, thumb?: 'up' | 'down' | null, score?: 1-5 | null }
+//   caption     { imageId, participantId, text }
+//   survey      { participantId, answers }
+//   survey_open { open }
+const createFeedbackBook = ({ records = [] } = {}) => {
+  const history = [];
+  const votes = new Map(); // imageId -> Map(participantId -> { thumb, score })
+  const captions = new Map(); // imageId -> [{ participantId, text, at }]
+  const surveys = new Map(); // participantId -> { answers, at }
+  let surveyOpen = false;
+
+  const apply = (record) => {
+    history.push(record);
+    if (record.kind === 'vote') {
+      const byParticipant = votes.get(record.imageId) || new Map();
+      const previous = byParticipant.get(record.participantId) || { thumb: null, score: null };
+      byParticipant.set(record.participantId, {
+        thumb: record.thumb === undefined ? previous.thumb : record.thumb,
+        score: record.score === undefined ? previous.score : record.score,
+      });
+      votes.set(record.imageId, byParticipant);
+    } else if (record.kind === 'caption') {
+      const list = captions.get(record.imageId) || [];
+      list.push({ participantId: record.participantId, text: record.text, at: record.at });
+      captions.set(record.imageId, list);
+    } else if (record.kind === 'survey') {
+      surveys.set(record.participantId, { answers: record.answers, at: record.at });
+    } else if (record.kind === 'survey_open') {
+      surveyOpen = record.open;
+    }
+    return record;
+  };
+  records.forEach(apply);
+
+  const vote = ({ imageId, participantId, thumb, score }) => {
+    checkParticipant(participantId);
+    if (thumb !== undefined && thumb !== null && thumb !== 'up' && thumb !== 'down') {
+      throw new Error('thumb must be "up", "down" or null');
+    }
+    if (score !== undefined && score !== null && !isScore(score)) {
+      throw new Error('score must be a whole number from 1 to 5');
+    }
+    if (thumb === undefined && score === undefined) {
+      throw new Error('A vote needs a thumb or a score');
+    }
+    return apply({ kind: 'vote', at: new Date().toISOString(), imageId, participantId, thumb, score });
+  };
+
+  const caption = ({ imageId, participantId, text }) => {
+    checkParticipant(participantId);
+    const line = oneLine(text, MAX_CAPTION_LENGTH);
+    if (!line) throw new Error('Caption text is required');
+    const mine = (captions.get(imageId) || []).filter((c) => c.participantId === participantId);
+    if (mine.length >= MAX_CAPTIONS_PER_IMAGE) {
+      throw new Error(`At most ${MAX_CAPTIONS_PER_IMAGE} captions per image`);
+    }
+    return apply({ kind: 'caption', at: new Date().toISOString(), imageId, participantId, text: line });
+  };
+
+  // Unknown questions are dropped; answering again replaces the earlier response
+  const answerSurvey = ({ participantId, answers }) => {
+    checkParticipant(participantId);
+    const clean = {};
+    for (const question of SURVEY_QUESTIONS) {
+      const value = answers?.[question.id];
+      if (value === undefined || value === null || value === '') continue;
+      if (question.type === 'scale') {
+        if (!isScore(value)) throw new Error(`${question.id} must be a whole number from 1 to 5`);
+        clean[question.id] = value;
+      } else {
+        const text = String(value).trim().slice(0, MAX_COMMENT_LENGTH);
+        if (text) clean[question.id] = text;
+      }
+    }
+    if (!Object.keys(clean).length) throw new Error('Answer at least one question');
+    return apply({ kind: 'survey', at: new Date().toISOString(), participantId, answers: clean });
+  };
+
+  const setSurveyOpen = (open) => apply({ kind: 'survey_open', at: new Date().toISOString(), open: Boolean(open) });
+
+  // Attached to the image as `feedback`; null until somebody reacts
+  const imageSummary = (imageId) => {
+    const cast = [...(votes.get(imageId)?.values() || [])];
+    const proposed = captions.get(imageId) || [];
+    if (!cast.length && !proposed.length) return null;
+    const scores = cast.map((v) => v.score).filter((score) => score != null);
+    return {
+      up: cast.filter((v) => v.thumb === 'up').length,
+      down: cast.filter((v) => v.thumb === 'down').length,
+      scoreCount: scores.length,
+      averageScore: scores.length ? round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null,
+      participants: cast.length,
+      captions: proposed.map(({ text, at }) => ({ text, at })),
+    };
+  };
+
+  const surveyResults = () => {
+    const responses = [...surveys.values()];
+    return {
+      open: surveyOpen,
+      responses: responses.length,
+      questions: SURVEY_QUESTIONS.map((question) => {
+        const given = responses.map((r) => r.answers[question.id]).filter((value) => value !== undefined);
+        if (question.type === 'text') return { ...question, answers: given };
+        const distribution = [1, 2, 3, 4, 5].map((score) => given.filter((value) => value === score).length);
+        return {
+          ...question,
+          count: given.length,
+          average: given.length ? round(given.reduce((sum, value) => sum + value, 0) / given.length) : null,
+          distribution,
+        };
+      }),
+    };
+  };
+
+  // What the phone page needs to show its own earlier choices
+  const participant = (participantId) => {
+    const mine = {};
+    for (const [imageId, byParticipant] of votes) {
+      const cast = byParticipant.get(participantId);
+      if (cast) mine[imageId] = cast;
+    }
+    return { votes: mine, surveyAnswered: surveys.has(participantId) };
+  };
+
+  return {
+    vote,
+    caption,
+    answerSurvey,
+    setSurveyOpen,
+    imageSummary,
+    surveyResults,
+    participant,
+    surveyOpen: () => surveyOpen,
+    toJSON: () => history.slice(),
+  };
+};
+
+module.exports = { MAX_CAPTION_LENGTH, SURVEY_QUESTIONS, createFeedbackBook };
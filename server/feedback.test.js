@@ -0,0 +1,68 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createFeedbackBook } = require('./feedback');
+
+test('one vote per participant per image, thumbs and scores merged', () => {
+  const book = createFeedbackBook();
+  book.vote({ imageId: 'img-1', participantId: 'phone-aaaa', thumb: 'up' });
+  book.vote({ imageId: 'img-1', participantId: 'phone-aaaa', score: 4 });
+  book.vote({ imageId: 'img-1', participantId: 'phone-bbbb', thumb: 'down', score: 1 });
+  // changing your mind replaces the earlier thumb
+  book.vote({ imageId: 'img-1', participantId: 'phone-bbbb', thumb: 'up' });
+  book.vote({ imageId: 'img-1', participantId: 'phone-cccc', score: 2 });
+
+  assert.deepStrictEqual(book.imageSummary('img-1'), {
+    up: 2,
+    down: 0,
+    scoreCount: 3,
+    averageScore: 2.33,
+    participants: 3,
+    captions: [],
+  });
+  assert.strictEqual(book.imageSummary('img-2'), null);
+  assert.deepStrictEqual(book.participant('phone-aaaa'), {
+    votes: { 'img-1': { thumb: 'up', score: 4 } },
+    surveyAnswered: false,
+  });
+
+  assert.throws(() => book.vote({ imageId: 'img-1', participantId: 'x', thumb: 'up' }), /participantId/);
+  assert.throws(() => book.vote({ imageId: 'img-1', participantId: 'phone-aaaa', score: 6 }), /1 to 5/);
+  assert.throws(() => book.vote({ imageId: 'img-1', participantId: 'phone-aaaa' }), /thumb or a score/);
+});
+
+test('captions are single lines with a per-participant limit', () => {
+  const book = createFeedbackBook();
+  const record = book.caption({ imageId: 'img-1', participantId: 'phone-aaaa', text: '  Bridges\n between   teams ' });
+  assert.strictEqual(record.text, 'Bridges between teams');
+  book.caption({ imageId: 'img-1', participantId: 'phone-aaaa', text: 'second' });
+  book.caption({ imageId: 'img-1', participantId: 'phone-aaaa', text: 'third' });
+  assert.throws(() => book.caption({ imageId: 'img-1', participantId: 'phone-aaaa', text: 'fourth' }), /At most 3/);
+  assert.throws(() => book.caption({ imageId: 'img-1', participantId: 'phone-bbbb', text: '   ' }), /required/);
+  assert.deepStrictEqual(
+    book.imageSummary('img-1').captions.map((c) => c.text),
+    ['Bridges between teams', 'second', 'third'],
+  );
+});
+
+test('survey results aggregate answers and survive a restore from records', () => {
+  const book = createFeedbackBook();
+  book.setSurveyOpen(true);
+  book.answerSurvey({ participantId: 'phone-aaaa', answers: { helpful: 5, accurate: 3, comment: ' More colour ' } });
+  book.answerSurvey({ participantId: 'phone-bbbb', answers: { helpful: 4, unknown: 'ignored' } });
+  // answering again replaces the earlier response
+  book.answerSurvey({ participantId: 'phone-bbbb', answers: { helpful: 2 } });
+  assert.throws(() => book.answerSurvey({ participantId: 'phone-cccc', answers: { helpful: 0 } }), /1 to 5/);
+  assert.throws(() => book.answerSurvey({ participantId: 'phone-cccc', answers: {} }), /at least one/);
+  book.vote({ imageId: 'img-1', participantId: 'phone-aaaa', thumb: 'down' });
+
+  const restored = createFeedbackBook({ records: JSON.parse(JSON.stringify(book.toJSON())) });
+  const results = restored.surveyResults();
+  assert.strictEqual(results.open, true);
+  assert.strictEqual(results.responses, 2);
+  const [helpful, accurate, comment] = results.questions;
+  assert.deepStrictEqual([helpful.average, helpful.distribution], [3.5, [0, 1, 0, 0, 1]]);
+  assert.deepStrictEqual([accurate.count, accurate.average], [1, 3]);
+  assert.deepStrictEqual(comment.answers, ['More colour']);
+  assert.strictEqual(restored.participant('phone-bbbb').surveyAnswered, true);
+  assert.deepStrictEqual(restored.participant('phone-aaaa').votes, { 'img-1': { thumb: 'down', score: null } });
+});
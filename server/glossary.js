@@ -0,0 +1,147 @@
+const { v4: uuid } = require('uuid');
+
+// Seed list for new sessions; the facilitator edits it per workshop from the console
+const DEFAULT_TERMS = [
+  { term: 'NCIM', variants: ['N C I M', 'NC IM'] },
+  { term: 'National Center for Inspection and Monitoring' },
+  { term: 'KSA', arabic: 'المملكة العربية السعودية' },
+  { term: 'Vision 2030', arabic: 'رؤية 2030' },
+  { term: 'KPIs', arabic: 'مؤشرات الأداء' },
+  { term: 'inspection', arabic: 'التفتيش' },
+  { term: 'monitoring', arabic: 'الرقابة' },
+  { term: 'governorates', arabic: 'المحافظات' },
+  { term: 'digital platform', arabic: 'المنصة الرقمية' },
+  { term: 'field inspectors', arabic: 'المفتشون الميدانيون' },
+  { term: 'compliance', arabic: 'الامتثال' },
+];
+
+// Whisper-style prompts are short, so only the first terms make it into transcription hints
+const MAX_PROMPT_TERMS = 40;
+const CSV_COLUMNS = ['term', 'arabic', 'variants'];
+
+const cleanList = (value) =>
+  (Array.isArray(value) ? value : String(value || '').split('|'))
+    .map((item) => String(item).trim())
+    .filter(Boolean);
+
+const normalizeTerm = (input, existing = {}) => {
+  const term = String(input.term ?? existing.term ?? '').trim();
+  if (!term) {
+    throw new Error('A glossary term is required');
+  }
+  return {
+    id: existing.id || uuid(),
+    term,
+    arabic: String(input.arabic ?? existing.arabic ?? '').trim(),
+    variants: cleanList(input.variants ?? existing.variants),
+  };
+};
+
+const createDefaultGlossary = () => DEFAULT_TERMS.map((entry) => normalizeTerm(entry));
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Deterministic pass so "never transcribe as" variants are fixed even when polishing is off
+const applyGlossary = (text, terms) => {
+  let result = text;
+  for (const { term, variants } of terms) {
+    for (const variant of variants) {
+      // \b only understands Latin word characters; Arabic variants are matched as plain substrings
+      const latin = /^[\x20-\x7e]+$/.test(variant);
+      const pattern = new RegExp(latin ? `\\b${escapeRegExp(variant)}\\b` : escapeRegExp(variant), 'gi');
+      result = result.replace(pattern, term);
+    }
+  }
+  return result;
+};
+
+const describeTerm = ({ term, arabic }) => (arabic ? `${term} (${arabic})` : term);
+
+const glossaryPromptLines = (terms) => {
+  if (terms.length === 0) return [];
+  const lines = [`Prefer these spellings/terms: ${terms.slice(0, MAX_PROMPT_TERMS).map(describeTerm).join(', ')}.`];
+  const corrections = terms
+    .filter((t) => t.variants.length)
+    .map((t) => `${t.variants.map((v) => `"${v}"`).join(' / ')} → ${t.term}`);
+  if (corrections.length) {
+    lines.push(`Never transcribe as: ${corrections.join('; ')}.`);
+  }
+  return lines;
+};
+
+const csvCell = (value) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const toCsv = (terms) => {
+  const rows = terms.map((t) => [t.term, t.arabic, t.variants.join('|')].map(csvCell).join(','));
+  return `${[CSV_COLUMNS.join(','), ...rows].join('\n')}\n`;
+};
+
+const parseCsvRows = (text) => {
+  const rows = [];
+  let row = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i += 1) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i += 1;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim()));
+};
+
+// Accepts the export format; a header row is optional and columns default to term,arabic,variants
+const parseCsv = (text) => {
+  const rows = parseCsvRows(String(text || '').replace(/^\uFEFF/, ''));
+  const header = rows[0]?.map((c) => c.trim().toLowerCase());
+  const hasHeader = header?.includes('term');
+  const columns = hasHeader ? header : CSV_COLUMNS;
+  return (hasHeader ? rows.slice(1) : rows).map((cells) => {
+    const record = Object.fromEntries(columns.map((col, idx) => [col, cells[idx] || '']));
+    return normalizeTerm(record);
+  });
+};
+
+// Imported terms replace existing ones with the same spelling
+const mergeTerms = (current, incoming) => {
+  const byTerm = new Map(current.map((t) => [t.term.toLowerCase(), t]));
+  for (const t of incoming) {
+    const prev = byTerm.get(t.term.toLowerCase());
+    byTerm.set(t.term.toLowerCase(), prev ? { ...t, id: prev.id } : t);
+  }
+  return [...byTerm.values()];
+};
+
+module.exports = {
+  applyGlossary,
+  createDefaultGlossary,
+  glossaryPromptLines,
+  mergeTerms,
+  normalizeTerm,
+  parseCsv,
+  toCsv,
+};
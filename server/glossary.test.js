@@ -0,0 +1,36 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { applyGlossary, glossaryPromptLines, mergeTerms, normalizeTerm, parseCsv, toCsv } = require('./glossary');
+
+test('corrects never-transcribe-as variants', () => {
+  const terms = [
+    normalizeTerm({ term: 'NCIM', variants: 'N C I M|in sim' }),
+    normalizeTerm({ term: 'Vision 2030', arabic: 'رؤية 2030', variants: ['رؤيه 2030'] }),
+  ];
+  assert.strictEqual(applyGlossary('The In Sim team and N C I M', terms), 'The NCIM team and NCIM');
+  assert.strictEqual(applyGlossary('نحو رؤيه 2030', terms), 'نحو Vision 2030');
+  assert.strictEqual(applyGlossary('insimulation', terms), 'insimulation');
+  assert.deepStrictEqual(glossaryPromptLines(terms), [
+    'Prefer these spellings/terms: NCIM, Vision 2030 (رؤية 2030).',
+    'Never transcribe as: "N C I M" / "in sim" → NCIM; "رؤيه 2030" → Vision 2030.',
+  ]);
+});
+
+test('round-trips the glossary through CSV', () => {
+  const terms = [
+    normalizeTerm({ term: 'KPIs', arabic: 'مؤشرات الأداء', variants: ['KPI s'] }),
+    normalizeTerm({ term: 'Ports, "land" and sea' }),
+  ];
+  const parsed = parseCsv(toCsv(terms));
+  assert.deepStrictEqual(
+    parsed.map(({ id, ...rest }) => rest),
+    terms.map(({ id, ...rest }) => rest),
+  );
+  // header-less files fall back to term,arabic,variants
+  assert.strictEqual(parseCsv('Riyadh,الرياض,Riad|Ryadh\n')[0].variants.length, 2);
+
+  const merged = mergeTerms(terms, [normalizeTerm({ term: 'kpis', arabic: 'KPI' })]);
+  assert.strictEqual(merged.length, 2);
+  assert.strictEqual(merged[0].id, terms[0].id);
+  assert.strictEqual(merged[0].arabic, 'KPI');
+});
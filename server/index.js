@@ -6,14 +6,71 @@ const { OpenAI, toFile } = require('openai');
 const { OpenAIRealtimeWS } = require('openai/realtime/ws');
 const { v4: uuid } = require('uuid');
 const { spawn } = require('child_process');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
 const ffmpegPath = require('ffmpeg-static');
 const http = require('http');
 const { WebSocketServer, WebSocket } = require('ws');
+const { createProviders, readProviderSpecs } = require('./providers');
+const { createSessionStore } = require('./store');
+const { clipFromPcm, createPcmRecorder, createSpeakerRoster, encodeWav } = require('./diarization');
+const {
+  applyGlossary,
+  createDefaultGlossary,
+  glossaryPromptLines,
+  mergeTerms,
+  normalizeTerm,
+  parseCsv,
+  toCsv,
+} = require('./glossary');
+const { loadTemplates } = require('./templates');
+const { PROMPT_NAMES, createPromptLibrary } = require('./prompts');
+const { createStyleLibrary, styleDirectives } = require('./styles');
+const { countWords, createAutoScheduler } = require('./scheduler');
+const { createUsageMeter, loadPriceTable } = require('./usage');
+const { createCircuitBreakers, describeError } = require('./resilience');
+const { createRealtimeLink } = require('./realtime');
+const {
+  createAccessControl,
+  createAccessTokens,
+  hashToken,
+  hasRole,
+  originAllowed,
+  parseOrigins,
+  readToken,
+  tokenRole,
+  tokensMatch,
+} = require('./access');
+const { SURVEY_QUESTIONS, createFeedbackBook } = require('./feedback');
+const { renderQrSvg } = require('./qr');
+const { createThemeMap, fallbackThemes, parseThemeReply } = require('./themes');
+const { BATCH_DONE, BATCH_SEGMENT_MS, createBatchJob, planWindows, splitWavFile, windowEntries } = require('./batch');
+const {
+  MAX_LOG_ENTRIES: MAX_REDACTION_LOG,
+  REDACTION_RULES,
+  RULE_IDS: REDACTION_RULE_IDS,
+  logEntries: redactionLogEntries,
+  normalizeNames,
+  parseSpanList,
+  redactSpans,
+  redactText,
+} = require('./redaction');
+const {
+  EXPORT_FORMATS,
+  TRANSCRIPT_FORMATS,
+  TRANSCRIPT_LANGUAGES,
+  renderExport,
+  renderTranscript,
+} = require('./export');
 
 const MOCK_OPENAI = process.env.AII_MOCK_OPENAI === 'true';
 const AUDIO_DEBUG = process.env.AII_AUDIO_DEBUG === 'true';
 const DEFAULT_TRANSCRIPTION_MODEL =
   process.env.AII_TRANSCRIPTION_MODEL || 'gpt-4o-mini-transcribe';
+const DEFAULT_CHAT_MODEL = process.env.AII_CHAT_MODEL || 'gpt-4o-mini';
+const DEFAULT_IMAGE_MODEL = process.env.AII_IMAGE_MODEL || 'gpt-image-1';
+const DEFAULT_EMBEDDING_MODEL = process.env.AII_EMBEDDING_MODEL || 'text-embedding-3-small';
 const ENABLE_TRANSCRIPT_POLISH = process.env.AII_ENABLE_TRANSCRIPT_POLISH !== 'false';
 const TRANSCRIPTION_SAMPLE_RATE = Number(process.env.AII_TRANSCRIPTION_RATE || 24000);
 const TRANSCRIPTION_CONTEXT_MS = Number(process.env.AII_TRANSCRIPTION_CONTEXT_MS || 3 * 60 * 1000);
@@ -21,14 +78,56 @@ const REALTIME_ENABLED = process.env.AII_REALTIME_ENABLED !== 'false';
 const REALTIME_MODEL = process.env.AII_REALTIME_MODEL || 'gpt-4o-mini-realtime-preview';
 const REALTIME_TRANSCRIBE_MODEL =
   process.env.AII_REALTIME_TRANSCRIBE_MODEL || DEFAULT_TRANSCRIPTION_MODEL;
+const DIARIZATION_MODEL = process.env.AII_DIARIZATION_MODEL || 'gpt-4o-transcribe-diarize';
 const REALTIME_VAD_THRESHOLD = Number(process.env.AII_REALTIME_VAD_THRESHOLD || 0.5);
 const REALTIME_VAD_SILENCE_MS = Number(process.env.AII_REALTIME_VAD_SILENCE_MS || 1200);
 const REALTIME_PREFIX_MS = Number(process.env.AII_REALTIME_PREFIX_MS || 300);
+const REALTIME_RECONNECT = {
+  baseDelayMs: Number(process.env.AII_REALTIME_RECONNECT_BASE_MS || 1000),
+  maxDelayMs: Number(process.env.AII_REALTIME_RECONNECT_MAX_MS || 30000),
+  bufferMs: Number(process.env.AII_REALTIME_BUFFER_MS || 30000),
+  fallbackAfter: Number(process.env.AII_REALTIME_FALLBACK_AFTER ?? 3),
+  fallbackChunkMs: Number(process.env.AII_REALTIME_FALLBACK_CHUNK_MS || 10000),
+};
+// A socket that stops answering pings is treated as closed, so silent network drops reconnect too
+const REALTIME_HEARTBEAT_MS = Number(process.env.AII_REALTIME_HEARTBEAT_MS || 15000);
+const DATA_DIR = process.env.AII_DATA_DIR;
+const PROVIDER_RETRY = {
+  retries: Number(process.env.AII_PROVIDER_RETRIES ?? 2),
+  baseDelayMs: Number(process.env.AII_PROVIDER_RETRY_BASE_MS || 500),
+  maxDelayMs: Number(process.env.AII_PROVIDER_RETRY_MAX_MS || 8000),
+  timeoutMs: Number(process.env.AII_PROVIDER_TIMEOUT_MS || 120000),
+};
+const EVENT_KEEPALIVE_MS = 25000;
+// Images are data URLs, so /status and the event snapshot carry only the newest (plus any pinned);
+// the full history stays in memory and the journal, and GET /images pages through it
+const MAX_LIVE_IMAGES = 20;
+// Tokens are on unless explicitly switched off; browsers are only let in from the listed origins
+const ACCESS_CONTROL = process.env.AII_ACCESS_CONTROL !== 'false';
+const CORS_ORIGINS = parseOrigins(process.env.AII_CORS_ORIGINS || 'http://localhost:5173,http://127.0.0.1:5173');
+// Where phones open the participant page from the projector's QR code, e.g. http://192.168.1.20:5173.
+// Unset, the console's own origin is used, which only works when that is not localhost.
+const PARTICIPANT_URL = (process.env.AII_PARTICIPANT_URL || '').replace(/\/$/, '');
+// The theme tracker reads each new stretch of transcript once it covers this much talk and this many words
+const THEME_TRACKING = process.env.AII_THEME_TRACKING !== 'false';
+const THEME_INTERVAL_MS = Number(process.env.AII_THEME_INTERVAL_MS || 3 * 60 * 1000);
+const THEME_MIN_WORDS = Number(process.env.AII_THEME_MIN_WORDS || 120);
+const THEME_MAX_WORDS = 1500; // per model call, so a batch import's backlog is read in several passes
 const app = express();
 const upload = multer({
   storage: multer.memoryStorage(),
   limits: { fileSize: 25 * 1024 * 1024 },
 });
+// Whole recordings can run to hundreds of MB, so they are spooled to disk rather than held in memory
+const batchUpload = multer({
+  dest: os.tmpdir(),
+  limits: { fileSize: Number(process.env.AII_BATCH_MAX_MB || 500) * 1024 * 1024 },
+});
+// Imports without a facilitator token are kept to short recordings
+const anonymousBatchUpload = multer({
+  dest: os.tmpdir(),
+  limits: { fileSize: Number(process.env.AII_BATCH_ANON_MAX_MB || 25) * 1024 * 1024 },
+});
 const PORT = process.env.PORT || 4000;
 const logEvent = (level, message, meta) => {
   const ts = new Date().toISOString();
@@ -43,52 +142,189 @@ const defaultConfig = {
   phase: 'Vision',
   languageMode: 'auto', // auto | arabic | english
   workshopType: 'NCIM Strategy Workshop',
+  templateId: 'strategy',
+  autoEnabled: false, // server-side auto generation (see scheduler.js)
   autoIntervalMinutes: 5,
+  autoWordThreshold: 0, // also run after this many new words; 0 = cadence only
+  autoMinNewWords: 20, // skip a planned run when fewer new words than this were spoken
+  autoTopicShift: false, // also run when the conversation moves away from the last summarised window
+  autoTopicShiftThreshold: 0.5, // cosine similarity below which the topic counts as changed
   imageSize: '1024x1024',
   stylePreset: 'Flat, high-contrast illustration with simple shapes suitable for a strategy workshop slide.',
+  reviewEnabled: false, // stop after the prompt until the facilitator approves
+  reviewAutoRuns: 'review', // review | skip (auto-triggered runs bypass review)
+  reviewTimeoutSeconds: 0, // auto-approve pending drafts after this long; 0 waits indefinitely
+  keepFullTranscript: false, // retain every segment (beyond the rolling window) for transcript exports
+  diarization: false, // label transcript entries with speakers (extra transcription call per segment)
+  translation: false, // add the other language (Arabic <-> English) to every final segment
+  styleId: null, // style library entry; null uses the free-text stylePreset
+  styleLocked: false, // keep later images consistent with the first approved one
+  redactionRules: [...REDACTION_RULE_IDS], // regex rules applied to every segment before any model sees it
+  redactionNames: [], // names replaced with [NAME]
+  redactionModel: false, // also ask the chat model for names and other personal data the rules miss
+  redactionKeep: 'redacted', // redacted | original (raw text stays in memory for the console, never on disk)
+  budgetCap: 0, // USD; auto generation pauses once the estimated spend reaches it (0 = no cap)
 };
 
+const REVIEW_AUTO_RUNS = ['review', 'skip'];
+const REDACTION_KEEP = ['redacted', 'original'];
+
 const makeRealtimeState = () => ({
-  upstream: null,
+  link: null, // supervised upstream, created on first use (see realtimeLink)
   clients: new Set(),
   status: 'disconnected',
   lastMime: 'audio/webm',
+  speech: new Map(), // itemId -> { startedAt, endedAt } from server VAD
+  pcm: createPcmRecorder({ sampleRate: TRANSCRIPTION_SAMPLE_RATE }), // audio sent upstream, for diarisation clips
+});
+
+const providerSpecs = readProviderSpecs({
+  transcription: DEFAULT_TRANSCRIPTION_MODEL,
+  chat: DEFAULT_CHAT_MODEL,
+  image: DEFAULT_IMAGE_MODEL,
+  embedding: DEFAULT_EMBEDDING_MODEL,
+});
+
+// Circuits are per provider, not per session: when one is down every room backs off together
+const providerBreakers = createCircuitBreakers({
+  threshold: Number(process.env.AII_CIRCUIT_THRESHOLD || 5),
+  cooldownMs: Number(process.env.AII_CIRCUIT_COOLDOWN_MS || 30000),
+});
+
+// Shared registry for key checks and /api/ping; each session gets its own bound to its key
+const providers = createProviders({
+  specs: providerSpecs,
+  getApiKey: () => process.env.OPENAI_API_KEY,
+  logEvent,
+  mock: MOCK_OPENAI,
+  retry: PROVIDER_RETRY,
+  breakers: providerBreakers,
 });
 
-let session = {
-  active: false,
-  apiKey: null,
-  config: { ...defaultConfig },
-  transcripts: [],
-  images: [],
-  lastSummary: null,
-  lastPrompt: null,
-  generationInProgress: false,
-  pendingTrigger: false,
-  lastError: null,
-  realtime: makeRealtimeState(),
+const createSessionState = ({ id = uuid(), name, apiKey }) => {
+  const session = {
+    id,
+    name: name || null,
+    active: true,
+    apiKey,
+    tokens: createAccessTokens(), // { facilitator, viewer, participant }
+    startedAt: new Date().toISOString(),
+    config: { ...defaultConfig },
+    transcripts: [],
+    fullTranscript: [],
+    speakers: createSpeakerRoster(),
+    glossary: createDefaultGlossary(),
+    prompts: createPromptLibrary(),
+    images: [],
+    lastSummary: null,
+    lastPrompt: null,
+    generationInProgress: false,
+    pendingTrigger: null, // trigger of the run queued behind the current one
+    lockWaiters: [], // batch windows waiting for the generation lock, in order
+    lastError: null,
+    pendingReview: null,
+    reviewTimer: null,
+    styleAnchor: null,
+    redactionLog: [],
+    usage: createUsageMeter({ prices: priceTable }),
+    budgetReached: false,
+    feedback: createFeedbackBook(), // participant votes, captions and survey answers
+    themes: createThemeMap(), // recurring themes across the whole session
+    themeAnalysis: null, // the running tracker pass, if any
+    batch: null, // offline import job (POST /api/batch)
+    batchAbort: null, // stops the running ffmpeg step of that job
+    realtime: makeRealtimeState(),
+    eventClients: new Map(), // event stream response → the role of the token that opened it
+  };
+  session.providers = createProviders({
+    specs: providerSpecs,
+    getApiKey: () => session.apiKey || process.env.OPENAI_API_KEY,
+    logEvent,
+    mock: MOCK_OPENAI,
+    onUsage: (usage) => recordUsage(session, usage),
+    retry: PROVIDER_RETRY,
+    breakers: providerBreakers,
+  });
+  session.scheduler = createAutoScheduler({
+    getConfig: () => session.config,
+    getWindowText: () => getSummaryInput(session).transcript,
+    embed: (input) => session.providers.embed({ input }),
+    canRun: () => autoRunBlocked(session),
+    run: () => runAutoGeneration(session),
+    onChange: (schedule) => emitSessionEvent(session, 'schedule_updated', { schedule }),
+    logEvent,
+  });
+  return session;
 };
 
+// Live sessions keyed by id. Requests without a session id act on the most recently
+// started session, so a single-room console keeps working unchanged.
+const sessions = new Map();
+
+const getDefaultSession = () => Array.from(sessions.values()).pop() || null;
+
+const resolveSession = (req) =>
+  req.params.sessionId ? sessions.get(req.params.sessionId) || null : getDefaultSession();
+
 let realtimeWSS = null;
 
-app.use(cors());
+// Opt-in: only sessions started while AII_DATA_DIR is set are journaled to disk
+const store = DATA_DIR ? createSessionStore({ dataDir: DATA_DIR, logEvent }) : null;
+
+const access = createAccessControl({
+  enabled: ACCESS_CONTROL,
+  getSessionTokens: (req) => resolveSession(req)?.tokens || null,
+  logEvent,
+});
+// Library edits are open until a session is running, then need a facilitator token from any live session
+const liveSessionTokens = () => Array.from(sessions.values()).map((session) => session.tokens);
+
+// CORS alone only stops the browser reading the answer, so requests from other origins are refused outright
+app.use((req, res, next) => {
+  if (originAllowed(CORS_ORIGINS, req.headers.origin)) return next();
+  logEvent('info', 'Origin not allowed', { origin: req.headers.origin, path: req.path });
+  res.status(403).json({ error: 'Origin not allowed', code: 'ORIGIN_NOT_ALLOWED' });
+});
+app.use(cors({ origin: true }));
 app.use(express.json({ limit: '2mb' }));
 
+// Issued once per start, resume or import; the console keeps them, the viewer token is for read-only screens
+// and the participant token for the phones that scan the QR code
+const sessionTokens = (session) => ({
+  facilitatorToken: session.tokens.facilitator,
+  viewerToken: session.tokens.viewer,
+  participantToken: session.tokens.participant,
+});
+
 const LANGUAGE_MAP = {
   arabic: 'ar',
   english: 'en',
   auto: undefined,
 };
 
-const PHASES = ['Vision', 'Mission', 'Strategic objectives', 'KPIs', 'Other'];
+const workshopTemplates = loadTemplates({ file: process.env.AII_TEMPLATES_FILE, logEvent });
+
+const getTemplate = (id) => workshopTemplates.find((t) => t.id === id) || workshopTemplates[0];
+
+const styleLibrary = createStyleLibrary({ dataDir: DATA_DIR, logEvent });
+const priceTable = loadPriceTable({ file: process.env.AII_PRICES_FILE, logEvent });
+
+const getPhase = (session) =>
+  getTemplate(session.config.templateId).phases.find((p) => p.name === session.config.phase);
 const DIRECT_UPLOAD_EXTS = new Set(['webm', 'ogg', 'mp3', 'wav', 'm4a']);
 
+// Only WAV states its length in a fixed header; other containers rely on the model's own usage report
+const wavDurationSeconds = (buffer) => {
+  if (buffer.length < 44 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+    return undefined;
+  }
+  const byteRate = buffer.readUInt32LE(28);
+  return byteRate ? (buffer.length - 44) / byteRate : undefined;
+};
+
 const normalizeMime = (mimeType) =>
   (mimeType || '').split(';')[0].trim().toLowerCase() || 'application/octet-stream';
 
-const mockImageB64 =
-  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mP8/x8AAusB9Y3nKwAAAABJRU5ErkJggg==';
-
 const sanitizeTranscript = (text) => {
   const cleaned = (text || '').trim();
   if (!cleaned) return '';
@@ -99,30 +335,16 @@ const sanitizeTranscript = (text) => {
   return cleaned;
 };
 
-const createMockClient = () => ({
-  models: {
-    list: async () => ({ data: [{ id: 'mock-model' }] }),
-  },
-  audio: {
-    transcriptions: {
-      create: async () => ({ text: 'mock transcript' }),
-    },
-  },
-  chat: {
-    completions: {
-      create: async () => ({
-        choices: [{ message: { content: 'mock summary or prompt' } }],
-      }),
-    },
-  },
-  images: {
-    generate: async () => ({
-      data: [{ b64_json: mockImageB64 }],
-    }),
-  },
-});
+const LANGUAGE_NAMES = { ar: 'Arabic', en: 'English' };
+
+// Mixed segments count as whichever script has more letters
+const detectLanguage = (text) => {
+  const arabic = (text.match(/[\u0600-\u06FF]/g) || []).length;
+  const latin = (text.match(/[A-Za-z]/g) || []).length;
+  return arabic > latin ? 'ar' : 'en';
+};
 
-const trimTranscripts = () => {
+const trimTranscripts = (session) => {
   const cutoff =
     Date.now() - session.config.transcriptWindowMinutes * 60 * 1000;
   session.transcripts = session.transcripts.filter(
@@ -130,17 +352,26 @@ const trimTranscripts = () => {
   );
 };
 
-const getRecentTranscriptText = () => {
+const recordTranscript = (session, entry) => {
+  session.transcripts.push(entry);
+  if (session.config.keepFullTranscript) {
+    session.fullTranscript.push(entry);
+  }
+  // Raw text kept under redactionKeep: 'original' is for the live console only and never reaches the journal
+  persistEvent(session, { type: 'transcript', entry: { ...entry, original: undefined } });
+  trimTranscripts(session);
+  emitSessionEvent(session, 'transcript_added', { entry });
+  session.scheduler.onTranscript(entry.text);
+  maybeAnalyseThemes(session);
+};
+
+const getRecentTranscriptEntries = (session) => {
   const cutoff =
     Date.now() - session.config.summarizationWindowMinutes * 60 * 1000;
-  return session.transcripts
-    .filter((entry) => entry.timestamp >= cutoff)
-    .map((entry) => entry.text)
-    .join(' ')
-    .trim();
+  return session.transcripts.filter((entry) => entry.timestamp >= cutoff);
 };
 
-const getTranscriptionContextText = () => {
+const getTranscriptionContextText = (session) => {
   const cutoff = Date.now() - TRANSCRIPTION_CONTEXT_MS;
   const text = session.transcripts
     .filter((entry) => entry.timestamp >= cutoff)
@@ -151,34 +382,25 @@ const getTranscriptionContextText = () => {
   return text.slice(-800);
 };
 
-const buildTranscriptionPrompt = () => {
-  const vocab = [
-    'NCIM',
-    'National Center for Inspection and Monitoring',
-    'KSA',
-    'Vision 2030',
-    'KPIs',
-    'inspection',
-    'monitoring',
-    'governorates',
-    'digital platform',
-    'field inspectors',
-    'compliance',
-  ].join(', ');
-  const context = getTranscriptionContextText();
+const buildTranscriptionPrompt = (session) => {
+  const context = getTranscriptionContextText(session);
   return [
     'Bilingual (Arabic + English) transcription for a live NCIM KSA strategy workshop.',
     `Workshop type: ${session.config.workshopType}. Phase: ${session.config.phase}.`,
     'Keep short acknowledgements like "yes", "ok", "تمام", "أيوه". Use clear sentence boundaries.',
-    `Prefer these spellings/terms: ${vocab}.`,
+    ...glossaryPromptLines(session.glossary),
     context ? `Recent context (for continuity): ${context}` : 'No recent context available.',
   ].join('\n');
 };
 
-const setSessionConfig = (updates = {}) => {
+const setSessionConfig = (session, updates = {}) => {
+  const previous = session.config;
   session.config = { ...session.config, ...updates };
-  if (!PHASES.includes(session.config.phase)) {
-    session.config.phase = 'Vision';
+  // Phases come from the workshop template; an unknown phase falls back to the template's first one
+  const template = getTemplate(session.config.templateId);
+  session.config.templateId = template.id;
+  if (!template.phases.some((p) => p.name === session.config.phase)) {
+    session.config.phase = template.phases[0].name;
   }
   if (!session.config.summarizationWindowMinutes) {
     session.config.summarizationWindowMinutes =
@@ -187,9 +409,91 @@ const setSessionConfig = (updates = {}) => {
   if (!session.config.transcriptWindowMinutes) {
     session.config.transcriptWindowMinutes = defaultConfig.transcriptWindowMinutes;
   }
+  if (!REVIEW_AUTO_RUNS.includes(session.config.reviewAutoRuns)) {
+    session.config.reviewAutoRuns = defaultConfig.reviewAutoRuns;
+  }
+  const interval = Number(session.config.autoIntervalMinutes);
+  session.config.autoIntervalMinutes = interval > 0 ? interval : defaultConfig.autoIntervalMinutes;
+  session.config.autoEnabled = session.config.autoEnabled === true;
+  session.config.autoTopicShift = session.config.autoTopicShift === true;
+  for (const key of ['autoWordThreshold', 'autoMinNewWords']) {
+    const value = Math.round(Number(session.config[key]));
+    session.config[key] = Number.isFinite(value) && value > 0 ? value : 0;
+  }
+  const shift = Number(session.config.autoTopicShiftThreshold);
+  session.config.autoTopicShiftThreshold =
+    shift > 0 && shift < 1 ? shift : defaultConfig.autoTopicShiftThreshold;
+  const timeout = Number(session.config.reviewTimeoutSeconds);
+  session.config.reviewTimeoutSeconds = Number.isFinite(timeout) && timeout > 0 ? timeout : 0;
+  // Turning retention on starts from whatever the rolling window still holds; turning it off drops the record
+  if (!session.config.keepFullTranscript) {
+    session.fullTranscript = [];
+  } else if (session.fullTranscript.length === 0) {
+    session.fullTranscript = [...session.transcripts];
+  }
+  // A library style supplies the prompt's style text; an unknown or deleted one falls back to free text
+  const style = styleLibrary.get(session.config.styleId);
+  session.config.styleId = style ? style.id : null;
+  if (style) session.config.stylePreset = style.description;
+  session.config.styleLocked = session.config.styleLocked === true;
+  // Unlocking or switching style drops the anchor; the next approved image becomes the new one
+  if (!session.config.styleLocked || session.config.styleId !== previous.styleId) {
+    setStyleAnchor(session, null);
+  }
+  const rules = Array.isArray(session.config.redactionRules) ? session.config.redactionRules : [];
+  session.config.redactionRules = REDACTION_RULE_IDS.filter((id) => rules.includes(id));
+  session.config.redactionNames = normalizeNames(session.config.redactionNames);
+  session.config.redactionModel = session.config.redactionModel === true;
+  if (!REDACTION_KEEP.includes(session.config.redactionKeep)) {
+    session.config.redactionKeep = defaultConfig.redactionKeep;
+  }
+  const cap = Number(session.config.budgetCap);
+  session.config.budgetCap = Number.isFinite(cap) && cap > 0 ? cap : 0;
+  checkBudget(session);
+  // Switching back to redacted-only forgets the raw text already held
+  if (session.config.redactionKeep === 'redacted') {
+    for (const entry of [...session.transcripts, ...session.fullTranscript]) delete entry.original;
+  }
+  session.scheduler.refresh();
+};
+
+const usageStatus = (session) => ({
+  ...session.usage.totals(),
+  budgetCap: session.config.budgetCap,
+  budgetReached: session.budgetReached,
+});
+
+// Crossing the cap pauses auto generation (the scheduler skips with a reason) and warns the console once;
+// raising the cap or removing it resumes
+const checkBudget = (session) => {
+  const cap = session.config.budgetCap;
+  const reached = cap > 0 && session.usage.totals().cost >= cap;
+  if (reached === session.budgetReached) return;
+  session.budgetReached = reached;
+  if (reached) {
+    logEvent('error', 'Budget cap reached, auto generation paused', { sessionId: session.id, cap });
+    emitSessionEvent(session, 'budget_reached', { usage: usageStatus(session) });
+  }
 };
 
-const broadcastRealtime = (payload) => {
+const recordUsage = (session, usage) => {
+  const record = session.usage.record(usage);
+  persistEvent(session, { type: 'usage', record });
+  checkBudget(session);
+  emitSessionEvent(session, 'usage_updated', { usage: usageStatus(session) });
+};
+
+const setStyleAnchor = (session, image) => {
+  if (!session.styleAnchor && !image) return;
+  session.styleAnchor = image ? { imageId: image.id, url: image.url } : null;
+  persistEvent(session, { type: 'style_anchor', imageId: image ? image.id : null });
+  emitSessionEvent(session, 'style_anchor_changed', { imageId: image ? image.id : null });
+  if (image) {
+    logEvent('info', 'Style anchor set', { sessionId: session.id, imageId: image.id });
+  }
+};
+
+const broadcastRealtime = (session, payload) => {
   if (!session.realtime?.clients) return;
   for (const ws of session.realtime.clients) {
     if (ws?.readyState === WebSocket.OPEN) {
@@ -202,10 +506,51 @@ const broadcastRealtime = (payload) => {
   }
 };
 
-const teardownRealtime = (reason = 'session reset') => {
-  if (session.realtime?.upstream) {
+// The transcript, glossary, prompts, review drafts and redaction log are the facilitator's; other screens
+// never receive them
+const FACILITATOR_EVENTS = new Set([
+  'transcript_added',
+  'transcript_updated',
+  'glossary_updated',
+  'prompts_updated',
+  'review_pending',
+  'redactions_logged',
+]);
+
+// Without access control every client is the facilitator
+const isFacilitator = (role) => !role || hasRole(role, 'facilitator');
+
+// The names listed for redaction are exactly what the rules hide, so they stay on the facilitator console
+const viewerConfig = (config) => ({ ...config, redactionNames: [] });
+
+// Server-sent events for consoles and presenter screens (GET /api/sessions/:id/events)
+const emitSessionEvent = (session, type, data = {}) => {
+  if (!session.eventClients.size) return;
+  const frame = `event: ${type}\ndata: ${JSON.stringify({ type, ...data })}\n\n`;
+  const viewerData = type === 'config_changed' ? { ...data, config: viewerConfig(data.config) } : data;
+  const viewerFrame = FACILITATOR_EVENTS.has(type)
+    ? null
+    : `event: ${type}\ndata: ${JSON.stringify({ type, ...viewerData })}\n\n`;
+  for (const [res, role] of session.eventClients) {
+    if (!isFacilitator(role) && !viewerFrame) continue;
+    try {
+      res.write(isFacilitator(role) ? frame : viewerFrame);
+    } catch (err) {
+      logEvent('error', 'Event stream write failed', { sessionId: session.id, message: err.message });
+    }
+  }
+};
+
+const setRealtimeStatus = (session, status) => {
+  if (session.realtime.status === status) return;
+  session.realtime.status = status;
+  emitSessionEvent(session, 'realtime_status', { status });
+};
+
+const teardownRealtime = (session, reason = 'session reset') => {
+  if (session.realtime?.link) {
     try {
-      session.realtime.upstream.close({ code: 1000, reason });
+      session.realtime.link.close();
     } catch (err) {
       logEvent('error', 'Failed to close realtime upstream', { message: err.message });
     }
@@ -222,30 +567,36 @@ const teardownRealtime = (reason = 'session reset') => {
   session.realtime = makeRealtimeState();
 };
 
-const resetSession = () => {
-  teardownRealtime('session reset');
-  session = {
-    active: false,
-    apiKey: null,
-    config: { ...defaultConfig },
-    transcripts: [],
-    images: [],
-    lastSummary: null,
-    lastPrompt: null,
-    generationInProgress: false,
-    pendingTrigger: false,
-    lastError: null,
-    realtime: makeRealtimeState(),
-  };
+const persistEvent = (session, event) => {
+  if (!store || !session.id) return;
+  store.append(session.id, event);
 };
 
-const getClient = () => {
-  if (MOCK_OPENAI) {
-    if (!getClient.mockInstance) {
-      getClient.mockInstance = createMockClient();
-    }
-    return getClient.mockInstance;
+const closeStoredSession = (session) => {
+  if (!store || !session.id || !session.active) return;
+  store.updateMeta(session.id, { endedAt: new Date().toISOString(), config: session.config });
+};
+
+const endSession = (session, reason = 'session ended') => {
+  closeStoredSession(session);
+  if (session.batch && !BATCH_DONE.includes(session.batch.status)) {
+    session.batch.cancelRequested = true;
+    session.batchAbort?.();
+  }
+  teardownRealtime(session, reason);
+  session.scheduler.stop();
+  clearTimeout(session.reviewTimer);
+  emitSessionEvent(session, 'session_ended', { reason });
+  for (const res of session.eventClients.keys()) {
+    res.end();
   }
+  session.eventClients.clear();
+  session.active = false;
+  sessions.delete(session.id);
+};
+
+// Realtime transcription is OpenAI-only; everything else goes through `providers`.
+const getClient = (session) => {
   const apiKey = session.apiKey || process.env.OPENAI_API_KEY;
   if (!apiKey) {
     throw new Error('Missing OpenAI API key');
@@ -253,39 +604,70 @@ const getClient = () => {
   return new OpenAI({ apiKey });
 };
 
-const maybePolishTranscript = async (text) => {
-  const sanitized = sanitizeTranscript(text);
-  if (!sanitized) return '';
-  if (MOCK_OPENAI) return sanitized;
-  if (!ENABLE_TRANSCRIPT_POLISH) return sanitized;
+// The realtime upstream always talks to OpenAI, so a key is needed unless it is off
+// and every primary provider points at a local endpoint.
+const requiresApiKey = () => (REALTIME_ENABLED && !MOCK_OPENAI) || providers.requiresOpenAIKey();
+
+const polishPromptVars = (session, text) => ({
+  phase: session.config.phase,
+  workshopType: session.config.workshopType,
+  context: getTranscriptionContextText(session) || 'n/a',
+  glossary: glossaryPromptLines(session.glossary).join('\n'),
+  transcript: text,
+});
+
+const recordRedactions = (session, hits) => {
+  if (!hits.length) return;
+  const entries = redactionLogEntries(hits);
+  session.redactionLog = [...session.redactionLog, ...entries].slice(-MAX_REDACTION_LOG);
+  emitSessionEvent(session, 'redactions_logged', { entries });
+  logEvent('info', 'Transcript redacted', { sessionId: session.id, rules: [...new Set(hits.map((h) => h.rule))] });
+};
+
+// Runs before polishing, so neither the polish, summary nor translation models see what the rules catch.
+// The optional model detector only ever receives the rule-redacted text.
+const redactTranscript = async (session, text) => {
+  const { redactionRules, redactionNames, redactionModel } = session.config;
+  const redacted = redactText(text, { rules: redactionRules, names: redactionNames });
+  const hits = [...redacted.hits];
+  let result = redacted.text;
+  if (redactionModel && result) {
+    try {
+      const { messages } = session.prompts.render('redaction', { transcript: result });
+      const reply = await session.providers.complete({ temperature: 0, maxTokens: 200, messages });
+      const detected = redactSpans(result, parseSpanList(reply, result));
+      hits.push(...detected.hits);
+      result = detected.text;
+    } catch (error) {
+      logEvent('error', 'Sensitive data detection failed', { message: error.message });
+    }
+  }
+  recordRedactions(session, hits);
+  return result;
+};
+
+// Returns { text, original }; original is only set when something was redacted and the session keeps raw text
+const prepareTranscript = async (session, text) => {
+  const cleaned = applyGlossary(sanitizeTranscript(text), session.glossary);
+  if (!cleaned) return { text: '' };
+  const sanitized = await redactTranscript(session, cleaned);
+  const original = session.config.redactionKeep === 'original' && sanitized !== cleaned ? cleaned : undefined;
+  if (MOCK_OPENAI || !ENABLE_TRANSCRIPT_POLISH) return { text: sanitized, original };
   try {
-    const client = getClient();
-    const context = getTranscriptionContextText();
-    const response = await client.chat.completions.create({
-      model: 'gpt-4o-mini',
+    const { messages } = session.prompts.render('polish', polishPromptVars(session, sanitized));
+    const polished = await session.providers.complete({
       temperature: 0.2,
-      max_tokens: 200,
-      messages: [
-        {
-          role: 'system',
-          content:
-            'Clean up a short live transcript segment. Add punctuation and casing, fix obvious tokenisation issues, keep the original language (Arabic or English), and do not invent content.',
-        },
-        {
-          role: 'user',
-          content: `Recent context: ${context || 'n/a'}\nRaw segment:\n${sanitized}\n\nReturn only the cleaned segment.`,
-        },
-      ],
+      maxTokens: 200,
+      messages,
     });
-    const polished = response.choices?.[0]?.message?.content?.trim();
-    return sanitizeTranscript(polished || sanitized);
+    return { text: applyGlossary(sanitizeTranscript(polished || sanitized), session.glossary), original };
   } catch (error) {
     logEvent('error', 'Transcript polish failed', { message: error.message });
-    return sanitized;
+    return { text: sanitized, original };
   }
 };
 
-const buildRealtimeSessionConfig = () => ({
+const buildRealtimeSessionConfig = (session) => ({
   type: 'realtime',
   modalities: ['text'],
   input_audio_format: 'pcm16',
@@ -293,7 +675,7 @@ const buildRealtimeSessionConfig = () => ({
   input_audio_transcription: {
     model: REALTIME_TRANSCRIBE_MODEL,
     language: LANGUAGE_MAP[session.config.languageMode],
-    prompt: buildTranscriptionPrompt(),
+    prompt: buildTranscriptionPrompt(session),
   },
   turn_detection: {
     type: 'server_vad',
@@ -304,17 +686,63 @@ const buildRealtimeSessionConfig = () => ({
   },
 });
 
-const handleRealtimeTranscript = async (rawText, itemId) => {
-  const text = await maybePolishTranscript(rawText);
+const handleRealtimeTranscript = async (session, rawText, itemId) => {
+  const { text, original } = await prepareTranscript(session, rawText);
+  const { startedAt, endedAt, audioStartMs, audioEndMs } = session.realtime.speech.get(itemId) || {};
+  session.realtime.speech.delete(itemId);
   if (!text) return;
-  const entry = { text, timestamp: Date.now(), itemId };
-  session.transcripts.push(entry);
-  trimTranscripts();
-  broadcastRealtime({ type: 'transcript_final', text, itemId, timestamp: entry.timestamp });
+  const entry = { text, original, timestamp: Date.now(), itemId, startedAt, endedAt };
+  recordTranscript(session, entry);
+  broadcastRealtime(session, { type: 'transcript_final', text, itemId, timestamp: entry.timestamp });
   logEvent('info', 'Realtime transcript received', { length: text.length, itemId });
+  await translateEntry(session, entry);
+  if (session.config.diarization && Number.isFinite(audioStartMs) && Number.isFinite(audioEndMs)) {
+    const pcm = session.realtime.pcm.slice(audioStartMs, audioEndMs);
+    if (!pcm) return;
+    const clip = clipFromPcm(pcm, TRANSCRIPTION_SAMPLE_RATE);
+    await labelSpeaker(session, entry, await toFile(clip.wav, 'segment.wav', { contentType: 'audio/wav' }), clip);
+  }
+};
+
+// Runs the segment through a diarising model and tags the entry with a stable session speaker
+const labelSpeaker = async (session, entry, file, clip) => {
+  try {
+    const { names, references } = session.speakers.knownSpeakers();
+    const segments = await session.providers.diarize({
+      file,
+      model: DIARIZATION_MODEL,
+      knownSpeakerNames: names,
+      knownSpeakerReferences: references,
+    });
+    const speaker = session.speakers.assign(segments, clip);
+    if (!speaker) return;
+    entry.speaker = speaker.id;
+    const speakers = session.speakers.list();
+    persistEvent(session, { type: 'transcript_speaker', timestamp: entry.timestamp, speaker: speaker.id });
+    persistEvent(session, { type: 'speakers', speakers });
+    emitSessionEvent(session, 'transcript_updated', { entry });
+    emitSessionEvent(session, 'speakers_updated', { speakers });
+  } catch (err) {
+    logEvent('error', 'Diarisation failed', { sessionId: session.id, message: err.message });
+  }
+};
+
+// The realtime upstream bypasses the provider registry, so its transcription is metered here:
+// the event's own usage when present, otherwise the VAD length of the segment
+const recordRealtimeUsage = (session, event) => {
+  const { audioStartMs, audioEndMs } = session.realtime.speech.get(event.item_id) || {};
+  const spoken = Number.isFinite(audioStartMs) && Number.isFinite(audioEndMs) ? (audioEndMs - audioStartMs) / 1000 : 0;
+  recordUsage(session, {
+    kind: 'transcription',
+    provider: 'openai-realtime',
+    model: REALTIME_TRANSCRIBE_MODEL,
+    audioSeconds: event.usage?.type === 'duration' ? event.usage.seconds : spoken,
+    inputTokens: event.usage?.input_tokens || 0,
+    outputTokens: event.usage?.output_tokens || 0,
+  });
 };
 
-const handleRealtimeEvent = async (event) => {
+const handleRealtimeEvent = async (session, event) => {
   switch (event.type) {
     case 'session.created':
       logEvent('info', 'Realtime session created', { expiresAt: event.session?.expires_at });
@@ -322,9 +750,23 @@ const handleRealtimeEvent = async (event) => {
     case 'session.updated':
       logEvent('info', 'Realtime session updated', { inputFormat: event.session?.audio?.input?.format });
       break;
+    case 'input_audio_buffer.speech_started':
+      session.realtime.speech.set(event.item_id, { startedAt: Date.now(), audioStartMs: event.audio_start_ms });
+      break;
+    case 'input_audio_buffer.speech_stopped': {
+      // speech_stopped lands after the VAD silence window, so derive the end from the audio offsets
+      const timing = session.realtime.speech.get(event.item_id);
+      if (timing) timing.audioEndMs = event.audio_end_ms;
+      if (timing && Number.isFinite(event.audio_end_ms) && Number.isFinite(timing.audioStartMs)) {
+        timing.endedAt = timing.startedAt + Math.max(0, event.audio_end_ms - timing.audioStartMs);
+      } else if (timing) {
+        timing.endedAt = Date.now() - REALTIME_VAD_SILENCE_MS;
+      }
+      break;
+    }
     case 'conversation.item.input_audio_transcription.delta':
       if (event.delta) {
-        broadcastRealtime({
+        broadcastRealtime(session, {
           type: 'transcript_delta',
           itemId: event.item_id,
           delta: event.delta,
@@ -334,7 +776,7 @@ const handleRealtimeEvent = async (event) => {
       break;
     case 'conversation.item.input_audio_transcription.segment':
       if (event.text) {
-        broadcastRealtime({
+        broadcastRealtime(session, {
           type: 'transcript_segment',
           itemId: event.item_id,
           text: event.text,
@@ -344,10 +786,11 @@ const handleRealtimeEvent = async (event) => {
       }
       break;
     case 'conversation.item.input_audio_transcription.completed':
-      await handleRealtimeTranscript(event.transcript, event.item_id);
+      recordRealtimeUsage(session, event);
+      await handleRealtimeTranscript(session, event.transcript, event.item_id);
       break;
     case 'conversation.item.input_audio_transcription.failed':
-      broadcastRealtime({ type: 'transcript_error', message: event.error?.message || 'Transcription failed' });
+      broadcastRealtime(session, { type: 'transcript_error', message: event.error?.message || 'Transcription failed' });
       logEvent('error', 'Realtime transcription failed', {
         message: event.error?.message,
         code: event.error?.code,
@@ -358,29 +801,50 @@ const handleRealtimeEvent = async (event) => {
   }
 };
 
-const ensureRealtimeUpstream = async () => {
-  if (!REALTIME_ENABLED || MOCK_OPENAI) return null;
-  if (session.realtime.upstream) return session.realtime.upstream;
-  const client = getClient();
-  session.realtime.status = 'connecting';
+// Opens and configures one upstream socket. The session config is sent on every connect, so a
+// reconnected socket gets the current language, glossary prompt and VAD settings.
+const connectRealtimeUpstream = async (session, onClose) => {
+  const client = getClient(session);
   const rt = await OpenAIRealtimeWS.create(client, { model: REALTIME_MODEL });
-  const awaitOpen = () =>
-    new Promise((resolve) => {
-      if (rt.socket.readyState === rt.socket.OPEN) return resolve();
-      rt.socket.once('open', () => resolve());
-    });
-  await awaitOpen();
   rt.on('error', (err) => {
-    logEvent('error', 'Realtime upstream error', { message: err.message });
+    // OpenAI ends realtime sessions after a fixed lifetime; the close that follows triggers a reconnect
+    const code = err.error?.code;
+    logEvent('error', code === 'session_expired' ? 'Realtime session expired' : 'Realtime upstream error', {
+      message: err.message,
+      code,
+    });
+  });
+  await new Promise((resolve, reject) => {
+    if (rt.socket.readyState === rt.socket.OPEN) return resolve();
+    rt.socket.once('open', () => resolve());
+    rt.socket.once('close', (code) => reject(new Error(`Realtime upstream closed before opening (${code})`)));
   });
   rt.on('event', (evt) => {
-    Promise.resolve(handleRealtimeEvent(evt)).catch((err) => {
+    Promise.resolve(handleRealtimeEvent(session, evt)).catch((err) => {
       logEvent('error', 'Realtime event handler failed', { message: err.message });
     });
   });
-  session.realtime.upstream = rt;
-  session.realtime.status = 'connected';
-  rt.send({ type: 'session.update', session: buildRealtimeSessionConfig() });
+  let alive = true;
+  const heartbeat = setInterval(() => {
+    if (!alive) {
+      rt.socket.terminate();
+      return;
+    }
+    alive = false;
+    rt.socket.ping();
+  }, REALTIME_HEARTBEAT_MS);
+  heartbeat.unref();
+  rt.socket.on('pong', () => {
+    alive = true;
+  });
+  rt.socket.once('close', (code, reason) => {
+    clearInterval(heartbeat);
+    onClose(code, reason.toString());
+  });
+  // VAD offsets restart with every upstream session
+  session.realtime.pcm.reset();
+  session.realtime.speech.clear();
+  rt.send({ type: 'session.update', session: buildRealtimeSessionConfig(session) });
   logEvent('info', 'Realtime upstream connected', {
     model: REALTIME_MODEL,
     transcribeModel: REALTIME_TRANSCRIBE_MODEL,
@@ -388,10 +852,57 @@ const ensureRealtimeUpstream = async () => {
   return rt;
 };
 
-const refreshRealtimeSessionConfig = async () => {
-  if (!session.realtime.upstream) return;
+const sendRealtimeAudio = (session, rt, pcm) => {
+  if (rt.socket.readyState !== rt.socket.OPEN) {
+    throw new Error('Realtime upstream is not open');
+  }
+  rt.send({
+    type: 'input_audio_buffer.append',
+    audio: pcm.toString('base64'),
+  });
+  session.realtime.pcm.append(pcm);
+};
+
+// While realtime is down, buffered speech goes through the same pipeline as uploaded chunks
+const transcribeRealtimeFallback = async (session, pcm) => {
+  const entry = await ingestAudioChunk(session, encodeWav(pcm, TRANSCRIPTION_SAMPLE_RATE), 'audio/wav');
+  if (entry) {
+    const { text, timestamp } = entry;
+    broadcastRealtime(session, { type: 'transcript_final', text, itemId: null, timestamp });
+  }
+};
+
+const realtimeLink = (session) => {
+  if (!session.realtime.link) {
+    session.realtime.link = createRealtimeLink({
+      connect: (onClose) => connectRealtimeUpstream(session, onClose),
+      send: (rt, pcm) => sendRealtimeAudio(session, rt, pcm),
+      fallback: (pcm) => transcribeRealtimeFallback(session, pcm),
+      onStatus: (status) => setRealtimeStatus(session, status),
+      logEvent,
+      sampleRate: TRANSCRIPTION_SAMPLE_RATE,
+      ...REALTIME_RECONNECT,
+    });
+  }
+  return session.realtime.link;
+};
+
+// Resolves to null while a reconnect is pending; audio written meanwhile is buffered by the link
+const ensureRealtimeUpstream = async (session) => {
+  if (!REALTIME_ENABLED || MOCK_OPENAI) return null;
+  return realtimeLink(session).ensure();
+};
+
+const forwardRealtimeAudio = (session, pcm) => {
+  if (!REALTIME_ENABLED || MOCK_OPENAI) return;
+  realtimeLink(session).write(pcm);
+};
+
+const refreshRealtimeSessionConfig = async (session) => {
+  const rt = session.realtime.link?.current();
+  if (!rt) return;
   try {
-    session.realtime.upstream.send({ type: 'session.update', session: buildRealtimeSessionConfig() });
+    rt.send({ type: 'session.update', session: buildRealtimeSessionConfig(session) });
   } catch (err) {
     logEvent('error', 'Failed to refresh realtime session config', { message: err.message });
   }
@@ -446,18 +957,13 @@ const transcodeToPCM = (buffer, mimeType) =>
     proc.stdin.end();
   });
 
-const pipeAudioToRealtime = async (buffer, mimeType = 'audio/webm') => {
+const pipeAudioToRealtime = async (session, buffer, mimeType = 'audio/webm') => {
   if (!REALTIME_ENABLED || MOCK_OPENAI) return;
   try {
     const pcm = await transcodeToPCM(buffer, mimeType);
-    const rt = await ensureRealtimeUpstream();
-    if (!rt) return;
-    rt.send({
-      type: 'input_audio_buffer.append',
-      audio: pcm.toString('base64'),
-    });
+    forwardRealtimeAudio(session, pcm);
   } catch (err) {
-    session.realtime.status = 'error';
+    setRealtimeStatus(session, 'error');
     logEvent('error', 'Realtime audio append failed', {
       message: err.message,
       mime: mimeType,
@@ -477,8 +983,7 @@ const mimeToExt = (mime) => {
   return 'tmp';
 };
 
-const transcribeAudio = async (buffer, mimeType) => {
-  const client = getClient();
+const transcribeAudio = async (session, buffer, mimeType) => {
   const ext = mimeToExt(mimeType);
   const normalizedMime = normalizeMime(mimeType);
   const resolvedExt = ext === 'tmp' ? 'webm' : ext;
@@ -525,16 +1030,14 @@ const transcribeAudio = async (buffer, mimeType) => {
       proc.stdin.end();
     });
 
-  const callTranscriptionModel = async (file) => {
-    const response = await client.audio.transcriptions.create({
+  const callTranscriptionModel = (file, durationSeconds) =>
+    session.providers.transcribe({
       file,
-      model: DEFAULT_TRANSCRIPTION_MODEL,
       language: LANGUAGE_MAP[session.config.languageMode],
       temperature: 0,
-      prompt: buildTranscriptionPrompt(),
+      prompt: buildTranscriptionPrompt(session),
+      durationSeconds,
     });
-    return response.text?.trim() || '';
-  };
 
   const logSignature = () => {
     if (!AUDIO_DEBUG) return;
@@ -551,8 +1054,8 @@ const transcribeAudio = async (buffer, mimeType) => {
       const file = await toFile(buffer, `audio.${resolvedExt}`, {
         contentType: effectiveMime,
       });
-      const raw = await callTranscriptionModel(file);
-      return maybePolishTranscript(raw);
+      const raw = await callTranscriptionModel(file, wavDurationSeconds(buffer));
+      return prepareTranscript(session, raw);
     } catch (err) {
       lastError = err;
       logEvent('error', 'Direct transcription failed, retrying with WAV', {
@@ -590,8 +1093,8 @@ const transcribeAudio = async (buffer, mimeType) => {
     const file = await toFile(wavBuffer, `audio.${targetExt}`, {
       contentType: targetMime,
     });
-    const raw = await callTranscriptionModel(file);
-    return maybePolishTranscript(raw);
+    const raw = await callTranscriptionModel(file, wavDurationSeconds(wavBuffer));
+    return prepareTranscript(session, raw);
   } catch (err) {
     lastError = err;
     logEvent('error', 'WAV transcription retry failed', {
@@ -604,71 +1107,128 @@ const transcribeAudio = async (buffer, mimeType) => {
   throw lastError || new Error('Transcription failed');
 };
 
-const summariseTranscript = async (transcriptText) => {
-  const client = getClient();
-  const phase = session.config.phase;
-  const prompt = [
-    {
-      role: 'system',
-      content:
-        'You are assisting a live NCIM KSA strategy workshop. Summarise recent conversation into concise English bullet points suitable for an image prompt. Avoid names or sensitive data.',
-    },
-    {
-      role: 'user',
-      content: `Workshop phase: ${phase}.\nWorkshop type: ${session.config.workshopType}.\nTranscript (last ${session.config.summarizationWindowMinutes} minutes):\n${transcriptText}\n\nReturn 3-6 crisp bullet points (max 180 words total).`,
-    },
-  ];
-  const response = await client.chat.completions.create({
-    model: 'gpt-4o-mini',
-    messages: prompt,
+const translationPromptVars = (session, text, source, target) => ({
+  phase: session.config.phase,
+  workshopType: session.config.workshopType,
+  sourceLanguage: LANGUAGE_NAMES[source],
+  targetLanguage: LANGUAGE_NAMES[target],
+  context: getTranscriptionContextText(session) || 'n/a',
+  glossary: glossaryPromptLines(session.glossary).join('\n'),
+  transcript: text,
+});
+
+// Captions in the other language; failures only cost the translation, never the segment
+const translateEntry = async (session, entry) => {
+  if (!session.config.translation) return;
+  const source = detectLanguage(entry.text);
+  const target = source === 'ar' ? 'en' : 'ar';
+  try {
+    const vars = translationPromptVars(session, entry.text, source, target);
+    const { messages } = session.prompts.render('translation', vars);
+    const reply = await session.providers.complete({ temperature: 0.2, maxTokens: 400, messages });
+    const translated = sanitizeTranscript(reply);
+    if (!translated) return;
+    // Glossary variants map onto the English spelling, so they only apply in that direction
+    const text = target === 'en' ? applyGlossary(translated, session.glossary) : translated;
+    entry.language = source;
+    entry.translation = { language: target, text };
+    persistEvent(session, {
+      type: 'transcript_translation',
+      timestamp: entry.timestamp,
+      language: source,
+      translation: entry.translation,
+    });
+    emitSessionEvent(session, 'transcript_updated', { entry });
+    broadcastRealtime(session, {
+      type: 'transcript_translation',
+      itemId: entry.itemId,
+      timestamp: entry.timestamp,
+      language: source,
+      translation: entry.translation,
+    });
+  } catch (err) {
+    logEvent('error', 'Translation failed', { sessionId: session.id, message: err.message });
+  }
+};
+
+// theme: set when the facilitator asked for an image of one tracked theme rather than the latest window
+const summaryPromptVars = (session, transcriptText, { labelled = false, theme = null } = {}) => {
+  const focus = getPhase(session)?.summaryFocus;
+  const themeFocus = theme
+    ? `Summarise only the theme "${theme.label}" (${theme.keywords.map((k) => k.term).join(', ')}) ` +
+      'as it developed across the session; the excerpts below are where it came up.'
+    : '';
+  return {
+    phase: session.config.phase,
+    workshopType: session.config.workshopType,
+    windowMinutes: session.config.summarizationWindowMinutes,
+    focusNote: [focus ? `Focus for this phase: ${focus}.` : '', themeFocus].filter(Boolean).join(' '),
+    speakerNote: labelled ? 'Lines are prefixed with speaker labels; note who argued for what where it matters.' : '',
+    glossaryNote: session.glossary.length
+      ? `Use these spellings for domain terms: ${session.glossary.map((t) => t.term).join(', ')}.`
+      : '',
+    transcript: transcriptText,
+  };
+};
+
+const summariseTranscript = async (session, transcriptText, { labelled = false, theme = null } = {}) => {
+  const { messages } = session.prompts.render(
+    'summary',
+    summaryPromptVars(session, transcriptText, { labelled, theme }),
+  );
+  return session.providers.complete({
+    messages,
     temperature: 0.4,
   });
-  return response.choices[0].message.content.trim();
 };
 
-const createImagePrompt = async (summaryText) => {
-  const client = getClient();
-  const response = await client.chat.completions.create({
-    model: 'gpt-4o-mini',
+const illustrationPromptVars = (session, summaryText) => {
+  const vocabulary = getPhase(session)?.visualVocabulary;
+  return {
+    phase: session.config.phase,
+    workshopType: session.config.workshopType,
+    stylePreset: session.config.stylePreset,
+    vocabularyNote: vocabulary ? `Visual vocabulary for this phase: ${vocabulary}.` : '',
+    summary: summaryText,
+  };
+};
+
+const createImagePrompt = async (session, summaryText) => {
+  const { messages } = session.prompts.render('illustration', illustrationPromptVars(session, summaryText));
+  return session.providers.complete({
     temperature: 0.7,
-    messages: [
-      {
-        role: 'system',
-        content:
-          'Turn the provided workshop summary into a vivid, projector-friendly illustration prompt. Use English even if the summary is Arabic. Keep it concise (max 90 words). Avoid text inside the image and avoid realistic faces.',
-      },
-      {
-        role: 'user',
-        content: `Workshop phase: ${session.config.phase}.\nStyle preset: ${session.config.stylePreset}.\nSummary bullets:\n${summaryText}\nCreate one illustration prompt.`,
-      },
-    ],
+    messages,
   });
-  return response.choices[0].message.content.trim();
 };
 
-const generateImage = async (prompt) => {
-  const client = getClient();
-  const response = await client.images.generate({
-    model: 'gpt-image-1',
+const STYLE_REFERENCE_INSTRUCTION =
+  'Match the visual style of the reference image (palette, line work, lighting, level of detail); do not copy its content.';
+
+// With a locked anchor (or a style reference image) the call goes through the edit endpoint so the model
+// sees the reference; the anchor wins because it is what the room has already seen
+const generateImages = async (session, prompt, n = 1) => {
+  const style = styleLibrary.get(session.config.styleId);
+  const reference = session.styleAnchor?.url || style?.referenceImage || null;
+  const fullPrompt = [
     prompt,
-    size: session.config.imageSize || '1024x1024',
-  });
-  const base64 = response.data?.[0]?.b64_json;
-  if (!base64) {
-    throw new Error('No image data returned from OpenAI');
-  }
-  return `data:image/png;base64,${base64}`;
+    ...(style ? styleDirectives(style) : []),
+    ...(reference ? [STYLE_REFERENCE_INSTRUCTION] : []),
+  ].join('\n');
+  const params = { prompt: fullPrompt, size: session.config.imageSize || '1024x1024', n };
+  return reference
+    ? session.providers.editImages({ ...params, image: reference })
+    : session.providers.generateImages(params);
 };
 
+const generateImage = async (session, prompt) => (await generateImages(session, prompt))[0];
+
 app.post('/api/ping', async (req, res) => {
   const { apiKey } = req.body;
-  if (!apiKey) {
+  if (!apiKey && requiresApiKey()) {
     return res.status(400).json({ error: 'API key is required' });
   }
   try {
-    const client = new OpenAI({ apiKey });
-    const models = await client.models.list();
-    const firstModel = models.data?.[0]?.id || 'ok';
+    const firstModel = await providers.ping(apiKey);
     logEvent('info', 'Ping success', { model: firstModel });
     res.json({ ok: true, model: firstModel });
   } catch (error) {
@@ -677,58 +1237,300 @@ app.post('/api/ping', async (req, res) => {
   }
 });
 
+const startRealtime = (session) => {
+  if (!REALTIME_ENABLED || MOCK_OPENAI) return;
+  ensureRealtimeUpstream(session)
+    .then(() => refreshRealtimeSessionConfig(session))
+    .catch((err) => {
+      setRealtimeStatus(session, 'error');
+      logEvent('error', 'Realtime upstream init failed', { sessionId: session.id, message: err.message });
+    });
+};
+
+app.get('/api/templates', (req, res) => {
+  res.json({ templates: workshopTemplates });
+});
+
+// The style library is shared by all sessions on this backend
+app.get('/api/styles', (req, res) => {
+  res.json({ styles: styleLibrary.list() });
+});
+
+app.post('/api/styles', access.require('facilitator', liveSessionTokens), (req, res) => {
+  try {
+    const style = styleLibrary.create(req.body || {});
+    logEvent('info', 'Style created', { id: style.id, name: style.name });
+    res.status(201).json({ ok: true, style });
+  } catch (error) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+const styleErrorStatus = (error) => (error.message === 'Style not found' ? 404 : 400);
+
+app.patch('/api/styles/:styleId', access.require('facilitator', liveSessionTokens), (req, res) => {
+  try {
+    const style = styleLibrary.update(req.params.styleId, req.body || {});
+    res.json({ ok: true, style });
+  } catch (error) {
+    res.status(styleErrorStatus(error)).json({ error: error.message });
+  }
+});
+
+app.delete('/api/styles/:styleId', access.require('facilitator', liveSessionTokens), (req, res) => {
+  try {
+    styleLibrary.remove(req.params.styleId);
+    logEvent('info', 'Style deleted', { id: req.params.styleId });
+    res.json({ ok: true });
+  } catch (error) {
+    res.status(styleErrorStatus(error)).json({ error: error.message });
+  }
+});
+
 app.post('/api/session/start', async (req, res) => {
-  const { apiKey, languageMode, workshopType, summarizationWindowMinutes, imageSize, stylePreset, phase } = req.body || {};
-  if (!apiKey && !process.env.OPENAI_API_KEY) {
+  const {
+    apiKey,
+    name,
+    languageMode,
+    workshopType,
+    summarizationWindowMinutes,
+    imageSize,
+    stylePreset,
+    phase,
+    keepFullTranscript,
+    diarization,
+    templateId,
+    styleId,
+    styleLocked,
+    autoEnabled,
+    autoIntervalMinutes,
+    autoWordThreshold,
+    autoMinNewWords,
+    autoTopicShift,
+    translation,
+    redactionRules,
+    redactionNames,
+    redactionModel,
+    redactionKeep,
+    budgetCap,
+  } = req.body || {};
+  if (!apiKey && !process.env.OPENAI_API_KEY && requiresApiKey()) {
     return res.status(400).json({ error: 'API key is required to start a session' });
   }
 
-  resetSession();
-  session.active = true;
-  session.apiKey = apiKey || process.env.OPENAI_API_KEY;
-  setSessionConfig({
+  const session = createSessionState({ name, apiKey: apiKey || process.env.OPENAI_API_KEY });
+  sessions.set(session.id, session);
+  const template = getTemplate(templateId || defaultConfig.templateId);
+  setSessionConfig(session, {
+    templateId: template.id,
     languageMode: languageMode || defaultConfig.languageMode,
-    workshopType: workshopType || defaultConfig.workshopType,
+    workshopType: workshopType || template.workshopType,
     summarizationWindowMinutes:
       summarizationWindowMinutes || defaultConfig.summarizationWindowMinutes,
     transcriptWindowMinutes: defaultConfig.transcriptWindowMinutes,
     imageSize: imageSize || defaultConfig.imageSize,
-    stylePreset: stylePreset || defaultConfig.stylePreset,
-    phase: phase || defaultConfig.phase,
+    stylePreset: stylePreset || template.defaultStyle || defaultConfig.stylePreset,
+    phase: phase || template.phases[0].name,
+    keepFullTranscript: keepFullTranscript === true,
+    diarization: diarization === true,
+    styleId: styleId || null,
+    styleLocked: styleLocked === true,
+    autoEnabled: autoEnabled === true,
+    autoIntervalMinutes: autoIntervalMinutes || defaultConfig.autoIntervalMinutes,
+    autoWordThreshold: autoWordThreshold ?? defaultConfig.autoWordThreshold,
+    autoMinNewWords: autoMinNewWords ?? defaultConfig.autoMinNewWords,
+    autoTopicShift: autoTopicShift === true,
+    translation: translation === true,
+    redactionRules: redactionRules || defaultConfig.redactionRules,
+    redactionNames: redactionNames || defaultConfig.redactionNames,
+    redactionModel: redactionModel === true,
+    redactionKeep: redactionKeep || defaultConfig.redactionKeep,
+    budgetCap: budgetCap ?? defaultConfig.budgetCap,
   });
 
   logEvent('info', 'Session started', {
+    sessionId: session.id,
+    name: session.name,
+    liveSessions: sessions.size,
     languageMode: session.config.languageMode,
     workshopType: session.config.workshopType,
     imageSize: session.config.imageSize,
     stylePreset: session.config.stylePreset,
+    templateId: session.config.templateId,
     phase: session.config.phase,
-    transcriptionModel: DEFAULT_TRANSCRIPTION_MODEL,
+    providers: providers.describe(),
     transcriptionRate: TRANSCRIPTION_SAMPLE_RATE,
+    persisted: Boolean(store),
   });
-  if (REALTIME_ENABLED && !MOCK_OPENAI) {
-    ensureRealtimeUpstream()
-      .then(() => refreshRealtimeSessionConfig())
-      .catch((err) => {
-        session.realtime.status = 'error';
-        logEvent('error', 'Realtime upstream init failed', { message: err.message });
-      });
+  if (store) {
+    store.createSession(session.id, {
+      startedAt: session.startedAt,
+      name: session.name,
+      config: session.config,
+      facilitatorTokenHash: hashToken(session.tokens.facilitator),
+    });
   }
-  res.json({ ok: true, config: session.config });
+  startRealtime(session);
+  res.json({ ok: true, sessionId: session.id, name: session.name, config: session.config, ...sessionTokens(session) });
 });
 
-app.post('/api/session/end', (req, res) => {
-  resetSession();
-  logEvent('info', 'Session ended');
+app.post(['/api/session/end', '/api/sessions/:sessionId/end'], access.require('facilitator'), (req, res) => {
+  const session = resolveSession(req);
+  if (session) {
+    endSession(session);
+    logEvent('info', 'Session ended', { sessionId: session.id, liveSessions: sessions.size });
+  }
   res.json({ ok: true });
 });
 
-app.post('/api/config', (req, res) => {
-  if (!session.active) {
+const describeLiveSession = (session) => ({
+  id: session.id,
+  name: session.name,
+  startedAt: session.startedAt,
+  workshopType: session.config.workshopType,
+  phase: session.config.phase,
+  imageCount: session.images.filter((img) => !img.deleted).length,
+  realtimeStatus: session.realtime.status,
+  batch: session.batch ? { status: session.batch.status, progress: session.batch.progress } : null,
+});
+
+app.get('/api/sessions', async (req, res) => {
+  const live = Array.from(sessions.values()).map(describeLiveSession);
+  if (!store) {
+    return res.json({ enabled: false, live, sessions: [] });
+  }
+  try {
+    const stored = await store.list();
+    res.json({ enabled: true, live, sessions: stored.filter((entry) => !sessions.has(entry.id)) });
+  } catch (error) {
+    logEvent('error', 'Listing stored sessions failed', { message: error.message });
+    res.status(500).json({ error: 'Unable to list sessions', details: error.message });
+  }
+});
+
+app.post('/api/sessions/:id/resume', async (req, res) => {
+  if (!store) {
+    return res.status(400).json({ error: 'Session persistence is disabled' });
+  }
+  const { id } = req.params;
+  const { apiKey } = req.body || {};
+  if (!apiKey && !process.env.OPENAI_API_KEY && requiresApiKey()) {
+    return res.status(400).json({ error: 'API key is required to resume a session' });
+  }
+  if (!store.isValidId(id)) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+  let saved;
+  try {
+    saved = await store.load(id);
+  } catch (error) {
+    logEvent('error', 'Stored session load failed', { sessionId: id, message: error.message });
+    return res.status(404).json({ error: 'Session not found' });
+  }
+
+  // Only the facilitator who started it can take a session back: a live one needs its current token,
+  // a saved one the token it was journaled with
+  const token = readToken(req);
+  if (sessions.has(id)) {
+    const live = sessions.get(id);
+    if (ACCESS_CONTROL && !tokensMatch(token, live.tokens.facilitator)) {
+      return res
+        .status(401)
+        .json({ error: 'Facilitator token required to rejoin this session', code: 'AUTH_REQUIRED' });
+    }
+    return res.json({ ok: true, sessionId: id, name: live.name, config: live.config, ...sessionTokens(live) });
+  }
+  if (ACCESS_CONTROL && saved.meta.facilitatorTokenHash && hashToken(token || '') !== saved.meta.facilitatorTokenHash) {
+    return res.status(401).json({ error: 'Facilitator token required to resume this session', code: 'AUTH_REQUIRED' });
+  }
+
+  const session = createSessionState({ id, name: saved.meta.name, apiKey: apiKey || process.env.OPENAI_API_KEY });
+  sessions.set(id, session);
+  setSessionConfig(session, { ...defaultConfig, ...saved.config });
+  session.transcripts = saved.transcripts;
+  if (session.config.keepFullTranscript) {
+    session.fullTranscript = [...saved.transcripts];
+  }
+  session.speakers = createSpeakerRoster(saved.speakers);
+  if (saved.glossary) {
+    session.glossary = saved.glossary;
+  }
+  session.prompts = createPromptLibrary(saved.prompts);
+  session.usage = createUsageMeter({ prices: priceTable, records: saved.usage });
+  checkBudget(session);
+  session.images = saved.images;
+  session.feedback = createFeedbackBook({ records: saved.feedback });
+  session.themes = createThemeMap({ records: saved.themes });
+  for (const image of session.images) {
+    image.feedback = session.feedback.imageSummary(image.id);
+  }
+  const anchor = session.images.find((img) => img.id === saved.styleAnchorId);
+  if (anchor && session.config.styleLocked) {
+    session.styleAnchor = { imageId: anchor.id, url: anchor.url };
+  }
+  session.lastSummary = saved.lastSummary;
+  session.lastPrompt = saved.lastPrompt;
+  store.updateMeta(id, {
+    endedAt: null,
+    resumedAt: new Date().toISOString(),
+    facilitatorTokenHash: hashToken(session.tokens.facilitator),
+  });
+
+  logEvent('info', 'Session resumed', {
+    sessionId: id,
+    transcripts: session.transcripts.length,
+    images: session.images.length,
+  });
+  startRealtime(session);
+  res.json({ ok: true, sessionId: id, name: session.name, config: session.config, ...sessionTokens(session) });
+});
+
+// Session-scoped routes, mounted at /api (most recent session) and /api/sessions/:sessionId
+const api = express.Router({ mergeParams: true });
+
+api.use((req, res, next) => {
+  if (req.params.sessionId && !sessions.has(req.params.sessionId)) {
+    return res.status(404).json({ error: 'Session not found' });
+  }
+  next();
+});
+
+// Reads take the viewer token, changes the facilitator token
+api.use(access.guard);
+
+api.post('/config', (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
     return res.status(400).json({ error: 'No active session' });
   }
-  const { phase, autoIntervalMinutes, imageSize, stylePreset, summarizationWindowMinutes } = req.body || {};
-  setSessionConfig({
+  const {
+    phase,
+    autoIntervalMinutes,
+    imageSize,
+    stylePreset,
+    summarizationWindowMinutes,
+    reviewEnabled,
+    reviewAutoRuns,
+    reviewTimeoutSeconds,
+    keepFullTranscript,
+    diarization,
+    templateId,
+    styleId,
+    styleLocked,
+    autoEnabled,
+    autoWordThreshold,
+    autoMinNewWords,
+    autoTopicShift,
+    autoTopicShiftThreshold,
+    translation,
+    redactionRules,
+    redactionNames,
+    redactionModel,
+    redactionKeep,
+    budgetCap,
+  } = req.body || {};
+  setSessionConfig(session, {
+    templateId: templateId || session.config.templateId,
     phase: phase || session.config.phase,
     autoIntervalMinutes: autoIntervalMinutes || session.config.autoIntervalMinutes,
     imageSize: imageSize || session.config.imageSize,
@@ -736,21 +1538,64 @@ app.post('/api/config', (req, res) => {
     summarizationWindowMinutes:
       summarizationWindowMinutes || session.config.summarizationWindowMinutes,
     transcriptWindowMinutes: session.config.transcriptWindowMinutes,
+    reviewEnabled: typeof reviewEnabled === 'boolean' ? reviewEnabled : session.config.reviewEnabled,
+    reviewAutoRuns: reviewAutoRuns || session.config.reviewAutoRuns,
+    reviewTimeoutSeconds: reviewTimeoutSeconds ?? session.config.reviewTimeoutSeconds,
+    keepFullTranscript:
+      typeof keepFullTranscript === 'boolean' ? keepFullTranscript : session.config.keepFullTranscript,
+    diarization: typeof diarization === 'boolean' ? diarization : session.config.diarization,
+    // null clears the library style and goes back to the free-text preset
+    styleId: styleId === undefined ? session.config.styleId : styleId,
+    styleLocked: typeof styleLocked === 'boolean' ? styleLocked : session.config.styleLocked,
+    autoEnabled: typeof autoEnabled === 'boolean' ? autoEnabled : session.config.autoEnabled,
+    autoWordThreshold: autoWordThreshold ?? session.config.autoWordThreshold,
+    autoMinNewWords: autoMinNewWords ?? session.config.autoMinNewWords,
+    autoTopicShift: typeof autoTopicShift === 'boolean' ? autoTopicShift : session.config.autoTopicShift,
+    autoTopicShiftThreshold: autoTopicShiftThreshold ?? session.config.autoTopicShiftThreshold,
+    translation: typeof translation === 'boolean' ? translation : session.config.translation,
+    redactionRules: redactionRules || session.config.redactionRules,
+    redactionNames: redactionNames || session.config.redactionNames,
+    redactionModel: typeof redactionModel === 'boolean' ? redactionModel : session.config.redactionModel,
+    redactionKeep: redactionKeep || session.config.redactionKeep,
+    budgetCap: budgetCap ?? session.config.budgetCap,
   });
+  persistEvent(session, { type: 'config', config: session.config });
+  emitSessionEvent(session, 'config_changed', { config: session.config });
   logEvent('info', 'Config updated', {
     phase: session.config.phase,
+    autoEnabled: session.config.autoEnabled,
     autoIntervalMinutes: session.config.autoIntervalMinutes,
     imageSize: session.config.imageSize,
     stylePreset: session.config.stylePreset,
   });
-  refreshRealtimeSessionConfig().catch((err) => {
+  refreshRealtimeSessionConfig(session).catch((err) => {
     logEvent('error', 'Realtime config refresh failed', { message: err.message });
   });
   res.json({ ok: true, config: session.config });
 });
 
-app.post('/api/audio', upload.single('audio'), async (req, res) => {
-  if (!session.active) {
+// Transcribes one uploaded chunk (or a realtime fallback slice) into a transcript entry; null when nothing was said.
+// fields overrides entry fields, e.g. the recording-relative timestamp of a batch import slice.
+const ingestAudioChunk = async (session, buffer, mimeType, fields = {}) => {
+  const { text, original } = await transcribeAudio(session, buffer, mimeType);
+  if (!text) return null;
+  const entry = { text, original, timestamp: Date.now(), ...fields };
+  recordTranscript(session, entry);
+  logEvent('info', 'Transcript received', { length: text.length, mime: mimeType, size: buffer.length });
+  await translateEntry(session, entry);
+  if (session.config.diarization) {
+    const mime = normalizeMime(mimeType) || 'audio/webm';
+    const file = await toFile(buffer, `audio.${mimeToExt(mime)}`, { contentType: mime });
+    // Uploaded chunks have no VAD timing, so the whole chunk doubles as the reference clip
+    const clip = { dataUrl: `data:${mime};base64,${buffer.toString('base64')}` };
+    await labelSpeaker(session, entry, file, clip);
+  }
+  return entry;
+};
+
+api.post('/audio', upload.single('audio'), async (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
     return res.status(400).json({ error: 'No active session' });
   }
   if (!req.file) {
@@ -764,20 +1609,16 @@ app.post('/api/audio', upload.single('audio'), async (req, res) => {
     return res.status(400).json({ error: 'Audio chunk too small', details: 'No usable audio captured' });
   }
   try {
-    const text = await transcribeAudio(req.file.buffer, req.file.mimetype);
-    if (text) {
-      session.transcripts.push({ text, timestamp: Date.now() });
-      trimTranscripts();
-      logEvent('info', 'Transcript received', {
-        length: text.length,
-        mime: req.file.mimetype,
-        size: req.file.size,
-      });
+    const entry = await ingestAudioChunk(session, req.file.buffer, req.file.mimetype);
+    if (entry) {
+      res.json({ text: entry.text, speaker: entry.speaker || null, translation: entry.translation || null });
+      return;
     }
-    res.json({ text });
+    res.json({ text: '' });
   } catch (error) {
-    session.lastError = error.message;
+    session.lastError = describeError(error, 'TRANSCRIPTION_ERROR');
     logEvent('error', 'Transcription failed', {
+      code: session.lastError.code,
       message: error.message,
       mime: req.file.mimetype,
       size: req.file.size,
@@ -786,38 +1627,383 @@ app.post('/api/audio', upload.single('audio'), async (req, res) => {
     res.status(500).json({
       error: 'Transcription failed',
       details: error.message,
-      code: 'TRANSCRIPTION_ERROR',
+      code: session.lastError.code,
     });
   }
 });
 
-const runGeneration = async () => {
-  if (!session.active) {
-    throw new Error('No active session');
-  }
-  const transcript = getRecentTranscriptText();
-  if (!transcript) {
-    throw new Error('Not enough transcript to generate');
-  }
-  const summary = await summariseTranscript(transcript);
-  session.lastSummary = { text: summary, timestamp: Date.now(), phase: session.config.phase };
-  const prompt = await createImagePrompt(summary);
-  session.lastPrompt = prompt;
-  const image = await generateImage(prompt);
-  const item = {
-    id: uuid(),
-    prompt,
-    summary,
-    phase: session.config.phase,
+const updateBatchJob = (session, changes = {}) => {
+  Object.assign(session.batch, changes);
+  emitSessionEvent(session, 'batch_progress', { job: session.batch });
+};
+
+const BATCH_CANCELLED = 'Batch import cancelled';
+
+const checkBatchCancelled = (job) => {
+  if (job.cancelRequested) throw new Error(BATCH_CANCELLED);
+};
+
+// Anything that is not PCM16 mono WAV is transcoded and cut into slices on disk by ffmpeg
+const segmentWithFfmpeg = (session, filePath, workDir) =>
+  new Promise((resolve, reject) => {
+    if (!ffmpegPath) return reject(new Error('ffmpeg not available'));
+    const proc = spawn(ffmpegPath, [
+      '-hide_banner',
+      '-loglevel',
+      'error',
+      '-i',
+      filePath,
+      '-ac',
+      '1',
+      '-ar',
+      String(TRANSCRIPTION_SAMPLE_RATE),
+      '-c:a',
+      'pcm_s16le',
+      '-f',
+      'segment',
+      '-segment_time',
+      String(BATCH_SEGMENT_MS / 1000),
+      path.join(workDir, 'segment-%05d.wav'),
+    ]);
+    session.batchAbort = () => proc.kill('SIGTERM');
+    let stderr = '';
+    proc.stderr.on('data', (d) => {
+      stderr += d.toString();
+    });
+    proc.on('error', (err) => reject(err));
+    proc.on('close', (code) => {
+      session.batchAbort = null;
+      if (code !== 0) {
+        reject(new Error(`ffmpeg exit ${code}: ${stderr}`));
+        return;
+      }
+      const files = fs.readdirSync(workDir).filter((name) => name.startsWith('segment-')).sort();
+      resolve(
+        files.map((name, index) => ({
+          startMs: index * BATCH_SEGMENT_MS,
+          load: () => fs.promises.readFile(path.join(workDir, name)),
+        })),
+      );
+    });
+  });
+
+const loadBatchSegments = async (session, file, workDir) => {
+  if (normalizeMime(file.mimetype).includes('wav') || /\.wav$/i.test(file.originalname || '')) {
+    const slices = await splitWavFile(file.path);
+    if (slices) return slices;
+  }
+  return segmentWithFfmpeg(session, file.path, workDir);
+};
+
+// Same summary → prompt → image path as a live run, on the slice of the recording the window covers.
+// Review is skipped: nobody is watching an import.
+const illustrateBatchWindow = async (session, window, entries) => {
+  const input = summaryInputFor(session, windowEntries(window, entries));
+  if (!input.transcript) return { status: 'empty' };
+  if (window.phase && window.phase !== session.config.phase) {
+    setSessionConfig(session, { phase: window.phase });
+    persistEvent(session, { type: 'config', config: session.config });
+    emitSessionEvent(session, 'config_changed', { config: session.config });
+  }
+  await waitForGenerationLock(session);
+  session.lastError = null;
+  emitSessionEvent(session, 'generation_started', { pendingTrigger: Boolean(session.pendingTrigger) });
+  try {
+    const draft = await draftFromTranscript(session, input);
+    const recordingSpan = { startMs: window.startMs, endMs: window.endMs };
+    const item = await renderDraft(session, { ...draft, recordingSpan });
+    return { status: 'done', imageId: item.id };
+  } catch (err) {
+    const error = failGeneration(session, err);
+    logEvent('error', 'Batch window failed', { sessionId: session.id, window: window.index, code: error.code });
+    return { status: 'failed', error };
+  } finally {
+    finishGeneration(session);
+  }
+};
+
+// Offline import: slice the recording, transcribe each slice through the live path (redaction, polish,
+// translation), then illustrate each window. Runs in the background and reports through batch_progress.
+const runBatchJob = async (session, file) => {
+  const job = session.batch;
+  const base = Date.parse(session.startedAt);
+  const entries = [];
+  let workDir = null;
+  try {
+    workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'aii-batch-'));
+    updateBatchJob(session, { status: 'transcoding' });
+    const segments = await loadBatchSegments(session, file, workDir);
+    updateBatchJob(session, { status: 'transcribing', progress: { done: 0, total: segments.length } });
+    let durationMs = 0;
+    for (const [index, segment] of segments.entries()) {
+      checkBatchCancelled(job);
+      const wav = await segment.load();
+      durationMs = Math.max(durationMs, Math.round(segment.startMs + (wavDurationSeconds(wav) || 0) * 1000));
+      try {
+        // Entries are stamped by their place in the recording, counted from the import's start time
+        const fields = { timestamp: base + segment.startMs, offsetMs: segment.startMs };
+        const entry = await ingestAudioChunk(session, wav, 'audio/wav', fields);
+        if (entry) entries.push(entry);
+      } catch (err) {
+        job.failedSegments += 1;
+        logEvent('error', 'Batch segment transcription failed', {
+          sessionId: session.id,
+          segment: index,
+          code: describeError(err, 'TRANSCRIPTION_ERROR').code,
+          message: err.message,
+        });
+      }
+      updateBatchJob(session, { progress: { done: index + 1, total: segments.length } });
+    }
+    if (!entries.length) {
+      throw new Error('No speech was transcribed from the recording');
+    }
+    const windows = planWindows({
+      durationMs,
+      split: job.split,
+      windowMinutes: job.windowMinutes,
+      phases: getTemplate(session.config.templateId).phases.map((p) => p.name),
+    }).map((window) => ({ ...window, status: 'pending', imageId: null }));
+    const progress = { done: 0, total: windows.length };
+    updateBatchJob(session, { status: 'generating', durationMs, windows, progress });
+    for (const window of windows) {
+      checkBatchCancelled(job);
+      if (session.budgetReached) {
+        throw new Error('Budget cap reached');
+      }
+      Object.assign(window, await illustrateBatchWindow(session, window, entries));
+      updateBatchJob(session, { progress: { done: window.index + 1, total: windows.length } });
+    }
+    updateBatchJob(session, { status: 'done', finishedAt: new Date().toISOString() });
+    logEvent('info', 'Batch import finished', {
+      sessionId: session.id,
+      windows: windows.length,
+      images: windows.filter((w) => w.status === 'done').length,
+      failedSegments: job.failedSegments,
+    });
+  } catch (err) {
+    const cancelled = job.cancelRequested;
+    updateBatchJob(session, {
+      status: cancelled ? 'cancelled' : 'failed',
+      error: cancelled ? null : describeError(err, 'BATCH_FAILED'),
+      finishedAt: new Date().toISOString(),
+    });
+    logEvent(cancelled ? 'info' : 'error', cancelled ? 'Batch import cancelled' : 'Batch import failed', {
+      sessionId: session.id,
+      message: err.message,
+    });
+  } finally {
+    session.batchAbort = null;
+    fs.promises.rm(file.path, { force: true }).catch(() => {});
+    if (workDir) fs.promises.rm(workDir, { recursive: true, force: true }).catch(() => {});
+  }
+};
+
+// An import spends the server's key for as long as the recording runs, so the full size needs a facilitator
+// token from any live session; without a token only short recordings are taken. Checked before the upload
+// is spooled.
+const batchUploadFor = (req, res, next) => {
+  const token = readToken(req);
+  const facilitator =
+    !access.enabled || liveSessionTokens().some((tokens) => tokenRole(tokens, token) === 'facilitator');
+  if (token && !facilitator) {
+    logEvent('info', 'Access denied', { method: req.method, path: '/api/batch', code: 'AUTH_REQUIRED' });
+    return res.status(401).json({ error: 'Facilitator token of a live session required', code: 'AUTH_REQUIRED' });
+  }
+  (facilitator ? batchUpload : anonymousBatchUpload).single('audio')(req, res, (err) => {
+    if (err?.code !== 'LIMIT_FILE_SIZE') return next(err);
+    if (facilitator) return res.status(413).json({ error: 'Recording is too large', code: 'FILE_TOO_LARGE' });
+    res.status(413).json({
+      error: 'Recordings this large need the facilitator token of a live session',
+      code: 'AUTH_REQUIRED',
+    });
+  });
+};
+
+// Multipart fields arrive as strings; the recording gets its own session so the live room is untouched
+app.post('/api/batch', batchUploadFor, async (req, res) => {
+  const { apiKey, name, templateId, languageMode, styleId, imageSize, translation, split, windowMinutes } =
+    req.body || {};
+  if (!req.file) {
+    return res.status(400).json({ error: 'No recording received' });
+  }
+  if (!apiKey && !process.env.OPENAI_API_KEY && providers.requiresOpenAIKey()) {
+    fs.promises.rm(req.file.path, { force: true }).catch(() => {});
+    return res.status(400).json({ error: 'API key is required to import a recording' });
+  }
+  const session = createSessionState({
+    name: name || req.file.originalname,
+    apiKey: apiKey || process.env.OPENAI_API_KEY,
+  });
+  sessions.set(session.id, session);
+  const template = getTemplate(templateId || defaultConfig.templateId);
+  setSessionConfig(session, {
+    templateId: template.id,
+    languageMode: languageMode || defaultConfig.languageMode,
+    workshopType: template.workshopType,
+    stylePreset: template.defaultStyle || defaultConfig.stylePreset,
+    phase: template.phases[0].name,
+    imageSize: imageSize || defaultConfig.imageSize,
+    styleId: styleId || null,
+    translation: translation === 'true',
+    // exports should cover the whole recording, not the last few minutes
+    keepFullTranscript: true,
+  });
+  session.batch = createBatchJob({ fileName: req.file.originalname, split, windowMinutes });
+  if (store) {
+    store.createSession(session.id, {
+      startedAt: session.startedAt,
+      name: session.name,
+      config: session.config,
+      facilitatorTokenHash: hashToken(session.tokens.facilitator),
+    });
+  }
+  logEvent('info', 'Batch import started', {
+    sessionId: session.id,
+    file: req.file.originalname,
+    size: req.file.size,
+    split: session.batch.split,
+    windowMinutes: session.batch.windowMinutes,
+  });
+  runBatchJob(session, req.file);
+  res.status(202).json({
+    ok: true,
+    sessionId: session.id,
+    name: session.name,
+    config: session.config,
+    job: session.batch,
+    ...sessionTokens(session),
+  });
+});
+
+api.get('/batch', (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'No active session' });
+  }
+  res.json({ job: session.batch });
+});
+
+// Images already generated stay; the running provider call finishes first
+api.post('/batch/cancel', (req, res) => {
+  const session = resolveSession(req);
+  if (!session?.batch || BATCH_DONE.includes(session.batch.status)) {
+    return res.status(400).json({ error: 'No batch import running' });
+  }
+  session.batchAbort?.();
+  updateBatchJob(session, { cancelRequested: true });
+  res.json({ ok: true, job: session.batch });
+});
+
+// parentId/origin link regenerated, varied and refined images back to the image they came from
+// transcriptSpan holds the timestamps of the first and last transcript entries the summary was built from;
+// promptVersions records which summary/illustration template versions wrote the prompt;
+// themeId is set when the image was asked for one tracked theme
+const addImageItem = (
+  session,
+  {
+    prompt,
+    summary,
+    url,
+    phase,
+    parentId = null,
+    origin = 'pipeline',
+    instruction,
+    transcriptSpan = null,
+    promptVersions = null,
+    recordingSpan = null,
+    themeId = null,
+  },
+) => {
+  const item = {
+    id: uuid(),
+    prompt,
+    summary,
+    phase: phase || session.config.phase,
     createdAt: new Date().toISOString(),
     size: session.config.imageSize,
     pinned: false,
     deleted: false,
-    url: image,
+    url,
+    parentId,
+    origin,
+    transcriptSpan,
+    promptVersions,
+    styleId: session.config.styleId,
+    ...(instruction ? { instruction } : {}),
+    ...(recordingSpan ? { recordingSpan } : {}),
+    ...(themeId ? { themeId } : {}),
   };
   session.images.unshift(item);
-  if (session.images.length > 20) {
-    session.images = session.images.slice(0, 20);
+  persistEvent(session, { type: 'image', image: item });
+  emitSessionEvent(session, 'image_created', { image: item });
+  return item;
+};
+
+const requiresReview = (session, trigger) =>
+  session.config.reviewEnabled && !(trigger === 'auto' && session.config.reviewAutoRuns === 'skip');
+
+const resolveReview = (session, outcome) => {
+  const review = session.pendingReview;
+  if (!review) return null;
+  clearTimeout(session.reviewTimer);
+  session.reviewTimer = null;
+  session.pendingReview = null;
+  persistEvent(session, { type: 'review', reviewId: review.id, outcome });
+  emitSessionEvent(session, 'review_resolved', { id: review.id, outcome });
+  return review;
+};
+
+// A draft whose timeout comes due while another run holds the lock is approved once that run is over,
+// checked this often
+const REVIEW_RETRY_MS = 1000;
+
+const armAutoApprove = (session, reviewId, delayMs) => {
+  session.reviewTimer = setTimeout(() => {
+    if (session.generationInProgress) {
+      armAutoApprove(session, reviewId, REVIEW_RETRY_MS);
+      return;
+    }
+    approveReview(session, reviewId, undefined, 'auto_approved').catch((err) => {
+      logEvent('error', 'Auto-approve failed', { sessionId: session.id, message: err.message });
+    });
+  }, delayMs);
+};
+
+// Parks a draft (summary + prompt) until the facilitator approves, edits or discards it
+const holdForReview = (session, draft) => {
+  if (session.pendingReview) resolveReview(session, 'superseded');
+  const timeoutMs = session.config.reviewTimeoutSeconds * 1000;
+  const review = {
+    id: uuid(),
+    ...draft,
+    createdAt: new Date().toISOString(),
+    expiresAt: timeoutMs ? new Date(Date.now() + timeoutMs).toISOString() : null,
+  };
+  session.pendingReview = review;
+  if (timeoutMs) armAutoApprove(session, review.id, timeoutMs);
+  emitSessionEvent(session, 'review_pending', { review });
+  logEvent('info', 'Draft held for review', { sessionId: session.id, reviewId: review.id, trigger: draft.trigger });
+  return review;
+};
+
+const renderDraft = async (
+  session,
+  { prompt, summary, phase, transcriptSpan, promptVersions, recordingSpan, themeId },
+) => {
+  const image = await generateImage(session, prompt);
+  const item = addImageItem(session, {
+    prompt,
+    summary,
+    phase,
+    transcriptSpan,
+    promptVersions,
+    recordingSpan,
+    themeId,
+    url: image,
+  });
+  if (session.config.styleLocked && !session.styleAnchor) {
+    setStyleAnchor(session, item);
   }
   logEvent('info', 'Image generated', {
     id: item.id,
@@ -829,108 +2015,983 @@ const runGeneration = async () => {
   return item;
 };
 
-app.post('/api/generate', async (req, res) => {
+// lastError is { code, message, retryable } so the console can say what to do about it
+const failGeneration = (session, error) => {
+  session.lastError = describeError(error);
+  emitSessionEvent(session, 'generation_failed', session.lastError);
+  return session.lastError;
+};
+
+const approveReview = async (session, reviewId, editedPrompt, outcome = 'approved') => {
+  if (!session.pendingReview || session.pendingReview.id !== reviewId) {
+    throw new Error('Review not found');
+  }
+  if (session.generationInProgress) {
+    throw new Error('Generation already in progress');
+  }
+  const review = resolveReview(session, outcome);
+  const prompt = editedPrompt?.trim() || review.prompt;
+  if (prompt !== review.prompt) {
+    session.lastPrompt = prompt;
+    persistEvent(session, { type: 'prompt', prompt });
+  }
+  session.generationInProgress = true;
+  session.lastError = null;
+  emitSessionEvent(session, 'generation_started', { pendingTrigger: Boolean(session.pendingTrigger) });
+  try {
+    return await renderDraft(session, { ...review, prompt });
+  } catch (error) {
+    failGeneration(session, error);
+    throw error;
+  } finally {
+    finishGeneration(session);
+  }
+};
+
+const summaryInputFor = (session, entries) => {
+  const labelled = entries.some((entry) => entry.speaker);
+  const transcript = entries
+    .map((entry) => (entry.speaker ? `${session.speakers.labelFor(entry.speaker)}: ${entry.text}` : entry.text))
+    .join(labelled ? '\n' : ' ')
+    .trim();
+  return { entries, transcript, labelled };
+};
+
+const getSummaryInput = (session) => summaryInputFor(session, getRecentTranscriptEntries(session));
+
+// Everything still in memory: the whole session with keepFullTranscript, otherwise the rolling window
+const retainedTranscript = (session) =>
+  session.config.keepFullTranscript ? session.fullTranscript : session.transcripts;
+
+// The retained entries from every stretch the theme covered, newest kept when there are too many;
+// stretches that have left memory are stood in for by the tracker's one-sentence notes
+const themeSummaryInput = (session, theme) => {
+  const within = (entry, o) => entry.timestamp >= o.from && entry.timestamp <= o.to;
+  const matching = retainedTranscript(session).filter((entry) => theme.occurrences.some((o) => within(entry, o)));
+  const entries = [];
+  let words = 0;
+  for (const entry of [...matching].reverse()) {
+    if (words >= THEME_MAX_WORDS * 2) break;
+    entries.unshift(entry);
+    words += countWords(entry.text);
+  }
+  const { transcript, labelled } = summaryInputFor(session, entries);
+  const earlier = theme.occurrences
+    .filter((o) => o.note && !matching.some((entry) => within(entry, o)))
+    .map((o) => `Earlier: ${o.note}`);
+  return {
+    entries,
+    transcript: [...earlier, transcript].filter(Boolean).join('\n'),
+    labelled,
+    transcriptSpan: { from: theme.firstSeen, to: theme.lastSeen },
+    theme,
+  };
+};
+
+// Summary, then illustration prompt, for one stretch of transcript (live window, batch window or theme)
+const draftFromTranscript = async (session, { entries, transcript, labelled, transcriptSpan: span, theme = null }) => {
+  const transcriptSpan = span || { from: entries[0].timestamp, to: entries[entries.length - 1].timestamp };
+  // Captured before each call so a template edited mid-run is not credited with this image
+  const promptVersions = { summary: session.prompts.active('summary').version };
+  const summary = await summariseTranscript(session, transcript, { labelled, theme });
+  session.lastSummary = { text: summary, timestamp: Date.now(), phase: session.config.phase };
+  persistEvent(session, { type: 'summary', summary: session.lastSummary });
+  emitSessionEvent(session, 'summary_updated', { summary: session.lastSummary });
+  promptVersions.illustration = session.prompts.active('illustration').version;
+  const prompt = await createImagePrompt(session, summary);
+  session.lastPrompt = prompt;
+  persistEvent(session, { type: 'prompt', prompt });
+  return {
+    prompt,
+    summary,
+    phase: session.config.phase,
+    transcriptSpan,
+    promptVersions,
+    ...(theme ? { themeId: theme.id } : {}),
+  };
+};
+
+// Resolves to the new image, or to `{ review }` when the draft is held for the facilitator.
+// With a themeId the image is drawn from everywhere that theme came up instead of the latest window.
+const runGeneration = async (session, { trigger = 'manual', themeId = null } = {}) => {
   if (!session.active) {
+    throw new Error('No active session');
+  }
+  const theme = themeId ? session.themes.get(themeId) : null;
+  if (themeId && !theme) {
+    throw new Error('Theme not found');
+  }
+  const input = theme ? themeSummaryInput(session, theme) : getSummaryInput(session);
+  if (!input.transcript) {
+    throw new Error('Not enough transcript to generate');
+  }
+  emitSessionEvent(session, 'generation_started', { pendingTrigger: Boolean(session.pendingTrigger) });
+  const draft = { ...(await draftFromTranscript(session, input)), trigger };
+  // A theme image leaves the live window unsummarised, so the auto schedule carries on as before
+  if (!theme) session.scheduler.markSummarised(input.transcript);
+  if (requiresReview(session, trigger)) {
+    return { review: holdForReview(session, draft) };
+  }
+  return renderDraft(session, draft);
+};
+
+// Why an auto run may not start, or null: the scheduler checks it when a trigger fires, and a queued auto run
+// again when its turn comes
+const autoRunBlocked = (session) => {
+  if (session.pendingReview) return 'draft awaiting review';
+  return session.budgetReached ? 'budget cap reached' : null;
+};
+
+// Scheduler entry point: same queueing as POST /generate, but nobody is waiting on the result
+const runAutoGeneration = (session) => {
+  if (session.generationInProgress) {
+    queueGeneration(session, 'auto');
+    return;
+  }
+  session.generationInProgress = true;
+  session.lastError = null;
+  runGeneration(session, { trigger: 'auto' })
+    .catch((err) => {
+      const { code } = failGeneration(session, err);
+      logEvent('error', 'Auto generation failed', { sessionId: session.id, code, message: err.message });
+    })
+    .finally(() => finishGeneration(session));
+};
+
+// Only one run waits; a manual request outranks an auto one, so review still applies to it
+const queueGeneration = (session, trigger) => {
+  session.pendingTrigger = session.pendingTrigger === 'manual' ? 'manual' : trigger;
+  emitSessionEvent(session, 'generation_queued');
+};
+
+// A batch window waits its turn behind a live or queued run rather than sharing the lock with it
+const waitForGenerationLock = (session) =>
+  new Promise((resolve) => {
+    if (session.generationInProgress) {
+      session.lockWaiters.push(resolve);
+      return;
+    }
+    session.generationInProgress = true;
+    resolve();
+  });
+
+// Hands the lock to a waiting batch window first, then to the queued run, if any
+const finishGeneration = (session) => {
+  const waiter = session.lockWaiters.shift();
+  if (waiter) {
+    waiter();
+    return;
+  }
+  session.generationInProgress = false;
+  const trigger = session.pendingTrigger;
+  if (!trigger) return;
+  session.pendingTrigger = null;
+  // A queued auto run passes the scheduler's gate when it starts, not when it was queued
+  const blocked = trigger === 'auto' ? autoRunBlocked(session) : null;
+  if (blocked) {
+    emitSessionEvent(session, 'generation_dropped', { because: blocked });
+    logEvent('info', 'Queued auto generation dropped', { sessionId: session.id, because: blocked });
+    return;
+  }
+  session.generationInProgress = true;
+  session.lastError = null;
+  runGeneration(session, { trigger })
+    .catch((err) => {
+      const { code } = failGeneration(session, err);
+      logEvent('error', 'Queued generation failed', { sessionId: session.id, code, message: err.message });
+    })
+    .finally(() => finishGeneration(session));
+};
+
+const themePromptVars = (session, transcriptText) => {
+  const known = session.themes.list().map((theme) => theme.label);
+  return {
+    phase: session.config.phase,
+    workshopType: session.config.workshopType,
+    themes: known.length ? known.join('; ') : 'none yet',
+    glossaryNote: session.glossary.length
+      ? `Use these spellings for domain terms: ${session.glossary.map((t) => t.term).join(', ')}.`
+      : '',
+    transcript: transcriptText,
+  };
+};
+
+// Transcript the tracker has not read yet, oldest first and capped at THEME_MAX_WORDS
+const pendingThemeEntries = (session) => {
+  const after = session.themes.analysedUntil();
+  const entries = [];
+  let words = 0;
+  for (const entry of retainedTranscript(session)) {
+    if (entry.timestamp <= after) continue;
+    if (words >= THEME_MAX_WORDS) break;
+    entries.push(entry);
+    words += countWords(entry.text);
+  }
+  return { entries, words };
+};
+
+// Each theme lists the live images placed on it, so the console can pin thumbnails to the timeline
+const describeThemes = (session) => {
+  const placed = session.images
+    .filter((image) => !image.deleted)
+    .map((image) => ({ id: image.id, themeId: session.themes.placeImage(image) }));
+  return {
+    enabled: THEME_TRACKING,
+    analysing: Boolean(session.themeAnalysis),
+    analysedUntil: session.themes.analysedUntil() || null,
+    themes: session.themes.list().map((theme) => ({
+      ...theme,
+      imageIds: placed.filter((image) => image.themeId === theme.id).map((image) => image.id),
+    })),
+  };
+};
+
+// Past the budget cap, or when the reply cannot be read (mock mode included), the stretch is filed
+// under its most frequent words so the timeline has no gaps
+const analyseThemes = async (session, entries) => {
+  const { transcript } = summaryInputFor(session, entries);
+  let found = [];
+  if (!session.budgetReached) {
+    try {
+      const { messages } = session.prompts.render('themes', themePromptVars(session, transcript));
+      found = parseThemeReply(await session.providers.complete({ temperature: 0.2, maxTokens: 400, messages }));
+    } catch (error) {
+      logEvent('error', 'Theme analysis failed', { sessionId: session.id, message: error.message });
+    }
+  }
+  const record = session.themes.record({
+    from: entries[0].timestamp,
+    to: entries[entries.length - 1].timestamp,
+    words: countWords(transcript),
+    themes: found.length ? found : fallbackThemes(transcript),
+  });
+  persistEvent(session, { type: 'themes', record });
+  logEvent('info', 'Themes analysed', { sessionId: session.id, words: record.words, themes: record.themes.length });
+  return record;
+};
+
+// Called on every new transcript entry; a pass starts once the unread stretch is long enough, and
+// `force` (the console's refresh button) reads whatever is there. Returns the running pass or null.
+const maybeAnalyseThemes = (session, { force = false } = {}) => {
+  if (!THEME_TRACKING || session.themeAnalysis) return null;
+  const { entries, words } = pendingThemeEntries(session);
+  if (!entries.length) return null;
+  const span = entries[entries.length - 1].timestamp - entries[0].timestamp;
+  const ready = words >= THEME_MAX_WORDS || (words >= THEME_MIN_WORDS && span >= THEME_INTERVAL_MS);
+  if (!force && !ready) return null;
+  session.themeAnalysis = analyseThemes(session, entries)
+    .catch((err) => {
+      logEvent('error', 'Theme analysis failed', { sessionId: session.id, message: err.message });
+      return null;
+    })
+    .finally(() => {
+      session.themeAnalysis = null;
+      emitSessionEvent(session, 'themes_updated', describeThemes(session));
+      // A batch import can leave more than one pass worth of transcript behind
+      if (session.active) maybeAnalyseThemes(session);
+    });
+  emitSessionEvent(session, 'themes_updated', describeThemes(session));
+  return session.themeAnalysis;
+};
+
+api.post('/generate', async (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
     return res.status(400).json({ error: 'No active session' });
   }
+  const themeId = typeof req.body?.themeId === 'string' ? req.body.themeId : null;
+  if (session.generationInProgress && themeId) {
+    // The queue only remembers that another run is wanted, not what it was for
+    return res.status(409).json({ error: 'Generation already in progress' });
+  }
+  const trigger = req.body?.trigger === 'auto' ? 'auto' : 'manual';
   if (session.generationInProgress) {
-    session.pendingTrigger = true;
-    logEvent('info', 'Generation queued while in progress');
+    queueGeneration(session, trigger);
+    logEvent('info', 'Generation queued while in progress', { sessionId: session.id, trigger });
     return res.json({ queued: true, message: 'Generation already in progress; queued next run.' });
   }
   session.generationInProgress = true;
   session.lastError = null;
   try {
-    const item = await runGeneration();
-    res.json({ ok: true, image: item });
+    const result = await runGeneration(session, { trigger, themeId });
+    res.json(result.review ? { ok: true, review: result.review } : { ok: true, image: result });
   } catch (error) {
-    session.lastError = error.message;
-    logEvent('error', 'Generation failed', { message: error.message });
-    res.status(400).json({ error: error.message });
+    const { code } = failGeneration(session, error);
+    logEvent('error', 'Generation failed', { code, message: error.message });
+    res.status(400).json({ error: error.message, code });
   } finally {
-    session.generationInProgress = false;
-    if (session.pendingTrigger) {
-      session.pendingTrigger = false;
-      runGeneration().catch((err) => {
-        session.lastError = err.message;
-        logEvent('error', 'Queued generation failed', { message: err.message });
+    finishGeneration(session);
+  }
+});
+
+api.post('/review/:reviewId/approve', async (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'No active session' });
+  }
+  if (session.pendingReview?.id !== req.params.reviewId) {
+    return res.status(404).json({ error: 'Review not found' });
+  }
+  if (session.generationInProgress) {
+    return res.status(409).json({ error: 'Generation already in progress' });
+  }
+  try {
+    const item = await approveReview(session, req.params.reviewId, req.body?.prompt);
+    res.json({ ok: true, image: item });
+  } catch (error) {
+    const { code } = describeError(error);
+    logEvent('error', 'Approved generation failed', { code, message: error.message });
+    res.status(400).json({ error: error.message, code });
+  }
+});
+
+api.post('/review/:reviewId/discard', (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'No active session' });
+  }
+  if (session.pendingReview?.id !== req.params.reviewId) {
+    return res.status(404).json({ error: 'Review not found' });
+  }
+  resolveReview(session, 'discarded');
+  logEvent('info', 'Draft discarded', { sessionId: session.id, reviewId: req.params.reviewId });
+  res.json({ ok: true });
+});
+
+const REGENERATE_MODES = ['regenerate', 'variations', 'refine'];
+const MAX_VARIATIONS = 4;
+
+api.post('/images/:id/regenerate', async (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'No active session' });
+  }
+  const { id } = req.params;
+  const { mode = 'regenerate', prompt, instruction, count } = req.body || {};
+  const source = session.images.find((img) => img.id === id && !img.deleted);
+  if (!source) {
+    return res.status(404).json({ error: 'Image not found' });
+  }
+  if (!REGENERATE_MODES.includes(mode)) {
+    return res.status(400).json({ error: `Unknown mode; use one of ${REGENERATE_MODES.join(', ')}` });
+  }
+  if (mode === 'refine' && !instruction?.trim()) {
+    return res.status(400).json({ error: 'A refine instruction is required' });
+  }
+  if (session.generationInProgress) {
+    return res.status(409).json({ error: 'Generation already in progress' });
+  }
+
+  session.generationInProgress = true;
+  session.lastError = null;
+  emitSessionEvent(session, 'generation_started', { pendingTrigger: Boolean(session.pendingTrigger), parentId: id });
+  const basePrompt = prompt?.trim() || source.prompt;
+  const inherit = {
+    summary: source.summary,
+    phase: source.phase,
+    transcriptSpan: source.transcriptSpan,
+    promptVersions: source.promptVersions,
+    parentId: id,
+  };
+  try {
+    let created;
+    if (mode === 'refine') {
+      const url = await session.providers.editImage({
+        image: source.url,
+        prompt: instruction.trim(),
+        size: session.config.imageSize,
       });
+      created = [
+        addImageItem(session, {
+          ...inherit,
+          prompt: basePrompt,
+          url,
+          origin: 'refine',
+          instruction: instruction.trim(),
+        }),
+      ];
+    } else {
+      const n = mode === 'variations' ? Math.min(Math.max(Number(count) || 3, 1), MAX_VARIATIONS) : 1;
+      const urls = await generateImages(session, basePrompt, n);
+      const origin = mode === 'variations' ? 'variation' : 'regenerate';
+      created = urls.map((url) => addImageItem(session, { ...inherit, prompt: basePrompt, url, origin }));
     }
+    logEvent('info', 'Image regenerated', { parentId: id, mode, created: created.length });
+    res.json({ ok: true, images: created });
+  } catch (error) {
+    const { code } = failGeneration(session, error);
+    logEvent('error', 'Regeneration failed', { parentId: id, mode, code, message: error.message });
+    res.status(400).json({ error: error.message, code });
+  } finally {
+    finishGeneration(session);
   }
 });
 
-app.get('/api/status', (req, res) => {
+// Newest first, without soft-deleted images
+const liveImages = (session) => session.images.filter((img) => !img.deleted);
+
+const buildStatus = (session) => ({
+  sessionActive: Boolean(session?.active),
+  sessionId: session?.id || null,
+  name: session?.name || null,
+  persisted: Boolean(store),
+  config: session?.config || defaultConfig,
+  lastSummary: session?.lastSummary || null,
+  generationInProgress: Boolean(session?.generationInProgress),
+  pendingTrigger: Boolean(session?.pendingTrigger),
+  lastError: session?.lastError || null,
+  providerCircuits: providerBreakers.open(),
+  pendingReview: session?.pendingReview || null,
+  template: getTemplate(session?.config.templateId),
+  speakers: session ? session.speakers.list() : [],
+  glossary: session ? session.glossary : [],
+  promptVersions: session ? session.prompts.activeVersions() : null,
+  styleAnchorId: session?.styleAnchor?.imageId || null,
+  schedule: session ? session.scheduler.status() : null,
+  redactionLog: session ? session.redactionLog : [],
+  usage: session ? usageStatus(session) : null,
+  batch: session?.batch || null,
+  survey: session ? session.feedback.surveyResults() : null,
+  participantUrl: PARTICIPANT_URL || null,
+  transcripts: session ? session.transcripts.slice(-50) : [],
+  images: session ? liveImages(session).filter((img, index) => index < MAX_LIVE_IMAGES || img.pinned) : [],
+  imageCount: session ? liveImages(session).length : 0,
+  realtime: {
+    enabled: REALTIME_ENABLED && !MOCK_OPENAI,
+    status: session?.realtime.status || 'disconnected',
+    upstream: session?.realtime.link?.status() || null,
+    model: REALTIME_MODEL,
+    transcribeModel: REALTIME_TRANSCRIBE_MODEL,
+  },
+  providers: providers.describe(),
+});
+
+// The status as a role may see it: viewers get no transcript, glossary, prompt versions, review, redaction log
+// or redaction names
+const statusFor = (session, role) => {
+  const status = buildStatus(session);
+  if (isFacilitator(role)) return status;
+  return {
+    ...status,
+    config: viewerConfig(status.config),
+    transcripts: [],
+    glossary: [],
+    promptVersions: null,
+    pendingReview: null,
+    redactionLog: [],
+  };
+};
+
+// Tells a client which role its token carries; a facilitator also gets the other tokens to hand out
+api.get('/access', (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'No active session' });
+  }
+  const role = req.accessRole || 'facilitator';
+  const facilitator = role === 'facilitator';
   res.json({
-    sessionActive: session.active,
-    config: session.config,
-    lastSummary: session.lastSummary,
-    generationInProgress: session.generationInProgress,
-    pendingTrigger: session.pendingTrigger,
-    lastError: session.lastError,
-    transcripts: session.transcripts.slice(-50),
-    images: session.images.filter((img) => !img.deleted),
-    realtime: {
-      enabled: REALTIME_ENABLED && !MOCK_OPENAI,
-      status: session.realtime.status,
-      model: REALTIME_MODEL,
-      transcribeModel: REALTIME_TRANSCRIBE_MODEL,
-    },
+    role,
+    viewerToken: facilitator ? session.tokens.viewer : null,
+    participantToken: facilitator ? session.tokens.participant : null,
+  });
+});
+
+api.get('/status', (req, res) => {
+  res.json(statusFor(resolveSession(req), req.accessRole));
+});
+
+api.get('/events', (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'No active session' });
+  }
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  const status = statusFor(session, req.accessRole);
+  res.write(`event: snapshot\ndata: ${JSON.stringify({ type: 'snapshot', status })}\n\n`);
+  session.eventClients.set(res, req.accessRole);
+  const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), EVENT_KEEPALIVE_MS);
+  req.on('close', () => {
+    clearInterval(keepAlive);
+    session.eventClients.delete(res);
   });
 });
 
-app.patch('/api/images/:id', (req, res) => {
+// Earlier images than the status carries: ?before=<id of the oldest one the client has>&limit=20
+api.get('/images', (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'No active session' });
+  }
+  const images = liveImages(session);
+  const limit = Math.min(Math.max(Number(req.query.limit) || MAX_LIVE_IMAGES, 1), 50);
+  const older = images.slice(images.findIndex((img) => img.id === req.query.before) + 1);
+  res.json({ images: older.slice(0, limit), remaining: Math.max(older.length - limit, 0) });
+});
+
+api.patch('/images/:id', (req, res) => {
+  const session = resolveSession(req);
   const { id } = req.params;
   const { pinned } = req.body || {};
-  const image = session.images.find((img) => img.id === id);
+  const image = session?.images.find((img) => img.id === id);
   if (!image) {
     return res.status(404).json({ error: 'Image not found' });
   }
   if (typeof pinned === 'boolean') {
     image.pinned = pinned;
+    persistEvent(session, { type: 'image_updated', id, changes: { pinned } });
+    emitSessionEvent(session, 'image_updated', { image });
   }
   res.json({ ok: true, image });
 });
 
-app.delete('/api/images/:id', (req, res) => {
+api.delete('/images/:id', (req, res) => {
+  const session = resolveSession(req);
   const { id } = req.params;
-  const image = session.images.find((img) => img.id === id);
+  const image = session?.images.find((img) => img.id === id);
   if (!image) {
     return res.status(404).json({ error: 'Image not found' });
   }
   image.deleted = true;
+  persistEvent(session, { type: 'image_updated', id, changes: { deleted: true } });
+  emitSessionEvent(session, 'image_updated', { image: { id, deleted: true } });
+  res.json({ ok: true });
+});
+
+// Participant page (viewer token): the recent images to react to, the survey and the phone's own earlier votes.
+// Image data is fetched one at a time from /feedback/images/:id so polling stays small.
+const FEEDBACK_RECENT_IMAGES = 6;
+
+const recordFeedback = (session, record) => {
+  persistEvent(session, { type: 'feedback', record });
+  if (record.imageId) {
+    const image = session.images.find((img) => img.id === record.imageId);
+    if (image) {
+      image.feedback = session.feedback.imageSummary(image.id);
+      emitSessionEvent(session, 'image_updated', { image: { id: image.id, feedback: image.feedback } });
+    }
+  } else {
+    emitSessionEvent(session, 'survey_updated', { survey: session.feedback.surveyResults() });
+  }
+};
+
+const feedbackImage = (session, id) => session?.images.find((img) => img.id === id && !img.deleted);
+
+const feedbackRoute = (handler) => (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'No active session' });
+  }
+  let record;
+  try {
+    record = handler(session, req.body || {});
+  } catch (error) {
+    return res.status(error.status || 400).json({ error: error.message });
+  }
+  recordFeedback(session, record);
+  res.json({ ok: true, feedback: record.imageId ? session.feedback.imageSummary(record.imageId) : null });
+};
+
+const requireImage = (session, imageId) => {
+  if (!feedbackImage(session, imageId)) {
+    throw Object.assign(new Error('Image not found'), { status: 404 });
+  }
+};
+
+api.get('/feedback', (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'No active session' });
+  }
+  const images = session.images
+    .filter((img) => !img.deleted)
+    .slice(0, FEEDBACK_RECENT_IMAGES)
+    .map(({ id, phase, createdAt, summary, feedback }) => ({ id, phase, createdAt, summary, feedback }));
+  res.json({
+    sessionActive: session.active,
+    name: session.name,
+    images,
+    surveyOpen: session.feedback.surveyOpen(),
+    questions: SURVEY_QUESTIONS,
+    mine: req.query.participant ? session.feedback.participant(String(req.query.participant)) : null,
+  });
+});
+
+api.get('/feedback/images/:id', (req, res) => {
+  const image = feedbackImage(resolveSession(req), req.params.id);
+  if (!image) {
+    return res.status(404).json({ error: 'Image not found' });
+  }
+  res.set('Cache-Control', 'private, max-age=3600');
+  res.json({ id: image.id, url: image.url, phase: image.phase, summary: image.summary });
+});
+
+api.post(
+  '/feedback/vote',
+  feedbackRoute((session, { imageId, participantId, thumb, score }) => {
+    requireImage(session, imageId);
+    return session.feedback.vote({ imageId, participantId, thumb, score });
+  }),
+);
+
+// Proposed captions go through the session's redaction rules, like the transcript
+api.post(
+  '/feedback/caption',
+  feedbackRoute((session, { imageId, participantId, text }) => {
+    requireImage(session, imageId);
+    const { redactionRules, redactionNames } = session.config;
+    const redacted = redactText(String(text ?? ''), { rules: redactionRules, names: redactionNames });
+    const record = session.feedback.caption({ imageId, participantId, text: redacted.text });
+    recordRedactions(session, redacted.hits);
+    return record;
+  }),
+);
+
+api.post(
+  '/feedback/survey',
+  feedbackRoute((session, { participantId, answers }) => {
+    if (!session.feedback.surveyOpen()) {
+      throw Object.assign(new Error('The survey is not open'), { status: 409 });
+    }
+    return session.feedback.answerSurvey({ participantId, answers });
+  }),
+);
+
+// Facilitator: { surveyOpen }
+api.patch(
+  '/feedback',
+  feedbackRoute((session, { surveyOpen }) => {
+    if (typeof surveyOpen !== 'boolean') throw new Error('surveyOpen must be true or false');
+    return session.feedback.setSurveyOpen(surveyOpen);
+  }),
+);
+
+// Always encodes the participant token, never the caller's. `base` is the console's origin, used when
+// AII_PARTICIPANT_URL is not set.
+api.get('/feedback/qr.svg', (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'No active session' });
+  }
+  const base = PARTICIPANT_URL || String(req.query.base || '').replace(/\/$/, '');
+  if (!/^https?:\/\/[^/?#\s]+$/.test(base)) {
+    return res.status(400).json({ error: 'base must be an http(s) origin' });
+  }
+  const params = new URLSearchParams({ view: 'participant', session: session.id, token: session.tokens.participant });
+  let svg;
+  try {
+    svg = renderQrSvg(`${base}/?${params}`);
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+  res.set('Content-Type', 'image/svg+xml');
+  res.send(svg);
+});
+
+api.get('/themes', (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'No active session' });
+  }
+  res.json(describeThemes(session));
+});
+
+// Reads the transcript the tracker has not seen yet without waiting for the interval
+api.post('/themes/refresh', async (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'No active session' });
+  }
+  if (!THEME_TRACKING) {
+    return res.status(400).json({ error: 'Theme tracking is switched off (AII_THEME_TRACKING)' });
+  }
+  if (session.themeAnalysis) {
+    return res.status(409).json({ error: 'Theme analysis already running' });
+  }
+  const run = maybeAnalyseThemes(session, { force: true });
+  if (!run) {
+    return res.status(400).json({ error: 'No new transcript to analyse' });
+  }
+  await run;
+  res.json({ ok: true, ...describeThemes(session) });
+});
+
+api.post('/export', async (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'Nothing to export' });
+  }
+  const format = req.body?.format || 'markdown';
+  const target = EXPORT_FORMATS[format];
+  if (!target) {
+    return res.status(400).json({ error: `Unsupported export format: ${format}` });
+  }
+  try {
+    const content = await renderExport(format, session);
+    logEvent('info', 'Session exported', { sessionId: session.id, format });
+    res.setHeader('Content-Disposition', `attachment; filename="${target.filename}"`);
+    res.setHeader('Content-Type', target.mime);
+    res.send(content);
+  } catch (error) {
+    logEvent('error', 'Export failed', { sessionId: session.id, format, message: error.message });
+    res.status(500).json({ error: 'Export failed' });
+  }
+});
+
+const updateGlossary = (session, terms) => {
+  session.glossary = terms;
+  persistEvent(session, { type: 'glossary', terms });
+  emitSessionEvent(session, 'glossary_updated', { terms });
+  // The realtime transcriber reads the glossary through its session prompt
+  refreshRealtimeSessionConfig(session).catch((err) => {
+    logEvent('error', 'Realtime config refresh failed', { message: err.message });
+  });
+};
+
+// Masked previews of what the redaction stage removed, plus the rules a session can toggle
+api.get('/redactions', (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'No active session' });
+  }
+  res.json({
+    rules: REDACTION_RULE_IDS.map((id) => ({ id, label: REDACTION_RULES[id].label })),
+    entries: session.redactionLog,
+  });
+});
+
+api.get('/glossary', (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'No active session' });
+  }
+  res.json({ terms: session.glossary });
+});
+
+api.post('/glossary', (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'No active session' });
+  }
+  let term;
+  try {
+    term = normalizeTerm(req.body || {});
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+  if (session.glossary.some((t) => t.term.toLowerCase() === term.term.toLowerCase())) {
+    return res.status(409).json({ error: 'Term already in the glossary' });
+  }
+  updateGlossary(session, [...session.glossary, term]);
+  res.status(201).json({ ok: true, term });
+});
+
+api.patch('/glossary/:termId', (req, res) => {
+  const session = resolveSession(req);
+  const existing = session?.glossary.find((t) => t.id === req.params.termId);
+  if (!existing) {
+    return res.status(404).json({ error: 'Term not found' });
+  }
+  let term;
+  try {
+    term = normalizeTerm(req.body || {}, existing);
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+  updateGlossary(session, session.glossary.map((t) => (t.id === term.id ? term : t)));
+  res.json({ ok: true, term });
+});
+
+api.delete('/glossary/:termId', (req, res) => {
+  const session = resolveSession(req);
+  if (!session?.glossary.some((t) => t.id === req.params.termId)) {
+    return res.status(404).json({ error: 'Term not found' });
+  }
+  updateGlossary(session, session.glossary.filter((t) => t.id !== req.params.termId));
   res.json({ ok: true });
 });
 
-app.post('/api/export', (req, res) => {
-  if (!session.active && session.images.length === 0) {
+api.get('/glossary/export', (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
     return res.status(400).json({ error: 'Nothing to export' });
   }
-  const now = new Date();
-  const lines = [];
-  lines.push(`# NCIM AI Illustrator session`);
-  lines.push(`Date: ${now.toISOString()}`);
-  lines.push(`Workshop type: ${session.config.workshopType}`);
-  lines.push(`Phases used: ${Array.from(new Set(session.images.map((img) => img.phase))).join(', ')}`);
-  lines.push('');
-  lines.push('## Prompts');
-  session.images.forEach((img, idx) => {
-    lines.push(`${idx + 1}. [${img.createdAt}] (${img.phase})`);
-    lines.push(`Prompt: ${img.prompt}`);
-    lines.push('');
+  res.setHeader('Content-Disposition', 'attachment; filename="glossary.csv"');
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.send(toCsv(session.glossary));
+});
+
+// Body: { csv, mode: 'merge' | 'replace' }
+api.post('/glossary/import', (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'No active session' });
+  }
+  const { csv, mode = 'merge' } = req.body || {};
+  let imported;
+  try {
+    imported = parseCsv(csv);
+  } catch (error) {
+    return res.status(400).json({ error: `Invalid glossary CSV: ${error.message}` });
+  }
+  if (imported.length === 0) {
+    return res.status(400).json({ error: 'No glossary terms found in CSV' });
+  }
+  updateGlossary(session, mode === 'replace' ? imported : mergeTerms(session.glossary, imported));
+  logEvent('info', 'Glossary imported', { sessionId: session.id, terms: imported.length, mode });
+  res.json({ ok: true, terms: session.glossary });
+});
+
+const updatePrompts = (session, name) => {
+  persistEvent(session, { type: 'prompts', prompts: session.prompts.toJSON() });
+  emitSessionEvent(session, 'prompts_updated', { prompts: session.prompts.list() });
+  logEvent('info', 'Prompt template updated', {
+    sessionId: session.id,
+    name,
+    active: session.prompts.active(name).version,
   });
-  if (session.lastSummary) {
-    lines.push('## Last summary');
-    lines.push(session.lastSummary.text);
+};
+
+const promptVarsFor = (session, name) => {
+  if (name === 'summary') {
+    const { transcript, labelled } = getSummaryInput(session);
+    return summaryPromptVars(session, transcript, { labelled });
+  }
+  if (name === 'illustration') {
+    return illustrationPromptVars(session, session.lastSummary?.text || '');
+  }
+  if (name === 'themes') {
+    return themePromptVars(session, summaryInputFor(session, pendingThemeEntries(session).entries).transcript);
+  }
+  const latest = session.transcripts.at(-1)?.text || '';
+  if (name === 'translation') {
+    const source = detectLanguage(latest);
+    return translationPromptVars(session, latest, source, source === 'ar' ? 'en' : 'ar');
+  }
+  return polishPromptVars(session, latest);
+};
+
+api.get('/prompts', (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'No active session' });
+  }
+  res.json({ prompts: session.prompts.list() });
+});
+
+// Body: { system, user }; saves a new version and makes it active
+api.put('/prompts/:name', (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'No active session' });
+  }
+  if (!PROMPT_NAMES.includes(req.params.name)) {
+    return res.status(404).json({ error: 'Prompt template not found' });
+  }
+  let version;
+  try {
+    version = session.prompts.save(req.params.name, req.body || {});
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+  updatePrompts(session, req.params.name);
+  res.json({ ok: true, version });
+});
+
+// Renders the active version, or an unsaved { system, user } draft, against the current session
+api.post('/prompts/:name/preview', (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'No active session' });
+  }
+  const { name } = req.params;
+  if (!PROMPT_NAMES.includes(name)) {
+    return res.status(404).json({ error: 'Prompt template not found' });
+  }
+  const draft = req.body?.system !== undefined || req.body?.user !== undefined ? req.body : null;
+  try {
+    if (draft) session.prompts.validate(name, draft);
+  } catch (error) {
+    return res.status(400).json({ error: error.message });
+  }
+  const { version, messages } = session.prompts.render(name, promptVarsFor(session, name), draft);
+  res.json({ version, system: messages[0].content, user: messages[1].content });
+});
+
+// Body: { version }
+api.post('/prompts/:name/rollback', (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'No active session' });
+  }
+  if (!PROMPT_NAMES.includes(req.params.name)) {
+    return res.status(404).json({ error: 'Prompt template not found' });
+  }
+  let version;
+  try {
+    version = session.prompts.rollback(req.params.name, req.body?.version);
+  } catch (error) {
+    return res.status(404).json({ error: error.message });
   }
-  const content = lines.join('\n');
-  res.setHeader('Content-Disposition', 'attachment; filename="session-summary.md"');
-  res.setHeader('Content-Type', 'text/markdown');
+  updatePrompts(session, req.params.name);
+  res.json({ ok: true, version });
+});
+
+api.patch('/speakers/:speakerId', (req, res) => {
+  const session = resolveSession(req);
+  const label = typeof req.body?.label === 'string' ? req.body.label.trim().slice(0, 60) : '';
+  if (!label) {
+    return res.status(400).json({ error: 'A speaker label is required' });
+  }
+  const speaker = session?.speakers.rename(req.params.speakerId, label);
+  if (!speaker) {
+    return res.status(404).json({ error: 'Speaker not found' });
+  }
+  const speakers = session.speakers.list();
+  persistEvent(session, { type: 'speakers', speakers });
+  emitSessionEvent(session, 'speakers_updated', { speakers });
+  res.json({ ok: true, speakers });
+});
+
+api.get('/transcript', (req, res) => {
+  const session = resolveSession(req);
+  if (!session) {
+    return res.status(400).json({ error: 'Nothing to export' });
+  }
+  const format = req.query.format || 'json';
+  const target = TRANSCRIPT_FORMATS[format];
+  if (!target) {
+    return res.status(400).json({ error: `Unsupported transcript format: ${format}` });
+  }
+  const languages = req.query.languages || 'original';
+  if (!TRANSCRIPT_LANGUAGES.includes(languages)) {
+    return res.status(400).json({ error: `Unknown languages option; use one of ${TRANSCRIPT_LANGUAGES.join(', ')}` });
+  }
+  const complete = session.config.keepFullTranscript;
+  const content = renderTranscript(format, session, complete ? session.fullTranscript : session.transcripts, {
+    languages,
+  });
+  logEvent('info', 'Transcript exported', { sessionId: session.id, format, complete, languages });
+  res.setHeader('Content-Disposition', `attachment; filename="${target.filename}"`);
+  res.setHeader('Content-Type', target.mime);
   res.send(content);
 });
 
+// Scoped mount first: the /api mount would otherwise see /sessions/:id/... paths and guard them against
+// the most recent session instead of the one in the URL
+app.use('/api/sessions/:sessionId', api);
+app.use('/api', api);
+
 const setupRealtimeGateway = (server) => {
   realtimeWSS = new WebSocketServer({ server, path: '/ws/audio' });
-  realtimeWSS.on('connection', (ws) => {
+  realtimeWSS.on('connection', (ws, req) => {
+    // Clients pick their room with /ws/audio?sessionId=...; without one they join the latest session
+    const sessionId = new URL(req.url, 'http://localhost').searchParams.get('sessionId');
+    const session = sessionId ? sessions.get(sessionId) : getDefaultSession();
     let transcoder = null;
     let passthroughPcm = false;
     const startTranscoder = (mime = 'audio/webm') => {
@@ -965,13 +3026,8 @@ const setupRealtimeGateway = (server) => {
         'pipe:1',
       ]);
 
-      proc.stdout.on('data', async (chunk) => {
-        const rt = await ensureRealtimeUpstream();
-        if (!rt) return;
-        rt.send({
-          type: 'input_audio_buffer.append',
-          audio: Buffer.from(chunk).toString('base64'),
-        });
+      proc.stdout.on('data', (chunk) => {
+        forwardRealtimeAudio(session, Buffer.from(chunk));
       });
 
       proc.stderr.on('data', (d) => {
@@ -987,22 +3043,34 @@ const setupRealtimeGateway = (server) => {
       return transcoder;
     };
 
-    if (!session.active) {
+    if (!session?.active) {
       ws.close(1013, 'No active session');
       return;
     }
+    // Browsers do not apply CORS to WebSockets, so the origin and the facilitator token are checked here
+    if (!originAllowed(CORS_ORIGINS, req.headers.origin)) {
+      ws.close(1008, 'Origin not allowed');
+      return;
+    }
+    if (access.roleFor(session.tokens, req) !== 'facilitator') {
+      logEvent('info', 'Access denied', { path: '/ws/audio', sessionId: session.id, code: 'AUTH_REQUIRED' });
+      ws.close(1008, 'Facilitator token required');
+      return;
+    }
     if (!REALTIME_ENABLED || MOCK_OPENAI) {
       ws.close(1013, 'Realtime disabled');
       return;
     }
     session.realtime.clients.add(ws);
-    session.realtime.status = 'client_connected';
+    setRealtimeStatus(session, 'client_connected');
     ws.send(
       JSON.stringify({
         type: 'ready',
         model: REALTIME_MODEL,
         transcribeModel: REALTIME_TRANSCRIBE_MODEL,
         sampleRate: TRANSCRIPTION_SAMPLE_RATE,
+        // clients that gate silence keep sending this long after speech so the turn still closes
+        vadSilenceMs: REALTIME_VAD_SILENCE_MS,
       }),
     );
 
@@ -1022,11 +3090,11 @@ const setupRealtimeGateway = (server) => {
             session.realtime.lastMime = msg.mime || session.realtime.lastMime;
             passthroughPcm = msg.format === 'pcm16';
             ws.send(JSON.stringify({ type: 'ack', message: 'start' }));
-            ensureRealtimeUpstream().catch((err) =>
+            ensureRealtimeUpstream(session).catch((err) =>
               logEvent('error', 'Realtime upstream init failed (ws)', { message: err.message }),
             );
           } else if (msg.type === 'commit') {
-            const rt = await ensureRealtimeUpstream();
+            const rt = await ensureRealtimeUpstream(session);
             rt?.send({ type: 'input_audio_buffer.commit' });
           }
         } catch (err) {
@@ -1038,12 +3106,7 @@ const setupRealtimeGateway = (server) => {
       const chunk = Buffer.isBuffer(data) ? data : Buffer.from(data);
       if (!chunk || chunk.length === 0) return;
       if (passthroughPcm) {
-        const rt = await ensureRealtimeUpstream();
-        if (!rt) return;
-        rt.send({
-          type: 'input_audio_buffer.append',
-          audio: chunk.toString('base64'),
-        });
+        forwardRealtimeAudio(session, chunk);
         return;
       }
       const proc = startTranscoder(session.realtime.lastMime);
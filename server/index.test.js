@@ -1,7 +1,9 @@
 const test = require('node:test');
 const assert = require('node:assert');
+const http = require('http');
 const request = require('supertest');
 const app = require('./index');
+const { renderQrSvg } = require('./qr');
 
 const silenceWav = (durationMs = 500) => {
   const sampleRate = 16000;
@@ -25,6 +27,15 @@ const silenceWav = (durationMs = 500) => {
   return buffer;
 };
 
+// Requests carrying a session's access token (facilitator or viewer)
+const as = (token) =>
+  Object.fromEntries(
+    ['get', 'post', 'put', 'patch', 'delete'].map((method) => [
+      method,
+      (url) => request(app)[method](url).set('Authorization', `Bearer ${token}`),
+    ]),
+  );
+
 test('baseline endpoints without session', async () => {
   await request(app).post('/api/session/end');
   const status = await request(app).get('/api/status');
@@ -62,23 +73,917 @@ test('mock end-to-end audio -> transcript -> generate', async () => {
     stylePreset: 'Test style',
     phase: 'Vision',
   });
+  const api = as(start.body.facilitatorToken);
   assert.strictEqual(start.status, 200);
 
-  const audioRes = await request(app)
+  const audioRes = await api
     .post('/api/audio')
     .attach('audio', silenceWav(), { filename: 'chunk.wav', contentType: 'audio/wav' });
   assert.strictEqual(audioRes.status, 200);
   assert.strictEqual(audioRes.body.text, 'mock transcript');
 
-  const genRes = await request(app).post('/api/generate');
+  const genRes = await api.post('/api/generate');
   assert.strictEqual(genRes.status, 200);
   assert.ok(genRes.body.image);
   assert.ok(genRes.body.image.url);
 
-  const statusAfter = await request(app).get('/api/status');
+  const statusAfter = await api.get('/api/status');
   assert.strictEqual(statusAfter.body.sessionActive, true);
   assert.ok(statusAfter.body.transcripts.length >= 1);
   assert.ok(statusAfter.body.images.length >= 1);
 
-  await request(app).post('/api/session/end');
+  await api.post('/api/session/end');
+});
+
+test('concurrent sessions are isolated by id', async () => {
+  const startRoom = async (name) => {
+    const res = await request(app).post('/api/session/start').send({ apiKey: 'sk-test', name, phase: 'Mission' });
+    assert.strictEqual(res.status, 200);
+    assert.strictEqual(res.body.name, name);
+    return [res.body.sessionId, as(res.body.facilitatorToken)];
+  };
+  const [roomA, apiA] = await startRoom('Room A');
+  const [roomB, apiB] = await startRoom('Room B');
+  assert.notStrictEqual(roomA, roomB);
+
+  const audioRes = await apiA
+    .post(`/api/sessions/${roomA}/audio`)
+    .attach('audio', silenceWav(), { filename: 'chunk.wav', contentType: 'audio/wav' });
+  assert.strictEqual(audioRes.status, 200);
+
+  const statusA = await apiA.get(`/api/sessions/${roomA}/status`);
+  const statusB = await apiB.get(`/api/sessions/${roomB}/status`);
+  assert.strictEqual(statusA.body.transcripts.length, 1);
+  assert.strictEqual(statusB.body.transcripts.length, 0);
+
+  const genB = await apiB.post(`/api/sessions/${roomB}/generate`);
+  assert.strictEqual(genB.status, 400);
+  assert.strictEqual(genB.body.error, 'Not enough transcript to generate');
+  assert.strictEqual(genB.body.code, 'GENERATION_FAILED');
+  const statusAfterFailure = await apiB.get(`/api/sessions/${roomB}/status`);
+  assert.strictEqual(statusAfterFailure.body.lastError.code, 'GENERATION_FAILED');
+
+  const listing = await request(app).get('/api/sessions');
+  assert.deepStrictEqual(
+    listing.body.live.map((s) => s.name).sort(),
+    ['Room A', 'Room B'],
+  );
+
+  await apiA.post(`/api/sessions/${roomA}/end`);
+  const missing = await apiA.get(`/api/sessions/${roomA}/status`);
+  assert.strictEqual(missing.status, 404);
+  const stillRunning = await apiB.get(`/api/sessions/${roomB}/status`);
+  assert.strictEqual(stillRunning.body.sessionActive, true);
+
+  await apiB.post(`/api/sessions/${roomB}/end`);
+});
+
+test('access tokens separate facilitators, viewers and other clients', async () => {
+  const start = await request(app).post('/api/session/start').send({ apiKey: 'sk-test', name: 'Locked' });
+  const { sessionId, facilitatorToken, viewerToken } = start.body;
+  assert.ok(facilitatorToken && viewerToken && facilitatorToken !== viewerToken);
+  const base = `/api/sessions/${sessionId}`;
+  const facilitator = as(facilitatorToken);
+  const viewer = as(viewerToken);
+
+  const anonymous = await request(app).get(`${base}/status`);
+  assert.strictEqual(anonymous.status, 401);
+  assert.strictEqual(anonymous.body.code, 'AUTH_REQUIRED');
+  const unscoped = await request(app).post('/api/session/end');
+  assert.strictEqual(unscoped.status, 401);
+
+  const read = await viewer.get(`${base}/status`);
+  assert.strictEqual(read.body.sessionActive, true);
+  assert.deepStrictEqual((await viewer.get(`${base}/access`)).body, {
+    role: 'viewer',
+    viewerToken: null,
+    participantToken: null,
+  });
+  const handout = (await facilitator.get(`${base}/access`)).body;
+  assert.strictEqual(handout.viewerToken, viewerToken);
+  assert.strictEqual(handout.participantToken, start.body.participantToken);
+  const viaQuery = await request(app).get(`${base}/status?token=${viewerToken}`);
+  assert.strictEqual(viaQuery.status, 200);
+  // viewers watch; reading the transcript, prompts or glossary and exporting are the facilitator's
+  for (const path of ['/transcript?format=txt', '/prompts', '/glossary/export']) {
+    const res = await viewer.get(`${base}${path}`);
+    assert.strictEqual(res.status, 403, path);
+    assert.strictEqual(res.body.code, 'FORBIDDEN');
+  }
+  assert.strictEqual((await viewer.post(`${base}/export`).send({ format: 'markdown' })).status, 403);
+  const download = await request(app).get(`${base}/transcript?format=txt&token=${facilitatorToken}`);
+  assert.strictEqual(download.status, 200);
+  const write = await viewer.post(`${base}/config`).send({ phase: 'KPIs' });
+  assert.strictEqual(write.status, 403);
+  assert.strictEqual(write.body.code, 'FORBIDDEN');
+  const ending = await viewer.post(`${base}/end`);
+  assert.strictEqual(ending.status, 403);
+  const style = await request(app).post('/api/styles').send({ name: 'Sneaky', description: 'Should not be saved' });
+  assert.strictEqual(style.status, 401);
+
+  const other = await request(app).post('/api/session/start').send({ apiKey: 'sk-test', name: 'Other room' });
+  const crossed = await facilitator.post(`/api/sessions/${other.body.sessionId}/generate`);
+  assert.strictEqual(crossed.status, 401);
+  await as(other.body.facilitatorToken).post(`/api/sessions/${other.body.sessionId}/end`);
+
+  const blocked = await request(app).get('/api/templates').set('Origin', 'http://evil.example');
+  assert.strictEqual(blocked.status, 403);
+  assert.strictEqual(blocked.body.code, 'ORIGIN_NOT_ALLOWED');
+  const allowed = await request(app).get('/api/templates').set('Origin', 'http://localhost:5173');
+  assert.strictEqual(allowed.headers['access-control-allow-origin'], 'http://localhost:5173');
+
+  const ended = await facilitator.post(`${base}/end`);
+  assert.strictEqual(ended.status, 200);
+});
+
+// Collects the frames of one event stream; waitFor resolves with the first event of a type
+const openEvents = (port, sessionId, token) => {
+  const received = [];
+  const req = http.get(`http://127.0.0.1:${port}/api/sessions/${sessionId}/events?token=${token}`);
+  const waitFor = (type) =>
+    new Promise((resolve) => {
+      const check = () => {
+        const match = received.find((evt) => evt.type === type);
+        if (match) return resolve(match);
+        setTimeout(check, 10);
+      };
+      check();
+    });
+  req.on('response', (res) => {
+    assert.strictEqual(res.headers['content-type'], 'text/event-stream');
+    res.setEncoding('utf8');
+    let buffer = '';
+    res.on('data', (chunk) => {
+      buffer += chunk;
+      const frames = buffer.split('\n\n');
+      buffer = frames.pop();
+      for (const frame of frames) {
+        const data = frame.split('\n').find((line) => line.startsWith('data: '));
+        if (data) received.push(JSON.parse(data.slice(6)));
+      }
+    });
+  });
+  return { received, waitFor, close: () => req.destroy() };
+};
+
+test('event stream pushes a snapshot and typed session events', async () => {
+  const start = await request(app).post('/api/session/start').send({ apiKey: 'sk-test', name: 'Events' });
+  const { sessionId, viewerToken } = start.body;
+  const api = as(start.body.facilitatorToken);
+  const server = http.createServer(app).listen(0);
+  const { received, waitFor, close } = openEvents(server.address().port, sessionId, viewerToken);
+
+  const snapshot = await waitFor('snapshot');
+  assert.strictEqual(snapshot.status.sessionId, sessionId);
+
+  await api.post(`/api/sessions/${sessionId}/config`).send({ phase: 'KPIs' });
+  const configChanged = await waitFor('config_changed');
+  assert.strictEqual(configChanged.config.phase, 'KPIs');
+
+  await api
+    .post(`/api/sessions/${sessionId}/audio`)
+    .attach('audio', silenceWav(), { filename: 'chunk.wav', contentType: 'audio/wav' });
+  await api.post(`/api/sessions/${sessionId}/generate`);
+  const created = await waitFor('image_created');
+  assert.ok(created.image.url);
+  assert.ok(received.some((evt) => evt.type === 'generation_started'));
+  assert.ok(received.some((evt) => evt.type === 'summary_updated'));
+
+  await api.post(`/api/sessions/${sessionId}/end`);
+  await waitFor('session_ended');
+  close();
+  server.close();
+});
+
+test('transcript, glossary, prompts, redaction names and the review stay with the facilitator', async (t) => {
+  const start = await request(app)
+    .post('/api/session/start')
+    .send({ apiKey: 'sk-test', redactionNames: ['mock'], redactionKeep: 'original' });
+  const { sessionId, viewerToken, facilitatorToken } = start.body;
+  const api = as(facilitatorToken);
+  const viewer = as(viewerToken);
+  const base = `/api/sessions/${sessionId}`;
+  await api.post(`${base}/config`).send({ reviewEnabled: true });
+  const server = http.createServer(app).listen(0);
+  const { port } = server.address();
+  const streams = [];
+  const listen = (token) => streams[streams.push(openEvents(port, sessionId, token)) - 1];
+  // a failed assertion must not leave the streams holding the test process open
+  t.after(() => {
+    streams.forEach((stream) => stream.close());
+    server.close();
+  });
+  const desk = listen(facilitatorToken);
+  const screen = listen(viewerToken);
+  await Promise.all([desk.waitFor('snapshot'), screen.waitFor('snapshot')]);
+
+  await api.post(`${base}/config`).send({ redactionNames: ['mock', 'Layla Haddad'] });
+  const changed = await screen.waitFor('config_changed');
+  assert.deepStrictEqual(changed.config.redactionNames, []);
+  assert.deepStrictEqual((await desk.waitFor('config_changed')).config.redactionNames, ['mock', 'Layla Haddad']);
+  await api.post(`${base}/glossary`).send({ term: 'Riyadh Season', variants: ['riyadh seasons'] });
+  await api
+    .post(`${base}/audio`)
+    .attach('audio', silenceWav(), { filename: 'chunk.wav', contentType: 'audio/wav' });
+  await api.post(`${base}/generate`);
+  await desk.waitFor('glossary_updated');
+  assert.strictEqual((await desk.waitFor('transcript_added')).entry.original, 'mock transcript');
+  await desk.waitFor('review_pending');
+  assert.ok(desk.received.some((evt) => evt.type === 'redactions_logged'));
+  // the screen still follows the session, just not its text
+  await screen.waitFor('generation_started');
+  const hidden = ['transcript_added', 'transcript_updated', 'glossary_updated', 'review_pending', 'redactions_logged'];
+  assert.ok(!screen.received.some((evt) => hidden.includes(evt.type)));
+  assert.ok(!JSON.stringify(screen.received).includes('[NAME] transcript'));
+
+  const status = (await viewer.get(`${base}/status`)).body;
+  assert.deepStrictEqual(status.transcripts, []);
+  assert.deepStrictEqual(status.glossary, []);
+  assert.strictEqual(status.promptVersions, null);
+  assert.strictEqual(status.pendingReview, null);
+  assert.deepStrictEqual(status.redactionLog, []);
+  assert.deepStrictEqual(status.config.redactionNames, []);
+  assert.ok(!JSON.stringify(status).includes('[NAME] transcript'));
+  const full = (await api.get(`${base}/status`)).body;
+  assert.strictEqual(full.transcripts[0].original, 'mock transcript');
+  assert.ok(full.glossary.some((term) => term.term === 'Riyadh Season'));
+  assert.ok(full.promptVersions);
+  assert.deepStrictEqual(full.config.redactionNames, ['mock', 'Layla Haddad']);
+  assert.ok(full.pendingReview);
+
+  // a stream opened later starts from the same projection
+  const snapshot = await listen(viewerToken).waitFor('snapshot');
+  assert.deepStrictEqual(snapshot.status.transcripts, []);
+  assert.ok(!JSON.stringify(snapshot).includes('mock transcript'));
+  assert.ok(!JSON.stringify(snapshot).includes('[NAME] transcript'));
+  assert.ok(!JSON.stringify(screen.received).includes('Layla Haddad'));
+
+  await api.post(`${base}/end`);
+});
+
+test('regenerate, vary and refine an image with lineage', async () => {
+  const start = await request(app).post('/api/session/start').send({ apiKey: 'sk-test' });
+  const api = as(start.body.facilitatorToken);
+  const base = `/api/sessions/${start.body.sessionId}`;
+  await api
+    .post(`${base}/audio`)
+    .attach('audio', silenceWav(), { filename: 'chunk.wav', contentType: 'audio/wav' });
+  const gen = await api.post(`${base}/generate`);
+  const parent = gen.body.image;
+
+  const regen = await api
+    .post(`${base}/images/${parent.id}/regenerate`)
+    .send({ prompt: 'edited prompt' });
+  assert.strictEqual(regen.status, 200);
+  assert.strictEqual(regen.body.images[0].parentId, parent.id);
+  assert.strictEqual(regen.body.images[0].prompt, 'edited prompt');
+
+  const variations = await api
+    .post(`${base}/images/${parent.id}/regenerate`)
+    .send({ mode: 'variations', count: 3 });
+  assert.strictEqual(variations.body.images.length, 3);
+  assert.ok(variations.body.images.every((img) => img.origin === 'variation'));
+
+  const missingInstruction = await api
+    .post(`${base}/images/${parent.id}/regenerate`)
+    .send({ mode: 'refine' });
+  assert.strictEqual(missingInstruction.status, 400);
+
+  const refined = await api
+    .post(`${base}/images/${parent.id}/regenerate`)
+    .send({ mode: 'refine', instruction: 'make it warmer, add a bridge' });
+  assert.strictEqual(refined.status, 200);
+  assert.strictEqual(refined.body.images[0].instruction, 'make it warmer, add a bridge');
+
+  const status = await api.get(`${base}/status`);
+  assert.strictEqual(status.body.images.length, 6);
+
+  await api.post(`${base}/end`);
+});
+
+test('status carries the newest images and older ones page in from the full history', async () => {
+  const start = await request(app).post('/api/session/start').send({ apiKey: 'sk-test' });
+  const api = as(start.body.facilitatorToken);
+  const base = `/api/sessions/${start.body.sessionId}`;
+  await api
+    .post(`${base}/audio`)
+    .attach('audio', silenceWav(), { filename: 'chunk.wav', contentType: 'audio/wav' });
+  const first = (await api.post(`${base}/generate`)).body.image;
+  await api.patch(`${base}/images/${first.id}`).send({ pinned: true });
+  for (let i = 0; i < 6; i += 1) {
+    await api.post(`${base}/images/${first.id}/regenerate`).send({ mode: 'variations', count: 4 });
+  }
+
+  const status = await api.get(`${base}/status`);
+  assert.strictEqual(status.body.imageCount, 25);
+  // the 20 newest, plus the pinned first image
+  assert.strictEqual(status.body.images.length, 21);
+  assert.strictEqual(status.body.images.at(-1).id, first.id);
+
+  const oldest = status.body.images[19];
+  const earlier = await api.get(`${base}/images?before=${oldest.id}&limit=3`);
+  assert.strictEqual(earlier.body.images.length, 3);
+  assert.strictEqual(earlier.body.remaining, 2);
+  const rest = await api.get(`${base}/images?before=${earlier.body.images[2].id}`);
+  assert.strictEqual(rest.body.images.length, 2);
+  assert.strictEqual(rest.body.images[1].id, first.id);
+  assert.strictEqual(rest.body.remaining, 0);
+
+  // exports cover the whole session, not just what the console shows
+  const html = await api.post(`${base}/export`).send({ format: 'html' });
+  assert.match(html.text, /25 images across/);
+  assert.strictEqual(html.text.split('<figure').length - 1, 25);
+
+  await api.post(`${base}/end`);
+});
+
+test('participants vote, caption and answer the survey with the participant token', async () => {
+  const start = await request(app).post('/api/session/start').send({ apiKey: 'sk-test' });
+  const { sessionId, participantToken } = start.body;
+  const api = as(start.body.facilitatorToken);
+  const phone = as(participantToken);
+  const base = `/api/sessions/${sessionId}`;
+  await api.post(`${base}/config`).send({ redactionNames: ['Layla'] });
+  await api
+    .post(`${base}/audio`)
+    .attach('audio', silenceWav(), { filename: 'chunk.wav', contentType: 'audio/wav' });
+  const { image } = (await api.post(`${base}/generate`)).body;
+  const participantId = 'phone-1234';
+
+  const page = await phone.get(`${base}/feedback?participant=${participantId}`);
+  assert.strictEqual(page.body.images[0].id, image.id);
+  assert.strictEqual(page.body.images[0].url, undefined);
+  assert.strictEqual(page.body.surveyOpen, false);
+  assert.strictEqual((await phone.get(`${base}/feedback/images/${image.id}`)).body.url, image.url);
+
+  await phone.post(`${base}/feedback/vote`).send({ imageId: image.id, participantId, thumb: 'up' });
+  const scored = await phone.post(`${base}/feedback/vote`).send({ imageId: image.id, participantId, score: 4 });
+  assert.deepStrictEqual([scored.body.feedback.up, scored.body.feedback.averageScore], [1, 4]);
+  const caption = await phone
+    .post(`${base}/feedback/caption`)
+    .send({ imageId: image.id, participantId, text: 'Layla builds the bridge' });
+  assert.strictEqual(caption.body.feedback.captions[0].text, '[NAME] builds the bridge');
+  const missing = await phone.post(`${base}/feedback/vote`).send({ imageId: 'nope', participantId, thumb: 'up' });
+  assert.strictEqual(missing.status, 404);
+  const invalid = await phone.post(`${base}/feedback/vote`).send({ imageId: image.id, participantId, score: 9 });
+  assert.strictEqual(invalid.status, 400);
+
+  const early = await phone.post(`${base}/feedback/survey`).send({ participantId, answers: { helpful: 5 } });
+  assert.strictEqual(early.status, 409);
+  assert.strictEqual((await phone.patch(`${base}/feedback`).send({ surveyOpen: true })).status, 403);
+  await api.patch(`${base}/feedback`).send({ surveyOpen: true });
+  const answered = await phone.post(`${base}/feedback/survey`).send({ participantId, answers: { helpful: 5 } });
+  assert.strictEqual(answered.status, 200);
+
+  const status = await api.get(`${base}/status`);
+  assert.strictEqual(status.body.images[0].feedback.scoreCount, 1);
+  assert.strictEqual(status.body.survey.responses, 1);
+  const mine = (await phone.get(`${base}/feedback?participant=${participantId}`)).body.mine;
+  assert.deepStrictEqual(mine, { votes: { [image.id]: { thumb: 'up', score: 4 } }, surveyAnswered: true });
+
+  // the participant token only reaches the participant page
+  for (const path of ['/status', '/events', '/images', '/themes', '/access', '/feedback/qr.svg']) {
+    assert.strictEqual((await phone.get(`${base}${path}`)).status, 403, path);
+  }
+  assert.strictEqual((await phone.post(`${base}/export`)).status, 403);
+  assert.strictEqual((await phone.patch(`${base}/feedback`).send({ surveyOpen: false })).status, 403);
+
+  // the projector's QR code hands out the participant token, not the viewer token
+  const screen = as(start.body.viewerToken);
+  const qr = await screen.get(`${base}/feedback/qr.svg?base=${encodeURIComponent('http://192.168.1.20:5173')}`);
+  assert.strictEqual(qr.headers['content-type'], 'image/svg+xml; charset=utf-8');
+  const link = new URLSearchParams({ view: 'participant', session: sessionId, token: participantToken });
+  assert.ok(qr.body.toString() === renderQrSvg(`http://192.168.1.20:5173/?${link}`));
+  assert.strictEqual((await screen.get(`${base}/feedback/qr.svg?base=javascript:alert(1)`)).status, 400);
+
+  const html = await api.post(`${base}/export`).send({ format: 'html' });
+  assert.match(html.text, /Participants<\/span> 1 up • 0 down • 4\/5 from 1 score/);
+  assert.match(html.text, /Participant survey \(1 response\)/);
+  await api.post(`${base}/end`);
+});
+
+test('themes are tracked across the session and images can be drawn for one theme', async () => {
+  const start = await request(app).post('/api/session/start').send({ apiKey: 'sk-test' });
+  const api = as(start.body.facilitatorToken);
+  const viewer = as(start.body.viewerToken);
+  const base = `/api/sessions/${start.body.sessionId}`;
+  await api
+    .post(`${base}/audio`)
+    .attach('audio', silenceWav(), { filename: 'chunk.wav', contentType: 'audio/wav' });
+  const { image } = (await api.post(`${base}/generate`)).body;
+
+  // too little talk for the background pass, so the refresh button reads it
+  assert.deepStrictEqual((await viewer.get(`${base}/themes`)).body.themes, []);
+  assert.strictEqual((await viewer.post(`${base}/themes/refresh`)).status, 403);
+  const refreshed = await api.post(`${base}/themes/refresh`);
+  assert.strictEqual(refreshed.status, 200);
+  // the mock model's reply is not JSON, so the stretch is filed under its most frequent words
+  const [theme] = refreshed.body.themes;
+  assert.strictEqual(theme.label, 'mock & transcript');
+  assert.deepStrictEqual(theme.imageIds, [image.id]);
+  assert.strictEqual((await api.post(`${base}/themes/refresh`)).status, 400);
+
+  const themed = await api.post(`${base}/generate`).send({ themeId: theme.id });
+  assert.strictEqual(themed.body.image.themeId, theme.id);
+  assert.deepStrictEqual(themed.body.image.transcriptSpan, { from: theme.firstSeen, to: theme.lastSeen });
+  const unknown = await api.post(`${base}/generate`).send({ themeId: 'theme-9' });
+  assert.strictEqual(unknown.status, 400);
+  assert.strictEqual(unknown.body.error, 'Theme not found');
+
+  const listed = (await viewer.get(`${base}/themes`)).body;
+  assert.deepStrictEqual(listed.themes[0].imageIds, [themed.body.image.id, image.id]);
+  await api.post(`${base}/end`);
+});
+
+test('review step holds drafts until approved, edited or discarded', async () => {
+  const start = await request(app).post('/api/session/start').send({ apiKey: 'sk-test' });
+  const api = as(start.body.facilitatorToken);
+  const base = `/api/sessions/${start.body.sessionId}`;
+  await api.post(`${base}/config`).send({ reviewEnabled: true, reviewAutoRuns: 'skip' });
+  await api
+    .post(`${base}/audio`)
+    .attach('audio', silenceWav(), { filename: 'chunk.wav', contentType: 'audio/wav' });
+
+  const held = await api.post(`${base}/generate`);
+  assert.strictEqual(held.status, 200);
+  assert.ok(held.body.review.id);
+  assert.strictEqual(held.body.image, undefined);
+  let status = await api.get(`${base}/status`);
+  assert.strictEqual(status.body.pendingReview.id, held.body.review.id);
+  assert.strictEqual(status.body.images.length, 0);
+
+  const approved = await api
+    .post(`${base}/review/${held.body.review.id}/approve`)
+    .send({ prompt: 'a facilitator-edited prompt' });
+  assert.strictEqual(approved.status, 200);
+  assert.strictEqual(approved.body.image.prompt, 'a facilitator-edited prompt');
+
+  const again = await api.post(`${base}/generate`);
+  const discarded = await api.post(`${base}/review/${again.body.review.id}/discard`);
+  assert.strictEqual(discarded.status, 200);
+  const stale = await api.post(`${base}/review/${again.body.review.id}/approve`);
+  assert.strictEqual(stale.status, 404);
+
+  // auto-triggered runs skip review when configured to
+  const auto = await api.post(`${base}/generate`).send({ trigger: 'auto' });
+  assert.ok(auto.body.image);
+
+  status = await api.get(`${base}/status`);
+  assert.strictEqual(status.body.pendingReview, null);
+  assert.strictEqual(status.body.images.length, 2);
+
+  await api.post(`${base}/end`);
+});
+
+test('a queued auto run keeps its trigger and the lock, and is dropped while a draft awaits review', async () => {
+  const start = await request(app).post('/api/session/start').send({ apiKey: 'sk-test' });
+  const api = as(start.body.facilitatorToken);
+  const base = `/api/sessions/${start.body.sessionId}`;
+  await api.post(`${base}/config`).send({ reviewEnabled: true, reviewAutoRuns: 'skip' });
+  await api
+    .post(`${base}/audio`)
+    .attach('audio', silenceWav(), { filename: 'chunk.wav', contentType: 'audio/wav' });
+  const waitForIdle = async () => {
+    let status = await api.get(`${base}/status`);
+    for (let i = 0; i < 50 && status.body.generationInProgress; i += 1) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      status = await api.get(`${base}/status`);
+    }
+    return status;
+  };
+
+  process.env.AII_MOCK_LATENCY_MS = '100';
+  try {
+    // the manual run ends with a draft held for review, so the auto run queued behind it is dropped
+    const manual = api.post(`${base}/generate`).then((res) => res);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    const dropped = await api.post(`${base}/generate`).send({ trigger: 'auto' });
+    assert.strictEqual(dropped.body.queued, true);
+    const { review } = (await manual).body;
+    assert.ok(review);
+    let status = await waitForIdle();
+    assert.strictEqual(status.body.pendingTrigger, false);
+    assert.strictEqual(status.body.images.length, 0);
+    assert.strictEqual(status.body.pendingReview.id, review.id);
+
+    // approving clears the gate, so an auto run queued behind the approval goes ahead
+    const approving = api.post(`${base}/review/${review.id}/approve`).then((res) => res);
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    const queued = await api.post(`${base}/generate`).send({ trigger: 'auto' });
+    assert.strictEqual(queued.body.queued, true);
+    assert.ok((await approving).body.image);
+    // the queued run holds the lock until it finishes
+    status = await api.get(`${base}/status`);
+    assert.strictEqual(status.body.generationInProgress, true);
+    assert.strictEqual(status.body.pendingTrigger, false);
+    status = await waitForIdle();
+    // it ran as an auto run, so it skipped review and drew straight away
+    assert.strictEqual(status.body.images.length, 2);
+    assert.strictEqual(status.body.pendingReview, null);
+  } finally {
+    delete process.env.AII_MOCK_LATENCY_MS;
+  }
+
+  await api.post(`${base}/end`);
+});
+
+test('a review timeout that expires during another run approves the draft once that run is over', async () => {
+  const start = await request(app).post('/api/session/start').send({ apiKey: 'sk-test' });
+  const api = as(start.body.facilitatorToken);
+  const base = `/api/sessions/${start.body.sessionId}`;
+  await api.post(`${base}/config`).send({ reviewEnabled: true, reviewAutoRuns: 'skip', reviewTimeoutSeconds: 0.15 });
+  await api
+    .post(`${base}/audio`)
+    .attach('audio', silenceWav(), { filename: 'chunk.wav', contentType: 'audio/wav' });
+
+  process.env.AII_MOCK_LATENCY_MS = '100';
+  try {
+    const held = await api.post(`${base}/generate`);
+    assert.ok(held.body.review);
+    // an auto run skips review and is still drawing when the draft's timeout comes due
+    const auto = await api.post(`${base}/generate`).send({ trigger: 'auto' });
+    assert.ok(auto.body.image);
+    let status = await api.get(`${base}/status`);
+    for (let i = 0; i < 150 && (status.body.pendingReview || status.body.generationInProgress); i += 1) {
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      status = await api.get(`${base}/status`);
+    }
+    assert.strictEqual(status.body.pendingReview, null);
+    assert.strictEqual(status.body.images.length, 2);
+    assert.ok(status.body.images.some((img) => img.prompt === held.body.review.prompt));
+  } finally {
+    delete process.env.AII_MOCK_LATENCY_MS;
+  }
+
+  await api.post(`${base}/end`);
+});
+
+test('keeps the full transcript when opted in and exports it', async () => {
+  const start = await request(app).post('/api/session/start').send({ apiKey: 'sk-test', keepFullTranscript: true });
+  const api = as(start.body.facilitatorToken);
+  const base = `/api/sessions/${start.body.sessionId}`;
+  assert.strictEqual(start.body.config.keepFullTranscript, true);
+  await api
+    .post(`${base}/audio`)
+    .attach('audio', silenceWav(), { filename: 'chunk.wav', contentType: 'audio/wav' });
+  const gen = await api.post(`${base}/generate`);
+  assert.ok(gen.body.image.transcriptSpan);
+
+  const json = await api.get(`${base}/transcript?format=json`);
+  assert.strictEqual(json.status, 200);
+  assert.strictEqual(json.body.complete, true);
+  assert.strictEqual(json.body.segments[0].text, 'mock transcript');
+  assert.deepStrictEqual(json.body.images[0].cues, [1]);
+
+  const srt = await api.get(`${base}/transcript?format=srt`);
+  assert.match(srt.text, /^1\n\d{2}:\d{2}:\d{2},\d{3} --> /);
+  const bad = await api.get(`${base}/transcript?format=docx`);
+  assert.strictEqual(bad.status, 400);
+
+  await api.post(`${base}/end`);
+});
+
+test('translates segments when enabled and exports both languages', async () => {
+  const start = await request(app).post('/api/session/start').send({ apiKey: 'sk-test', translation: true });
+  const api = as(start.body.facilitatorToken);
+  const base = `/api/sessions/${start.body.sessionId}`;
+  assert.strictEqual(start.body.config.translation, true);
+  const audio = await api
+    .post(`${base}/audio`)
+    .attach('audio', silenceWav(), { filename: 'chunk.wav', contentType: 'audio/wav' });
+  assert.deepStrictEqual(audio.body.translation, { language: 'ar', text: 'mock summary or prompt' });
+
+  const status = await api.get(`${base}/status`);
+  assert.strictEqual(status.body.transcripts[0].language, 'en');
+
+  const both = await api.get(`${base}/transcript?format=srt&languages=both`);
+  assert.match(both.text, /mock transcript\nmock summary or prompt\n/);
+  const bad = await api.get(`${base}/transcript?format=srt&languages=fr`);
+  assert.strictEqual(bad.status, 400);
+
+  await api.post(`${base}/end`);
+});
+
+test('redacts listed names before storage and logs masked previews', async () => {
+  const start = await request(app)
+    .post('/api/session/start')
+    .send({ apiKey: 'sk-test', keepFullTranscript: true, redactionNames: ['mock'], redactionKeep: 'original' });
+  const api = as(start.body.facilitatorToken);
+  const base = `/api/sessions/${start.body.sessionId}`;
+  assert.deepStrictEqual(start.body.config.redactionNames, ['mock']);
+  const audio = await api
+    .post(`${base}/audio`)
+    .attach('audio', silenceWav(), { filename: 'chunk.wav', contentType: 'audio/wav' });
+  assert.strictEqual(audio.body.text, '[NAME] transcript');
+
+  const status = await api.get(`${base}/status`);
+  assert.strictEqual(status.body.transcripts[0].original, 'mock transcript');
+  assert.strictEqual(status.body.redactionLog[0].rule, 'name');
+  const log = await api.get(`${base}/redactions`);
+  assert.strictEqual(log.body.entries[0].preview, 'm•••');
+  assert.deepStrictEqual(log.body.rules.map((r) => r.id), ['email', 'phone', 'saudi_id']);
+
+  const txt = await api.get(`${base}/transcript?format=txt`);
+  assert.ok(txt.text.includes('[NAME] transcript') && !txt.text.includes('mock transcript'));
+
+  await api.post(`${base}/config`).send({ redactionKeep: 'redacted' });
+  const after = await api.get(`${base}/status`);
+  assert.strictEqual(after.body.transcripts[0].original, undefined);
+
+  await api.post(`${base}/end`);
+});
+
+test('meters usage and pauses auto generation at the budget cap', async () => {
+  const start = await request(app)
+    .post('/api/session/start')
+    .send({ apiKey: 'sk-test', autoEnabled: true, autoWordThreshold: 1, autoMinNewWords: 1 });
+  const api = as(start.body.facilitatorToken);
+  const base = `/api/sessions/${start.body.sessionId}`;
+  await api.post(`${base}/config`).send({ budgetCap: 0.0001 });
+  await api
+    .post(`${base}/audio`)
+    .attach('audio', silenceWav(), { filename: 'chunk.wav', contentType: 'audio/wav' });
+
+  const status = await api.get(`${base}/status`);
+  const { usage, schedule } = status.body;
+  assert.strictEqual(usage.byKind.transcription.calls, 1);
+  assert.strictEqual(usage.byKind.transcription.audioSeconds, 2.5);
+  assert.ok(usage.cost > 0);
+  assert.strictEqual(usage.budgetReached, true);
+  assert.strictEqual(schedule.lastDecision.because, 'budget cap reached');
+  assert.strictEqual(status.body.images.length, 0);
+
+  const manual = await api.post(`${base}/generate`);
+  assert.strictEqual(manual.status, 200);
+  const after = await api.get(`${base}/status`);
+  assert.strictEqual(after.body.usage.byKind.image.images, 1);
+  assert.strictEqual(after.body.usage.byKind.chat.inputTokens, 400);
+
+  const raised = await api.post(`${base}/config`).send({ budgetCap: 5 });
+  assert.strictEqual(raised.body.config.budgetCap, 5);
+  const resumed = await api.get(`${base}/status`);
+  assert.strictEqual(resumed.body.usage.budgetReached, false);
+
+  await api.post(`${base}/end`);
+});
+
+test('labels transcript entries with renameable speakers', async () => {
+  const start = await request(app).post('/api/session/start').send({ apiKey: 'sk-test', diarization: true });
+  const api = as(start.body.facilitatorToken);
+  const base = `/api/sessions/${start.body.sessionId}`;
+  for (let i = 0; i < 2; i += 1) {
+    const audio = await api
+      .post(`${base}/audio`)
+      .attach('audio', silenceWav(), { filename: 'chunk.wav', contentType: 'audio/wav' });
+    assert.strictEqual(audio.body.speaker, 'S1');
+  }
+
+  const renamed = await api.patch(`${base}/speakers/S1`).send({ label: 'Amal' });
+  assert.strictEqual(renamed.status, 200);
+  const missing = await api.patch(`${base}/speakers/S9`).send({ label: 'Nobody' });
+  assert.strictEqual(missing.status, 404);
+
+  const status = await api.get(`${base}/status`);
+  assert.deepStrictEqual(status.body.speakers, [{ id: 'S1', label: 'Amal', talkMs: 5000 }]);
+  assert.ok(status.body.transcripts.every((entry) => entry.speaker === 'S1'));
+
+  const vtt = await api.get(`${base}/transcript?format=vtt`);
+  assert.match(vtt.text, /<v Amal>mock transcript/);
+
+  await api.post(`${base}/end`);
+});
+
+test('glossary CRUD, CSV import/export and transcript correction', async () => {
+  const start = await request(app).post('/api/session/start').send({ apiKey: 'sk-test' });
+  const api = as(start.body.facilitatorToken);
+  const base = `/api/sessions/${start.body.sessionId}`;
+  const seeded = await api.get(`${base}/glossary`);
+  assert.ok(seeded.body.terms.some((t) => t.term === 'Vision 2030'));
+
+  const created = await api
+    .post(`${base}/glossary`)
+    .send({ term: 'Mock Center', variants: ['mock transcript'] });
+  assert.strictEqual(created.status, 201);
+  const duplicate = await api.post(`${base}/glossary`).send({ term: 'mock center' });
+  assert.strictEqual(duplicate.status, 409);
+
+  const audio = await api
+    .post(`${base}/audio`)
+    .attach('audio', silenceWav(), { filename: 'chunk.wav', contentType: 'audio/wav' });
+  assert.strictEqual(audio.body.text, 'Mock Center');
+
+  const csv = await api.get(`${base}/glossary/export`);
+  assert.match(csv.text, /^term,arabic,variants\n/);
+  assert.match(csv.text, /Mock Center,,mock transcript/);
+
+  const replaced = await api
+    .post(`${base}/glossary/import`)
+    .send({ csv: 'term,arabic,variants\nRiyadh,الرياض,Riad\n', mode: 'replace' });
+  assert.deepStrictEqual(replaced.body.terms.map((t) => t.term), ['Riyadh']);
+  const removed = await api.delete(`${base}/glossary/${replaced.body.terms[0].id}`);
+  assert.strictEqual(removed.status, 200);
+
+  await api.post(`${base}/end`);
+});
+
+test('workshop templates drive the phase list', async () => {
+  const list = await request(app).get('/api/templates');
+  assert.ok(list.body.templates.some((t) => t.id === 'design-sprint'));
+
+  const start = await request(app).post('/api/session/start').send({ apiKey: 'sk-test', templateId: 'design-sprint' });
+  const api = as(start.body.facilitatorToken);
+  const base = `/api/sessions/${start.body.sessionId}`;
+  assert.strictEqual(start.body.config.phase, 'Understand');
+  assert.strictEqual(start.body.config.workshopType, 'Design Sprint');
+
+  const config = await api.post(`${base}/config`).send({ phase: 'Decide' });
+  assert.strictEqual(config.body.config.phase, 'Decide');
+  // phases from another template are not silently mapped to "Vision" any more
+  const unknown = await api.post(`${base}/config`).send({ phase: 'KPIs' });
+  assert.strictEqual(unknown.body.config.phase, 'Understand');
+
+  const status = await api.get(`${base}/status`);
+  assert.strictEqual(status.body.template.id, 'design-sprint');
+
+  await api.post(`${base}/end`);
+});
+
+test('prompt templates can be edited, previewed and rolled back', async () => {
+  const start = await request(app).post('/api/session/start').send({ apiKey: 'sk-test' });
+  const api = as(start.body.facilitatorToken);
+  const base = `/api/sessions/${start.body.sessionId}`;
+  await api
+    .post(`${base}/audio`)
+    .attach('audio', silenceWav(), { filename: 'chunk.wav', contentType: 'audio/wav' });
+
+  const list = await api.get(`${base}/prompts`);
+  assert.deepStrictEqual(list.body.prompts.map((p) => p.name), [
+    'summary',
+    'illustration',
+    'polish',
+    'translation',
+    'redaction',
+    'themes',
+  ]);
+
+  const invalid = await api.put(`${base}/prompts/summary`).send({ system: 'S', user: 'no input' });
+  assert.strictEqual(invalid.status, 400);
+  const preview = await api
+    .post(`${base}/prompts/summary/preview`)
+    .send({ system: 'Summarise.', user: 'Phase {phase}, 2 bullets:\n{transcript}' });
+  assert.strictEqual(preview.status, 200);
+  assert.strictEqual(preview.body.version, null);
+  assert.match(preview.body.user, /^Phase Vision, 2 bullets:\n/);
+
+  const saved = await api
+    .put(`${base}/prompts/summary`)
+    .send({ system: 'Summarise.', user: 'Phase {phase}, 2 bullets:\n{transcript}' });
+  assert.strictEqual(saved.body.version.version, 2);
+  const gen = await api.post(`${base}/generate`);
+  assert.deepStrictEqual(gen.body.image.promptVersions, { summary: 2, illustration: 1 });
+
+  const rolled = await api.post(`${base}/prompts/summary/rollback`).send({ version: 1 });
+  assert.strictEqual(rolled.status, 200);
+  const status = await api.get(`${base}/status`);
+  assert.strictEqual(status.body.promptVersions.summary, 1);
+  const missing = await api.post(`${base}/prompts/summary/rollback`).send({ version: 7 });
+  assert.strictEqual(missing.status, 404);
+
+  await api.post(`${base}/end`);
+});
+
+test('locked style anchors later images to the first approved one', async () => {
+  const styles = await request(app).get('/api/styles');
+  assert.ok(styles.body.styles.some((s) => s.id === 'line-art' && s.builtIn));
+  const created = await request(app)
+    .post('/api/styles')
+    .send({ name: 'Harbour', description: 'Watercolour harbour scenes', palette: ['#123456'], mood: 'calm' });
+  assert.strictEqual(created.status, 201);
+
+  const start = await request(app)
+    .post('/api/session/start')
+    .send({ apiKey: 'sk-test', styleId: created.body.style.id, styleLocked: true });
+  const api = as(start.body.facilitatorToken);
+  const base = `/api/sessions/${start.body.sessionId}`;
+  assert.strictEqual(start.body.config.stylePreset, 'Watercolour harbour scenes');
+  await api
+    .post(`${base}/audio`)
+    .attach('audio', silenceWav(), { filename: 'chunk.wav', contentType: 'audio/wav' });
+
+  const first = await api.post(`${base}/generate`);
+  assert.strictEqual(first.body.image.styleId, created.body.style.id);
+  let status = await api.get(`${base}/status`);
+  assert.strictEqual(status.body.styleAnchorId, first.body.image.id);
+  await api.post(`${base}/generate`);
+  status = await api.get(`${base}/status`);
+  assert.strictEqual(status.body.styleAnchorId, first.body.image.id);
+
+  // switching style releases the anchor
+  const config = await api.post(`${base}/config`).send({ styleId: null });
+  assert.strictEqual(config.body.config.styleId, null);
+  status = await api.get(`${base}/status`);
+  assert.strictEqual(status.body.styleAnchorId, null);
+
+  await api.post(`${base}/end`);
+  await api.delete(`/api/styles/${created.body.style.id}`);
+});
+
+test('server-side scheduler runs auto generation from transcript activity', async () => {
+  const start = await request(app)
+    .post('/api/session/start')
+    .send({ apiKey: 'sk-test', autoEnabled: true, autoWordThreshold: 4, autoMinNewWords: 2 });
+  const api = as(start.body.facilitatorToken);
+  const base = `/api/sessions/${start.body.sessionId}`;
+  let status = await api.get(`${base}/status`);
+  assert.strictEqual(status.body.schedule.enabled, true);
+  assert.strictEqual(status.body.schedule.nextRun.reason, 'cadence');
+  assert.strictEqual(status.body.schedule.nextRun.willSkip, true);
+
+  for (let i = 0; i < 2; i += 1) {
+    await api
+      .post(`${base}/audio`)
+      .attach('audio', silenceWav(), { filename: 'chunk.wav', contentType: 'audio/wav' });
+  }
+  for (let i = 0; i < 50 && status.body.images.length === 0; i += 1) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    status = await api.get(`${base}/status`);
+  }
+  assert.strictEqual(status.body.images.length, 1);
+  assert.strictEqual(status.body.schedule.lastDecision.reason, 'words');
+  assert.strictEqual(status.body.schedule.wordsSinceRun, 0);
+
+  const off = await api.post(`${base}/config`).send({ autoEnabled: false });
+  assert.strictEqual(off.body.config.autoEnabled, false);
+  status = await api.get(`${base}/status`);
+  assert.strictEqual(status.body.schedule.nextRun, null);
+
+  await api.post(`${base}/end`);
+});
+
+test('batch import turns a recording into a time-ordered gallery', async () => {
+  const started = await request(app)
+    .post('/api/batch')
+    .field('apiKey', 'sk-test')
+    .field('name', 'Rehearsal')
+    .field('windowMinutes', '1')
+    .attach('audio', silenceWav(150000), { filename: 'rehearsal.wav', contentType: 'audio/wav' });
+  const api = as(started.body.facilitatorToken);
+  assert.strictEqual(started.status, 202);
+  assert.strictEqual(started.body.job.split, 'time');
+  const base = `/api/sessions/${started.body.sessionId}`;
+
+  let job = started.body.job;
+  for (let i = 0; i < 100 && !['done', 'failed', 'cancelled'].includes(job.status); i += 1) {
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    job = (await api.get(`${base}/batch`)).body.job;
+  }
+  assert.strictEqual(job.status, 'done');
+  assert.strictEqual(job.durationMs, 150000);
+  assert.deepStrictEqual(
+    job.windows.map((w) => [w.startMs, w.endMs, w.status]),
+    [
+      [0, 60000, 'done'],
+      [60000, 120000, 'done'],
+      [120000, 150000, 'done'],
+    ],
+  );
+
+  const status = await api.get(`${base}/status`);
+  assert.deepStrictEqual(
+    status.body.images.map((img) => img.recordingSpan.startMs),
+    [120000, 60000, 0],
+  );
+  assert.deepStrictEqual(
+    status.body.transcripts.map((t) => t.offsetMs),
+    [0, 60000, 120000],
+  );
+  const cancel = await api.post(`${base}/batch/cancel`);
+  assert.strictEqual(cancel.status, 400);
+
+  await api.post(`${base}/end`);
+});
+
+test('a long recording needs the facilitator token of a live session to import', async () => {
+  // 14 minutes at 16 kHz is past the 25 MB taken without a token
+  const recording = silenceWav(14 * 60 * 1000);
+  const upload = (token) => {
+    const req = request(app).post('/api/batch');
+    if (token) req.set('Authorization', `Bearer ${token}`);
+    return req
+      .field('apiKey', 'sk-test')
+      .field('windowMinutes', '30')
+      .attach('audio', recording, { filename: 'long.wav', contentType: 'audio/wav' });
+  };
+  const anonymous = await upload();
+  assert.strictEqual(anonymous.status, 413);
+  assert.strictEqual(anonymous.body.code, 'AUTH_REQUIRED');
+
+  const room = await request(app).post('/api/session/start').send({ apiKey: 'sk-test' });
+  const viewer = await upload(room.body.viewerToken);
+  assert.strictEqual(viewer.status, 401);
+  const imported = await upload(room.body.facilitatorToken);
+  assert.strictEqual(imported.status, 202);
+
+  await as(imported.body.facilitatorToken).post(`/api/sessions/${imported.body.sessionId}/end`);
+  await as(room.body.facilitatorToken).post(`/api/sessions/${room.body.sessionId}/end`);
 });
@@ -0,0 +1,205 @@
+// Named prompt templates used by the generation pipeline. {name} placeholders are filled per call;
+// a line holding only placeholders that render empty (an unused note) is dropped.
+const DEFAULT_PROMPTS = {
+  summary: {
+    label: 'Transcript summary',
+    variables: ['phase', 'workshopType', 'windowMinutes', 'focusNote', 'speakerNote', 'glossaryNote', 'transcript'],
+    required: ['transcript'],
+    system:
+      'You are assisting a live NCIM KSA strategy workshop. Summarise recent conversation into concise English bullet points suitable for an image prompt. Avoid names or sensitive data.',
+    user: [
+      'Workshop phase: {phase}.',
+      'Workshop type: {workshopType}.',
+      'Transcript (last {windowMinutes} minutes):',
+      '{focusNote}',
+      '{speakerNote}',
+      '{glossaryNote}',
+      '{transcript}',
+      '',
+      'Return 3-6 crisp bullet points (max 180 words total).',
+    ].join('\n'),
+  },
+  illustration: {
+    label: 'Illustration prompt',
+    variables: ['phase', 'workshopType', 'stylePreset', 'vocabularyNote', 'summary'],
+    required: ['summary'],
+    system:
+      'Turn the provided workshop summary into a vivid, projector-friendly illustration prompt. Use English even if the summary is Arabic. Keep it concise (max 90 words). Avoid text inside the image and avoid realistic faces.',
+    user: [
+      'Workshop phase: {phase}.',
+      'Style preset: {stylePreset}.',
+      '{vocabularyNote}',
+      'Summary bullets:',
+      '{summary}',
+      'Create one illustration prompt.',
+    ].join('\n'),
+  },
+  polish: {
+    label: 'Transcript polish',
+    variables: ['phase', 'workshopType', 'context', 'glossary', 'transcript'],
+    required: ['transcript'],
+    system:
+      'Clean up a short live transcript segment. Add punctuation and casing, fix obvious tokenisation issues, keep the original language (Arabic or English), and do not invent content.',
+    user: 'Recent context: {context}\n{glossary}\nRaw segment:\n{transcript}\n\nReturn only the cleaned segment.',
+  },
+  translation: {
+    label: 'Caption translation',
+    variables: ['phase', 'workshopType', 'sourceLanguage', 'targetLanguage', 'context', 'glossary', 'transcript'],
+    required: ['transcript'],
+    system:
+      'Translate one live workshop transcript segment between Arabic and English for on-screen captions. Keep the meaning and register, keep names and numbers as spoken, and do not add commentary.',
+    user: [
+      'Translate from {sourceLanguage} into {targetLanguage}.',
+      '{glossary}',
+      'Recent context: {context}',
+      'Segment:',
+      '{transcript}',
+      '',
+      'Return only the translation.',
+    ].join('\n'),
+  },
+  redaction: {
+    label: 'Sensitive data detector',
+    variables: ['transcript'],
+    required: ['transcript'],
+    system:
+      "Find personal data in a live workshop transcript segment (Arabic or English): people's names, phone numbers, ID or passport numbers, email and street addresses. Ignore organisations, places, job titles and public programmes such as Vision 2030.",
+    user: [
+      'Segment:',
+      '{transcript}',
+      '',
+      'Reply with a JSON array of the exact substrings to remove, or [] when there are none.',
+    ].join('\n'),
+  },
+  themes: {
+    label: 'Theme tracker',
+    variables: ['phase', 'workshopType', 'themes', 'glossaryNote', 'transcript'],
+    required: ['transcript'],
+    system:
+      'You track how ideas develop across a long workshop (Arabic and English). Name the main themes of a transcript stretch in short English labels, reusing a known label whenever the stretch returns to that theme. Avoid names or sensitive data.',
+    user: [
+      'Workshop phase: {phase}.',
+      'Workshop type: {workshopType}.',
+      'Themes so far: {themes}',
+      '{glossaryNote}',
+      'Transcript stretch:',
+      '{transcript}',
+      '',
+      'Reply with a JSON array of 1-4 themes, each',
+      '{"label": "2-5 words", "keywords": ["3-6 lower-case words"], "note": "one sentence on what was said"}.',
+    ].join('\n'),
+  },
+};
+
+const PROMPT_NAMES = Object.keys(DEFAULT_PROMPTS);
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+const placeholders = (text) => [...text.matchAll(PLACEHOLDER)].map((m) => m[1]);
+
+const renderText = (text, vars) =>
+  text
+    .split('\n')
+    .flatMap((line) => {
+      const rendered = line.replace(PLACEHOLDER, (match, name) => (name in vars ? String(vars[name] ?? '') : match));
+      const onlyPlaceholders = line.trim() && !line.replace(PLACEHOLDER, '').trim();
+      return onlyPlaceholders && !rendered.trim() ? [] : [rendered];
+    })
+    .join('\n');
+
+const validateTemplate = (name, { system, user }) => {
+  const spec = DEFAULT_PROMPTS[name];
+  if (typeof system !== 'string' || typeof user !== 'string' || !system.trim() || !user.trim()) {
+    throw new Error('Both system and user prompts are required');
+  }
+  const used = placeholders(`${system}\n${user}`);
+  const unknown = used.filter((v) => !spec.variables.includes(v));
+  if (unknown.length) {
+    throw new Error(`Unknown variable ${unknown.map((v) => `{${v}}`).join(', ')}`);
+  }
+  const missing = spec.required.filter((v) => !used.includes(v));
+  if (missing.length) {
+    throw new Error(`Template must use ${missing.map((v) => `{${v}}`).join(', ')}`);
+  }
+};
+
+// Every edit appends a version; rolling back only moves the active pointer, so a version number
+// always identifies the same text and images can record which one produced them
+const createPromptLibrary = (saved = null) => {
+  const templates = new Map(
+    PROMPT_NAMES.map((name) => {
+      const { system, user } = DEFAULT_PROMPTS[name];
+      const restored = saved?.[name];
+      return [
+        name,
+        restored?.versions?.length
+          ? { versions: restored.versions, active: restored.active }
+          : { versions: [{ version: 1, system, user, createdAt: null }], active: 1 },
+      ];
+    }),
+  );
+
+  const get = (name) => {
+    const template = templates.get(name);
+    if (!template) throw new Error(`Unknown prompt template: ${name}`);
+    return template;
+  };
+
+  const active = (name) => {
+    const template = get(name);
+    return template.versions.find((v) => v.version === template.active) || template.versions.at(-1);
+  };
+
+  const save = (name, { system, user }) => {
+    const template = get(name);
+    validateTemplate(name, { system, user });
+    const version = {
+      version: template.versions.at(-1).version + 1,
+      system,
+      user,
+      createdAt: new Date().toISOString(),
+    };
+    template.versions.push(version);
+    template.active = version.version;
+    return version;
+  };
+
+  const rollback = (name, version) => {
+    const template = get(name);
+    const target = template.versions.find((v) => v.version === Number(version));
+    if (!target) throw new Error('Version not found');
+    template.active = target.version;
+    return target;
+  };
+
+  // draft: optional unsaved { system, user } to preview instead of the active version
+  const render = (name, vars, draft = null) => {
+    const { system, user, version } = draft ? { ...draft, version: null } : active(name);
+    return {
+      version,
+      messages: [
+        { role: 'system', content: renderText(system, vars) },
+        { role: 'user', content: renderText(user, vars) },
+      ],
+    };
+  };
+
+  const list = () =>
+    PROMPT_NAMES.map((name) => ({
+      name,
+      label: DEFAULT_PROMPTS[name].label,
+      variables: DEFAULT_PROMPTS[name].variables,
+      active: get(name).active,
+      versions: get(name).versions,
+    }));
+
+  const activeVersions = () => Object.fromEntries(PROMPT_NAMES.map((name) => [name, get(name).active]));
+
+  const toJSON = () =>
+    Object.fromEntries(
+      [...templates.entries()].map(([name, t]) => [name, { active: t.active, versions: [...t.versions] }]),
+    );
+
+  return { active, activeVersions, list, render, rollback, save, toJSON, validate: validateTemplate };
+};
+
+module.exports = { DEFAULT_PROMPTS, PROMPT_NAMES, createPromptLibrary, renderText };
@@ -0,0 +1,40 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createPromptLibrary, renderText } = require('./prompts');
+
+test('renders variables and drops empty note lines', () => {
+  const text = 'Phase: {phase}.\n{focusNote}\n{transcript}\nKeep {unknown}';
+  assert.strictEqual(
+    renderText(text, { phase: 'Vision', focusNote: '', transcript: 'hello' }),
+    'Phase: Vision.\nhello\nKeep {unknown}',
+  );
+});
+
+test('versions templates and rolls back without losing history', () => {
+  const library = createPromptLibrary();
+  assert.strictEqual(library.active('summary').version, 1);
+  assert.throws(() => library.save('summary', { system: 'S', user: 'No transcript here' }), /\{transcript\}/);
+  assert.throws(() => library.save('summary', { system: 'S', user: '{transcript} {colour}' }), /Unknown variable/);
+
+  library.save('summary', { system: 'Summarise.', user: 'Give 2 bullets for {phase}:\n{transcript}' });
+  const { version, messages } = library.render('summary', { phase: 'KPIs', transcript: 'targets' });
+  assert.strictEqual(version, 2);
+  assert.strictEqual(messages[1].content, 'Give 2 bullets for KPIs:\ntargets');
+
+  library.rollback('summary', 1);
+  assert.strictEqual(library.active('summary').version, 1);
+  assert.throws(() => library.rollback('summary', 9), /Version not found/);
+
+  // a restored library keeps the pointer and the next edit still gets a fresh number
+  const restored = createPromptLibrary(JSON.parse(JSON.stringify(library.toJSON())));
+  assert.strictEqual(restored.active('summary').version, 1);
+  assert.strictEqual(restored.save('summary', { system: 'S', user: '{transcript}' }).version, 3);
+  assert.deepStrictEqual(restored.activeVersions(), {
+    summary: 3,
+    illustration: 1,
+    polish: 1,
+    translation: 1,
+    redaction: 1,
+    themes: 1,
+  });
+});
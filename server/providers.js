@@ -0,0 +1,339 @@
+const { OpenAI, toFile } = require('openai');
+const { createCircuitBreakers, toProviderError, withRetry } = require('./resilience');
+
+const PROVIDER_KINDS = ['transcription', 'chat', 'image', 'embedding'];
+// Embeddings only back optional features (topic-shift detection), so they never make a key mandatory
+const REQUIRED_KINDS = ['transcription', 'chat', 'image'];
+
+const mockImageB64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mP8/x8AAusB9Y3nKwAAAABJRU5ErkJggg==';
+
+// AII_MOCK_LATENCY_MS is read per call, so a test can hold one run in flight while it queues another
+const mockLatency = () => {
+  const ms = Number(process.env.AII_MOCK_LATENCY_MS) || 0;
+  return ms ? new Promise((resolve) => setTimeout(resolve, ms)) : null;
+};
+
+const createMockClient = () => ({
+  models: {
+    list: async () => ({ data: [{ id: 'mock-model' }] }),
+  },
+  audio: {
+    transcriptions: {
+      create: async ({ response_format: format, known_speaker_names: known }) =>
+        format === 'diarized_json'
+          ? {
+              text: 'mock transcript',
+              segments: [{ speaker: known?.[0] || 'A', start: 0, end: 2.5, text: 'mock transcript' }],
+              usage: { type: 'duration', seconds: 2.5 },
+            }
+          : { text: 'mock transcript', usage: { type: 'duration', seconds: 2.5 } },
+    },
+  },
+  chat: {
+    completions: {
+      create: async () => {
+        await mockLatency();
+        return {
+          choices: [{ message: { content: 'mock summary or prompt' } }],
+          usage: { prompt_tokens: 200, completion_tokens: 50 },
+        };
+      },
+    },
+  },
+  // Bag-of-words vectors: texts sharing vocabulary come out similar, unrelated ones do not
+  embeddings: {
+    create: async ({ input }) => ({
+      data: (Array.isArray(input) ? input : [input]).map((text) => {
+        const vector = new Array(64).fill(0);
+        for (const word of String(text).toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+          let hash = 0;
+          for (const ch of word) hash = (hash * 31 + ch.codePointAt(0)) % 64;
+          vector[hash] += 1;
+        }
+        return { embedding: vector };
+      }),
+      usage: { prompt_tokens: 20 },
+    }),
+  },
+  images: {
+    generate: async ({ n = 1 }) => {
+      await mockLatency();
+      return { data: Array.from({ length: n }, () => ({ b64_json: mockImageB64 })) };
+    },
+    edit: async ({ n = 1 }) => ({
+      data: Array.from({ length: n }, () => ({ b64_json: mockImageB64 })),
+    }),
+  },
+});
+
+const providerName = (baseURL) => {
+  if (!baseURL) return 'openai';
+  try {
+    return new URL(baseURL).host;
+  } catch (err) {
+    return baseURL;
+  }
+};
+
+// Reads AII_<KIND>_BASE_URL / _MODEL / _API_KEY plus optional _FALLBACK_* variants.
+// An unset base URL means the hosted OpenAI API.
+const readProviderSpecs = (defaults, env = process.env) => {
+  const specs = {};
+  for (const kind of PROVIDER_KINDS) {
+    const key = kind.toUpperCase();
+    const readSpec = (prefix) => {
+      const baseURL = env[`${prefix}_BASE_URL`] || undefined;
+      return {
+        name: providerName(baseURL),
+        baseURL,
+        model: env[`${prefix}_MODEL`] || defaults[kind],
+        apiKey: env[`${prefix}_API_KEY`] || undefined,
+      };
+    };
+    const chain = [readSpec(`AII_${key}`)];
+    if (env[`AII_${key}_FALLBACK_BASE_URL`] || env[`AII_${key}_FALLBACK_MODEL`]) {
+      chain.push(readSpec(`AII_${key}_FALLBACK`));
+    }
+    specs[kind] = chain;
+  }
+  return specs;
+};
+
+const dataUrlToFile = async (dataUrl) => {
+  const match = /^data:([^;]+);base64,(.*)$/s.exec(dataUrl || '');
+  if (!match) throw new Error('Source image is not a data URL');
+  const ext = match[1].split('/')[1] || 'png';
+  return toFile(Buffer.from(match[2], 'base64'), `source.${ext}`, { contentType: match[1] });
+};
+
+const fetchAsDataUrl = async (url) => {
+  const res = await fetch(url);
+  if (!res.ok) {
+    throw new Error(`Image download failed (${res.status})`);
+  }
+  const mime = res.headers.get('content-type') || 'image/png';
+  const buffer = Buffer.from(await res.arrayBuffer());
+  return `data:${mime};base64,${buffer.toString('base64')}`;
+};
+
+// Rough token count for servers that do not return usage (about four characters per token)
+const estimateTokens = (text) => Math.ceil(String(text || '').length / 4);
+
+// Transcription usage is either { type: 'duration', seconds } or token counts, depending on the model
+const audioUsage = (usage, seconds) => ({
+  audioSeconds: usage?.type === 'duration' ? usage.seconds : seconds ?? null,
+  inputTokens: usage?.input_tokens || 0,
+  outputTokens: usage?.output_tokens || 0,
+});
+
+// report() receives what each successful call consumed; failed attempts are not billed
+const buildProvider = (kind, spec, client, report = () => {}) => {
+  const base = { kind, name: spec.name, model: spec.model };
+  if (kind === 'transcription') {
+    return {
+      ...base,
+      // durationSeconds: the caller's estimate, used when the model does not report a duration
+      transcribe: async ({ file, language, prompt, temperature = 0, durationSeconds }) => {
+        const response = await client.audio.transcriptions.create({
+          file,
+          model: spec.model,
+          language,
+          temperature,
+          prompt,
+        });
+        report(audioUsage(response.usage, durationSeconds));
+        return response.text?.trim() || '';
+      },
+      // Needs a diarising model (e.g. gpt-4o-transcribe-diarize); returns speaker turns in seconds
+      diarize: async ({ file, model, knownSpeakerNames = [], knownSpeakerReferences = [] }) => {
+        const response = await client.audio.transcriptions.create({
+          file,
+          model: model || spec.model,
+          response_format: 'diarized_json',
+          chunking_strategy: 'auto',
+          ...(knownSpeakerNames.length
+            ? { known_speaker_names: knownSpeakerNames, known_speaker_references: knownSpeakerReferences }
+            : {}),
+        });
+        const spoken = Math.max(0, ...(response.segments || []).map((seg) => seg.end || 0));
+        report({ model: model || spec.model, ...audioUsage(response.usage, spoken) });
+        return (response.segments || []).map((seg) => ({
+          speaker: seg.speaker,
+          start: seg.start,
+          end: seg.end,
+          text: seg.text?.trim() || '',
+        }));
+      },
+    };
+  }
+  if (kind === 'chat') {
+    return {
+      ...base,
+      complete: async ({ messages, temperature, maxTokens }) => {
+        const response = await client.chat.completions.create({
+          model: spec.model,
+          messages,
+          temperature,
+          ...(maxTokens ? { max_tokens: maxTokens } : {}),
+        });
+        const content = response.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') {
+          throw new Error(`No completion returned from ${spec.name}`);
+        }
+        report(
+          response.usage
+            ? { inputTokens: response.usage.prompt_tokens, outputTokens: response.usage.completion_tokens }
+            : {
+                inputTokens: estimateTokens(messages.map((m) => m.content).join('\n')),
+                outputTokens: estimateTokens(content),
+                estimated: true,
+              },
+        );
+        return content.trim();
+      },
+    };
+  }
+  if (kind === 'embedding') {
+    return {
+      ...base,
+      embed: async ({ input }) => {
+        const response = await client.embeddings.create({ model: spec.model, input });
+        const vector = response.data?.[0]?.embedding;
+        if (!Array.isArray(vector)) {
+          throw new Error(`No embedding returned from ${spec.name}`);
+        }
+        report(
+          response.usage
+            ? { inputTokens: response.usage.prompt_tokens }
+            : { inputTokens: estimateTokens(input), estimated: true },
+        );
+        return vector;
+      },
+    };
+  }
+  const toDataUrls = async (response) => {
+    const urls = await Promise.all(
+      (response.data || []).map((entry) => {
+        if (entry?.b64_json) return `data:image/png;base64,${entry.b64_json}`;
+        // Local stable-diffusion servers often answer with a URL instead of inline data
+        if (entry?.url) return fetchAsDataUrl(entry.url);
+        return null;
+      }),
+    );
+    const images = urls.filter(Boolean);
+    if (images.length === 0) {
+      throw new Error(`No image data returned from ${spec.name}`);
+    }
+    return images;
+  };
+  const reportImages = (images, size) => {
+    report({ images: images.length, size });
+    return images;
+  };
+  return {
+    ...base,
+    generate: async ({ prompt, size, n = 1 }) =>
+      reportImages(await toDataUrls(await client.images.generate({ model: spec.model, prompt, size, n })), size),
+    edit: async ({ image, prompt, size, n = 1 }) =>
+      reportImages(
+        await toDataUrls(
+          await client.images.edit({ model: spec.model, image: await dataUrlToFile(image), prompt, size, n }),
+        ),
+        size,
+      ),
+  };
+};
+
+// onUsage({ kind, provider, model, inputTokens?, outputTokens?, audioSeconds?, images?, size?, estimated? })
+// retry: withRetry options; breakers: shared circuits so every session stops hammering a provider that is down
+const createProviders = ({
+  specs,
+  getApiKey,
+  logEvent,
+  mock = false,
+  createClient,
+  onUsage = () => {},
+  retry = {},
+  breakers = createCircuitBreakers(),
+}) => {
+  const makeClient =
+    createClient ||
+    ((spec, apiKey = getApiKey()) => {
+      if (mock) {
+        if (!makeClient.mockInstance) {
+          makeClient.mockInstance = createMockClient();
+        }
+        return makeClient.mockInstance;
+      }
+      const key = spec.apiKey || apiKey;
+      if (!key && !spec.baseURL) {
+        throw new Error('Missing OpenAI API key');
+      }
+      // OpenAI-compatible local servers usually ignore the key, but the SDK requires one.
+      // Retries happen in runWithFallback, so the SDK's own are off to avoid multiplying them.
+      return new OpenAI({ apiKey: key || 'local', baseURL: spec.baseURL, maxRetries: 0, timeout: retry.timeoutMs });
+    });
+
+  // Each provider in the chain gets retries on transient errors before the next one is tried
+  const runWithFallback = async (kind, call) => {
+    let lastError;
+    for (const spec of specs[kind]) {
+      const key = `${kind}:${spec.name}:${spec.model}`;
+      const context = { kind, provider: spec.name, model: spec.model };
+      try {
+        breakers.check(key);
+        const report = (usage) => onUsage({ ...context, ...usage });
+        const provider = buildProvider(kind, spec, makeClient(spec), report);
+        const result = await withRetry(() => call(provider), {
+          ...retry,
+          context,
+          onRetry: (error, attempt, delayMs) =>
+            logEvent('info', 'Provider call retrying', { ...context, code: error.code, attempt, delayMs }),
+        });
+        breakers.success(key);
+        return result;
+      } catch (err) {
+        lastError = toProviderError(err, context);
+        if (breakers.failure(key, lastError)) {
+          logEvent('error', 'Provider circuit opened', { ...context, code: lastError.code });
+        }
+        logEvent('error', 'Provider call failed', { ...context, code: lastError.code, message: lastError.message });
+      }
+    }
+    throw lastError || new Error(`No ${kind} provider configured`);
+  };
+
+  return {
+    transcribe: (params) => runWithFallback('transcription', (p) => p.transcribe(params)),
+    diarize: (params) => runWithFallback('transcription', (p) => p.diarize(params)),
+    complete: (params) => runWithFallback('chat', (p) => p.complete(params)),
+    embed: (params) => runWithFallback('embedding', (p) => p.embed(params)),
+    generateImage: async (params) => (await runWithFallback('image', (p) => p.generate(params)))[0],
+    generateImages: (params) => runWithFallback('image', (p) => p.generate(params)),
+    editImage: async (params) => (await runWithFallback('image', (p) => p.edit(params)))[0],
+    editImages: (params) => runWithFallback('image', (p) => p.edit(params)),
+    // Only the primary providers count: a keyless OpenAI fallback just fails over silently
+    requiresOpenAIKey: () =>
+      REQUIRED_KINDS.some((kind) => !specs[kind][0].baseURL && !specs[kind][0].apiKey),
+    ping: async (apiKey) => {
+      const client = makeClient(specs.chat[0], apiKey);
+      const models = await client.models.list();
+      return models.data?.[0]?.id || 'ok';
+    },
+    describe: () =>
+      Object.fromEntries(
+        PROVIDER_KINDS.map((kind) => [
+          kind,
+          specs[kind].map((spec) => ({ name: spec.name, model: spec.model, baseURL: spec.baseURL || null })),
+        ]),
+      ),
+  };
+};
+
+module.exports = {
+  PROVIDER_KINDS,
+  createMockClient,
+  createProviders,
+  readProviderSpecs,
+};
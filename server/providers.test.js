@@ -0,0 +1,131 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createMockClient, createProviders, readProviderSpecs } = require('./providers');
+
+const defaults = { transcription: 'whisper-default', chat: 'chat-default', image: 'image-default' };
+
+test('reads primary and fallback providers from env', () => {
+  const specs = readProviderSpecs(defaults, {
+    AII_CHAT_BASE_URL: 'http://localhost:11434/v1',
+    AII_CHAT_MODEL: 'llama3',
+    AII_CHAT_FALLBACK_MODEL: 'gpt-4o-mini',
+  });
+  assert.deepStrictEqual(
+    specs.chat.map((s) => [s.name, s.model, s.baseURL]),
+    [
+      ['localhost:11434', 'llama3', 'http://localhost:11434/v1'],
+      ['openai', 'gpt-4o-mini', undefined],
+    ],
+  );
+  assert.strictEqual(specs.image.length, 1);
+  assert.strictEqual(specs.image[0].model, 'image-default');
+});
+
+test('falls back to the next provider when one fails', async () => {
+  const specs = readProviderSpecs(defaults, {
+    AII_CHAT_BASE_URL: 'http://local-llm/v1',
+    AII_CHAT_FALLBACK_MODEL: 'gpt-4o-mini',
+  });
+  const calls = [];
+  const providers = createProviders({
+    specs,
+    getApiKey: () => 'sk-test',
+    logEvent: () => {},
+    createClient: (spec) => {
+      const client = createMockClient();
+      client.chat.completions.create = async ({ model }) => {
+        calls.push(model);
+        if (spec.baseURL) throw new Error('local server offline');
+        return { choices: [{ message: { content: ' from fallback ' } }] };
+      };
+      return client;
+    },
+  });
+  const text = await providers.complete({ messages: [] });
+  assert.strictEqual(text, 'from fallback');
+  assert.deepStrictEqual(calls, ['chat-default', 'gpt-4o-mini']);
+  assert.strictEqual(providers.requiresOpenAIKey(), true);
+});
+
+test('reports usage for successful calls only', async () => {
+  const usage = [];
+  const providers = createProviders({
+    specs: readProviderSpecs(defaults, {}),
+    getApiKey: () => 'sk-test',
+    logEvent: () => {},
+    mock: true,
+    onUsage: (entry) => usage.push(entry),
+  });
+  await providers.transcribe({ file: null, durationSeconds: 4 });
+  await providers.complete({ messages: [{ role: 'user', content: 'hi' }] });
+  await providers.generateImages({ prompt: 'a bridge', size: '1024x1024', n: 2 });
+  assert.deepStrictEqual(
+    usage.map((u) => [u.kind, u.model, u.audioSeconds ?? u.inputTokens ?? u.images]),
+    [
+      ['transcription', 'whisper-default', 2.5],
+      ['chat', 'chat-default', 200],
+      ['image', 'image-default', 2],
+    ],
+  );
+  assert.strictEqual(usage[2].size, '1024x1024');
+
+  const failing = createProviders({
+    specs: readProviderSpecs(defaults, {}),
+    getApiKey: () => 'sk-test',
+    logEvent: () => {},
+    createClient: () => {
+      const client = createMockClient();
+      client.chat.completions.create = async () => ({ choices: [{ message: { content: 'no usage field' } }] });
+      client.images.generate = async () => {
+        throw new Error('quota exceeded');
+      };
+      return client;
+    },
+    onUsage: (entry) => usage.push(entry),
+  });
+  await failing.complete({ messages: [{ role: 'user', content: 'twelve chars' }] });
+  assert.deepStrictEqual(usage.at(-1), {
+    kind: 'chat',
+    provider: 'openai',
+    model: 'chat-default',
+    inputTokens: 3,
+    outputTokens: 4,
+    estimated: true,
+  });
+  await assert.rejects(failing.generateImage({ prompt: 'x' }));
+  assert.strictEqual(usage.length, 4);
+});
+
+test('retries rate limits and stops calling a provider once its circuit opens', async () => {
+  const { createCircuitBreakers } = require('./resilience');
+  const events = [];
+  let chatCalls = 0;
+  let imageCalls = 0;
+  const providers = createProviders({
+    specs: readProviderSpecs(defaults, {}),
+    getApiKey: () => 'sk-test',
+    logEvent: (level, message, meta) => events.push([message, meta.code]),
+    retry: { retries: 1, sleep: async () => {} },
+    breakers: createCircuitBreakers({ threshold: 1 }),
+    createClient: () => {
+      const client = createMockClient();
+      client.chat.completions.create = async () => {
+        chatCalls += 1;
+        if (chatCalls === 1) throw Object.assign(new Error('slow down'), { status: 429 });
+        return { choices: [{ message: { content: 'second try' } }] };
+      };
+      client.images.generate = async () => {
+        imageCalls += 1;
+        throw Object.assign(new Error('upstream down'), { status: 503 });
+      };
+      return client;
+    },
+  });
+  assert.strictEqual(await providers.complete({ messages: [] }), 'second try');
+  assert.deepStrictEqual(events.shift(), ['Provider call retrying', 'RATE_LIMITED']);
+
+  await assert.rejects(providers.generateImage({ prompt: 'x' }), { code: 'PROVIDER_ERROR', retryable: true });
+  await assert.rejects(providers.generateImage({ prompt: 'x' }), { code: 'PROVIDER_UNAVAILABLE' });
+  assert.strictEqual(imageCalls, 2);
+  assert.ok(events.some(([message]) => message === 'Provider circuit opened'));
+});
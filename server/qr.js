@@ -0,0 +1,313 @@
+// QR codes for the participant link shown on the projector. Byte mode at error correction level M,
+// versions 1-10 (up to 213 bytes), which is plenty for a URL carrying a session id and a viewer token.
+
+// Per version at level M: EC codewords per block, then [block count, data codewords] groups
+const VERSIONS_M = [
+  null,
+  { ec: 10, groups: [[1, 16]] },
+  { ec: 16, groups: [[1, 28]] },
+  { ec: 26, groups: [[1, 44]] },
+  { ec: 18, groups: [[2, 32]] },
+  { ec: 24, groups: [[2, 43]] },
+  { ec: 16, groups: [[4, 27]] },
+  { ec: 18, groups: [[4, 31]] },
+  { ec: 22, groups: [[2, 38], [2, 39]] },
+  { ec: 22, groups: [[3, 36], [2, 37]] },
+  { ec: 26, groups: [[4, 43], [1, 44]] },
+];
+
+// Alignment pattern centres (rows and columns) per version
+const ALIGNMENT = [
+  null,
+  [],
+  [6, 18],
+  [6, 22],
+  [6, 26],
+  [6, 30],
+  [6, 34],
+  [6, 22, 38],
+  [6, 24, 42],
+  [6, 26, 46],
+  [6, 28, 50],
+];
+
+const EC_LEVEL_M = 0b00;
+
+const dataCodewords = (version) => VERSIONS_M[version].groups.reduce((sum, [count, size]) => sum + count * size, 0);
+
+// The byte-mode length field grows from 8 to 16 bits at version 10
+const countBits = (version) => (version < 10 ? 8 : 16);
+
+// GF(256) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+const gfMultiply = (x, y) => {
+  let z = 0;
+  for (let i = 7; i >= 0; i -= 1) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const rsDivisor = (degree) => {
+  const result = new Array(degree).fill(0);
+  result[degree - 1] = 1;
+  let root = 1;
+  for (let i = 0; i < degree; i += 1) {
+    for (let j = 0; j < degree; j += 1) {
+      result[j] = gfMultiply(result[j], root);
+      if (j + 1 < degree) result[j] ^= result[j + 1];
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+};
+
+const rsRemainder = (data, degree) => {
+  const divisor = rsDivisor(degree);
+  const result = new Array(degree).fill(0);
+  for (const byte of data) {
+    const factor = byte ^ result.shift();
+    result.push(0);
+    divisor.forEach((coef, i) => {
+      result[i] ^= gfMultiply(coef, factor);
+    });
+  }
+  return result;
+};
+
+// 15-bit format word: EC level and mask, BCH-protected, XOR-masked so it is never all zeros
+const formatBits = (mask) => {
+  const data = (EC_LEVEL_M << 3) | mask;
+  let rem = data;
+  for (let i = 0; i < 10; i += 1) rem = (rem << 1) ^ ((rem >>> 9) * 0x537);
+  return ((data << 10) | rem) ^ 0x5412;
+};
+
+// 18-bit version word, only drawn from version 7 up
+const versionBits = (version) => {
+  let rem = version;
+  for (let i = 0; i < 12; i += 1) rem = (rem << 1) ^ ((rem >>> 11) * 0x1f25);
+  return (version << 12) | rem;
+};
+
+const chooseVersion = (length) => {
+  for (let version = 1; version < VERSIONS_M.length; version += 1) {
+    if (4 + countBits(version) + length * 8 <= dataCodewords(version) * 8) return version;
+  }
+  throw new Error(`Text too long for a QR code (${length} bytes, at most 213)`);
+};
+
+// Mode indicator, length, bytes, terminator, then the 0xEC/0x11 pad pattern
+const encodeData = (bytes, version) => {
+  const bits = [];
+  const push = (value, count) => {
+    for (let i = count - 1; i >= 0; i -= 1) bits.push((value >>> i) & 1);
+  };
+  push(0b0100, 4);
+  push(bytes.length, countBits(version));
+  bytes.forEach((byte) => push(byte, 8));
+  const capacity = dataCodewords(version) * 8;
+  push(0, Math.min(4, capacity - bits.length));
+  push(0, (8 - (bits.length % 8)) % 8);
+  const codewords = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let pad = 0xec; codewords.length < capacity / 8; pad ^= 0xec ^ 0x11) codewords.push(pad);
+  return codewords;
+};
+
+// Splits into blocks, appends each block's error correction and interleaves column by column
+const addErrorCorrection = (codewords, version) => {
+  const { ec, groups } = VERSIONS_M[version];
+  const blocks = [];
+  let offset = 0;
+  for (const [count, size] of groups) {
+    for (let i = 0; i < count; i += 1) {
+      const data = codewords.slice(offset, offset + size);
+      offset += size;
+      blocks.push({ data, ec: rsRemainder(data, ec) });
+    }
+  }
+  const result = [];
+  const longest = Math.max(...blocks.map((block) => block.data.length));
+  for (let i = 0; i < longest; i += 1) {
+    blocks.forEach((block) => i < block.data.length && result.push(block.data[i]));
+  }
+  for (let i = 0; i < ec; i += 1) blocks.forEach((block) => result.push(block.ec[i]));
+  return result;
+};
+
+const MASKS = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+// Function patterns first; `reserved` marks every module data may not use
+const drawFunctionPatterns = (version) => {
+  const size = version * 4 + 17;
+  const modules = Array.from({ length: size }, () => new Array(size).fill(false));
+  const reserved = Array.from({ length: size }, () => new Array(size).fill(false));
+  const set = (x, y, dark) => {
+    modules[y][x] = dark;
+    reserved[y][x] = true;
+  };
+
+  for (let i = 0; i < size; i += 1) {
+    set(6, i, i % 2 === 0);
+    set(i, 6, i % 2 === 0);
+  }
+  // Finders with their light separators
+  for (const [cx, cy] of [
+    [3, 3],
+    [size - 4, 3],
+    [3, size - 4],
+  ]) {
+    for (let dy = -4; dy <= 4; dy += 1) {
+      for (let dx = -4; dx <= 4; dx += 1) {
+        const x = cx + dx;
+        const y = cy + dy;
+        const dist = Math.max(Math.abs(dx), Math.abs(dy));
+        if (x >= 0 && x < size && y >= 0 && y < size) set(x, y, dist !== 2 && dist !== 4);
+      }
+    }
+  }
+  const centres = ALIGNMENT[version];
+  centres.forEach((cy, i) => {
+    centres.forEach((cx, j) => {
+      const last = centres.length - 1;
+      // the three corners already hold finders
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+      for (let dy = -2; dy <= 2; dy += 1) {
+        for (let dx = -2; dx <= 2; dx += 1) set(cx + dx, cy + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    });
+  });
+  // Placeholder format areas (rewritten once the mask is chosen), the dark module and version blocks
+  drawFormat(modules, reserved, 0);
+  if (version >= 7) {
+    const bits = versionBits(version);
+    for (let i = 0; i < 18; i += 1) {
+      const dark = ((bits >>> i) & 1) === 1;
+      const a = size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      set(a, b, dark);
+      set(b, a, dark);
+    }
+  }
+  return { size, modules, reserved };
+};
+
+const drawFormat = (modules, reserved, mask) => {
+  const size = modules.length;
+  const bits = formatBits(mask);
+  const bit = (i) => ((bits >>> i) & 1) === 1;
+  const set = (x, y, dark) => {
+    modules[y][x] = dark;
+    reserved[y][x] = true;
+  };
+  // around the top-left finder
+  for (let i = 0; i <= 5; i += 1) set(8, i, bit(i));
+  set(8, 7, bit(6));
+  set(8, 8, bit(7));
+  set(7, 8, bit(8));
+  for (let i = 9; i < 15; i += 1) set(14 - i, 8, bit(i));
+  // split between the other two finders
+  for (let i = 0; i < 8; i += 1) set(size - 1 - i, 8, bit(i));
+  for (let i = 8; i < 15; i += 1) set(8, size - 15 + i, bit(i));
+  set(8, size - 8, true);
+};
+
+// Two-module columns from the right edge, snaking up and down, skipping the vertical timing column
+const placeData = (modules, reserved, codewords) => {
+  const size = modules.length;
+  let i = 0;
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5;
+    for (let vert = 0; vert < size; vert += 1) {
+      for (let j = 0; j < 2; j += 1) {
+        const x = right - j;
+        const upward = ((right + 1) & 2) === 0;
+        const y = upward ? size - 1 - vert : vert;
+        if (!reserved[y][x] && i < codewords.length * 8) {
+          modules[y][x] = ((codewords[i >>> 3] >>> (7 - (i & 7))) & 1) === 1;
+          i += 1;
+        }
+      }
+    }
+  }
+};
+
+const applyMask = (modules, reserved, mask) =>
+  modules.map((row, y) => row.map((dark, x) => (reserved[y][x] ? dark : dark !== MASKS[mask](x, y))));
+
+// The four penalty rules of the standard; the lowest-scoring mask is the easiest to scan
+const penalty = (modules) => {
+  const size = modules.length;
+  let score = 0;
+  const lines = [...modules, ...modules[0].map((_, x) => modules.map((row) => row[x]))];
+  for (const line of lines) {
+    let run = 1;
+    for (let i = 1; i <= size; i += 1) {
+      if (i < size && line[i] === line[i - 1]) {
+        run += 1;
+      } else {
+        if (run >= 5) score += run - 2;
+        run = 1;
+      }
+    }
+    const text = line.map((dark) => (dark ? '1' : '0')).join('');
+    score += 40 * (text.match(/(?=(10111010000|00001011101))/g) || []).length;
+  }
+  for (let y = 0; y < size - 1; y += 1) {
+    for (let x = 0; x < size - 1; x += 1) {
+      const dark = modules[y][x];
+      if (dark === modules[y][x + 1] && dark === modules[y + 1][x] && dark === modules[y + 1][x + 1]) score += 3;
+    }
+  }
+  const darkCount = modules.reduce((sum, row) => sum + row.filter(Boolean).length, 0);
+  score += 10 * Math.floor(Math.abs((darkCount * 100) / (size * size) - 50) / 5);
+  return score;
+};
+
+// Returns the module grid: modules[y][x] is true for dark
+const encodeQr = (text) => {
+  const bytes = [...Buffer.from(String(text), 'utf8')];
+  const version = chooseVersion(bytes.length);
+  const codewords = addErrorCorrection(encodeData(bytes, version), version);
+  const { size, modules, reserved } = drawFunctionPatterns(version);
+  placeData(modules, reserved, codewords);
+  let best = null;
+  for (let mask = 0; mask < MASKS.length; mask += 1) {
+    const candidate = applyMask(modules, reserved, mask);
+    drawFormat(candidate, reserved, mask);
+    const score = penalty(candidate);
+    if (!best || score < best.score) best = { mask, score, modules: candidate };
+  }
+  return { version, size, mask: best.mask, modules: best.modules };
+};
+
+// One path of unit squares; the quiet zone is part of the viewBox so the image scales cleanly
+const renderQrSvg = (text, { border = 4, dark = '#000', light = '#fff' } = {}) => {
+  const { size, modules } = encodeQr(text);
+  const parts = [];
+  modules.forEach((row, y) =>
+    row.forEach((on, x) => {
+      if (on) parts.push(`M${x + border},${y + border}h1v1h-1z`);
+    }),
+  );
+  const extent = size + border * 2;
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${extent} ${extent}" shape-rendering="crispEdges">
+<rect width="100%" height="100%" fill="${light}"/>
+<path d="${parts.join('')}" fill="${dark}"/>
+</svg>
+`;
+};
+
+module.exports = { encodeQr, formatBits, renderQrSvg, rsRemainder, versionBits };
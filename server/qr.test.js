@@ -0,0 +1,28 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { encodeQr, formatBits, renderQrSvg, rsRemainder, versionBits } = require('./qr');
+
+test('error correction and format words match the reference values', () => {
+  // "HELLO WORLD" at 1-M, the worked example of the standard
+  const data = [32, 91, 11, 120, 209, 114, 220, 77, 67, 64, 236, 17, 236, 17, 236, 17];
+  assert.deepStrictEqual(rsRemainder(data, 10), [196, 35, 39, 119, 235, 215, 231, 226, 93, 23]);
+  assert.strictEqual(formatBits(5).toString(2).padStart(15, '0'), '100000011001110');
+  assert.strictEqual(versionBits(7), 0x07c94);
+});
+
+test('draws finders, timing and the version that fits the text', () => {
+  const short = encodeQr('https://example.org');
+  assert.deepStrictEqual([short.version, short.size], [2, 25]);
+  const finderRow = short.modules[0].slice(0, 8).map(Number);
+  assert.deepStrictEqual(finderRow, [1, 1, 1, 1, 1, 1, 1, 0]);
+  assert.deepStrictEqual(short.modules[6].slice(8, 17).map(Number), [1, 0, 1, 0, 1, 0, 1, 0, 1]);
+  // the always-dark module beside the bottom-left finder
+  assert.strictEqual(short.modules[short.size - 8][8], true);
+
+  const link = `http://192.168.1.20:5173/?view=participant&session=${'a'.repeat(36)}&token=${'b'.repeat(32)}`;
+  assert.strictEqual(encodeQr(link).version, 8);
+  assert.throws(() => encodeQr('x'.repeat(214)), /too long/);
+
+  const svg = renderQrSvg('https://example.org');
+  assert.match(svg, /^<svg [^>]*viewBox="0 0 33 33"/);
+});
@@ -0,0 +1,188 @@
+const { retryDelayMs } = require('./resilience');
+
+// Bounded PCM16 mono buffer for audio that arrives while the upstream is down. Oldest chunks are
+// dropped first, so after a long outage the most recent speech is what gets replayed.
+const createPcmBacklog = ({ sampleRate, maxMs = 30000 }) => {
+  const bytesPerMs = (sampleRate * 2) / 1000;
+  let chunks = [];
+  let bytes = 0;
+  let droppedMs = 0;
+
+  const push = (pcm) => {
+    chunks.push(pcm);
+    bytes += pcm.length;
+    while (chunks.length > 1 && bytes / bytesPerMs > maxMs) {
+      const dropped = chunks.shift();
+      bytes -= dropped.length;
+      droppedMs += dropped.length / bytesPerMs;
+    }
+  };
+
+  const drain = () => {
+    const pcm = chunks.length ? Buffer.concat(chunks) : null;
+    chunks = [];
+    bytes = 0;
+    return pcm;
+  };
+
+  const clear = () => {
+    drain();
+    droppedMs = 0;
+  };
+
+  return {
+    push,
+    drain,
+    clear,
+    ms: () => bytes / bytesPerMs,
+    droppedMs: () => Math.round(droppedMs),
+  };
+};
+
+// Keeps one session's realtime upstream alive. A closed or failed socket is reconnected with jittered
+// backoff; audio written meanwhile is buffered and replayed once the new socket is configured.
+// After `fallbackAfter` failed attempts the buffered audio goes to `fallback` (the chunked transcription
+// path) in `fallbackChunkMs` slices, while reconnect attempts carry on in the background.
+//   connect(onClose)   opens and configures a socket; the link passes onClose(code, reason) to wire up
+//   send(upstream, pcm) appends audio; throwing means the socket is not usable
+const createRealtimeLink = ({
+  connect,
+  send,
+  fallback,
+  onStatus = () => {},
+  logEvent,
+  sampleRate,
+  bufferMs = 30000,
+  fallbackAfter = 3,
+  fallbackChunkMs = 10000,
+  baseDelayMs = 1000,
+  maxDelayMs = 30000,
+  random = Math.random,
+}) => {
+  const backlog = createPcmBacklog({ sampleRate, maxMs: bufferMs });
+  let upstream = null;
+  let connecting = null;
+  let timer = null;
+  let attempts = 0;
+  let fallbackMode = false;
+  let nextAttemptAt = null;
+  let closed = false;
+
+  const flushFallback = () => {
+    const pcm = backlog.drain();
+    if (!pcm) return;
+    Promise.resolve(fallback(pcm)).catch((err) => {
+      logEvent('error', 'Realtime fallback transcription failed', { message: err.message });
+    });
+  };
+
+  const schedule = (reason) => {
+    if (closed || timer) return;
+    attempts += 1;
+    if (!fallbackMode && attempts > fallbackAfter) {
+      fallbackMode = true;
+      logEvent('error', 'Realtime unavailable, using chunked transcription', { attempts });
+      flushFallback();
+    }
+    const delayMs = retryDelayMs(attempts - 1, { baseDelayMs, maxDelayMs, random });
+    nextAttemptAt = Date.now() + delayMs;
+    onStatus(fallbackMode ? 'fallback' : 'reconnecting');
+    logEvent('info', 'Realtime reconnect scheduled', { reason, attempt: attempts, delayMs });
+    timer = setTimeout(() => {
+      timer = null;
+      nextAttemptAt = null;
+      ensure();
+    }, delayMs);
+    timer.unref?.();
+  };
+
+  const replay = () => {
+    const ms = Math.round(backlog.ms());
+    const pcm = backlog.drain();
+    if (!pcm) return;
+    try {
+      send(upstream, pcm);
+      logEvent('info', 'Realtime backlog replayed', { ms });
+    } catch (err) {
+      backlog.push(pcm);
+    }
+  };
+
+  const open = async () => {
+    onStatus(attempts ? (fallbackMode ? 'fallback' : 'reconnecting') : 'connecting');
+    let socket = null;
+    const onClose = (code, reason) => {
+      if (closed || !socket || upstream !== socket) return;
+      upstream = null;
+      logEvent('error', 'Realtime upstream closed', { code, reason });
+      schedule(reason || `closed (${code})`);
+    };
+    try {
+      socket = await connect(onClose);
+    } catch (err) {
+      logEvent('error', 'Realtime upstream connect failed', { attempt: attempts + 1, message: err.message });
+      schedule(err.message);
+      return null;
+    }
+    if (closed) {
+      socket.close();
+      return null;
+    }
+    upstream = socket;
+    if (attempts) logEvent('info', 'Realtime upstream restored', { attempts, fromFallback: fallbackMode });
+    attempts = 0;
+    fallbackMode = false;
+    onStatus('connected');
+    replay();
+    return upstream;
+  };
+
+  // null while waiting for the next attempt: callers just write, and the audio is buffered
+  const ensure = () => {
+    if (closed || timer) return Promise.resolve(null);
+    if (upstream) return Promise.resolve(upstream);
+    if (!connecting) {
+      connecting = open().finally(() => {
+        connecting = null;
+      });
+    }
+    return connecting;
+  };
+
+  const write = (pcm) => {
+    if (closed) return;
+    if (upstream) {
+      try {
+        send(upstream, pcm);
+        return;
+      } catch (err) {
+        // the close event follows; keep the audio for the next socket
+      }
+    }
+    backlog.push(pcm);
+    if (!connecting && !timer && !upstream) ensure();
+    if (fallbackMode && backlog.ms() >= fallbackChunkMs) flushFallback();
+  };
+
+  const close = () => {
+    closed = true;
+    clearTimeout(timer);
+    timer = null;
+    backlog.clear();
+    const socket = upstream;
+    upstream = null;
+    socket?.close();
+  };
+
+  const status = () => ({
+    reconnectAttempts: attempts,
+    fallback: fallbackMode,
+    nextAttemptAt: nextAttemptAt ? new Date(nextAttemptAt).toISOString() : null,
+    bufferedMs: Math.round(backlog.ms()),
+    droppedMs: backlog.droppedMs(),
+  });
+
+  return { close, current: () => upstream, ensure, status, write };
+};
+
+module.exports = { createPcmBacklog, createRealtimeLink };
@@ -0,0 +1,87 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createPcmBacklog, createRealtimeLink } = require('./realtime');
+
+// 1000 Hz mono PCM16: two bytes per millisecond
+const pcmMs = (ms, fill = 1) => Buffer.alloc(ms * 2, fill);
+const wait = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const makeLink = (options = {}) => {
+  const network = { offline: false };
+  const sockets = [];
+  const sent = [];
+  const fallbacks = [];
+  const statuses = [];
+  let connects = 0;
+  const link = createRealtimeLink({
+    connect: async (onClose) => {
+      if (network.offline) throw new Error('offline');
+      connects += 1;
+      const socket = { id: connects, close: () => onClose(1000, 'closed by us'), drop: (code) => onClose(code, '') };
+      sockets.push(socket);
+      return socket;
+    },
+    send: (socket, pcm) => sent.push([socket.id, pcm.length]),
+    fallback: async (pcm) => fallbacks.push(pcm.length),
+    onStatus: (status) => statuses.push(status),
+    logEvent: () => {},
+    sampleRate: 1000,
+    baseDelayMs: 1,
+    maxDelayMs: 1,
+    ...options,
+  });
+  return { link, network, sockets, sent, fallbacks, statuses };
+};
+
+test('the backlog keeps the most recent audio within its limit', () => {
+  const backlog = createPcmBacklog({ sampleRate: 1000, maxMs: 100 });
+  backlog.push(pcmMs(60, 1));
+  backlog.push(pcmMs(60, 2));
+  assert.strictEqual(backlog.ms(), 60);
+  assert.strictEqual(backlog.droppedMs(), 60);
+  const pcm = backlog.drain();
+  assert.strictEqual(pcm[0], 2);
+  assert.strictEqual(backlog.drain(), null);
+});
+
+test('reconnects after the upstream closes and replays audio from the gap', async () => {
+  const { link, sockets, sent, statuses } = makeLink();
+  await link.ensure();
+  link.write(pcmMs(10));
+  sockets[0].drop(1006);
+  link.write(pcmMs(20));
+  link.write(pcmMs(30));
+  assert.strictEqual(link.current(), null);
+  assert.strictEqual(link.status().bufferedMs, 50);
+
+  await wait(20);
+  assert.strictEqual(link.current(), sockets[1]);
+  assert.deepStrictEqual(sent, [
+    [1, 20],
+    [2, 100],
+  ]);
+  assert.deepStrictEqual(statuses, ['connecting', 'connected', 'reconnecting', 'reconnecting', 'connected']);
+  assert.strictEqual(link.status().reconnectAttempts, 0);
+  link.close();
+});
+
+test('falls back to chunked transcription while realtime stays down', async () => {
+  const { link, network, sockets, fallbacks, statuses } = makeLink({ fallbackAfter: 2, fallbackChunkMs: 40 });
+  network.offline = true;
+  link.write(pcmMs(25));
+  await wait(30);
+  assert.ok(statuses.includes('fallback'));
+  assert.strictEqual(link.status().fallback, true);
+  assert.deepStrictEqual(fallbacks, [50]);
+
+  link.write(pcmMs(30));
+  link.write(pcmMs(30));
+  assert.deepStrictEqual(fallbacks, [50, 120]);
+
+  network.offline = false;
+  await wait(20);
+  assert.strictEqual(link.current(), sockets[0]);
+  assert.strictEqual(link.status().fallback, false);
+  link.close();
+  assert.strictEqual(link.current(), null);
+});
@@ -0,0 +1,124 @@
+const { v4: uuid } = require('uuid');
+
+// ASR output mixes Western and Arabic-Indic digits, so every numeric rule accepts both
+const DIGIT = '[0-9\\u0660-\\u0669]';
+const SEP = '[\\s-]?';
+
+// Applied in this order: emails first so their digits are not read as phone numbers
+const REDACTION_RULES = {
+  email: {
+    label: 'Email address',
+    token: '[EMAIL]',
+    pattern: /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/gu,
+  },
+  phone: {
+    label: 'Phone number',
+    token: '[PHONE]',
+    // +966 / 00966 / 0 followed by a mobile (5x) or landline (1x) prefix and seven digits, spaced or not;
+    // the prefix digits may be Arabic-Indic too
+    pattern: new RegExp(
+      `(?<!${DIGIT})(?:(?:\\+|[0\\u0660]{2})[9\\u0669][6\\u0666]{2}${SEP}|[0\\u0660])[51\\u0665\\u0661]` +
+        `${DIGIT}(?:${SEP}${DIGIT}){7}(?!${DIGIT})`,
+      'gu',
+    ),
+  },
+  saudi_id: {
+    label: 'National ID / Iqama',
+    token: '[ID]',
+    // Ten digits starting with 1 (citizens) or 2 (residents)
+    pattern: new RegExp(`(?<!${DIGIT})[12\\u0661\\u0662](?:${SEP}${DIGIT}){9}(?!${DIGIT})`, 'gu'),
+  },
+};
+
+const RULE_IDS = Object.keys(REDACTION_RULES);
+const NAME_TOKEN = '[NAME]';
+const MODEL_TOKEN = '[REDACTED]';
+const MAX_LOG_ENTRIES = 200;
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Letter lookarounds instead of \b so Arabic names only match as whole words too
+const wholeWord = (value) => new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(value)}(?![\\p{L}\\p{N}])`, 'giu');
+
+const normalizeNames = (value) =>
+  Array.from(
+    new Set(
+      (Array.isArray(value) ? value : String(value || '').split(/[\n,]/))
+        .map((name) => String(name).trim())
+        .filter(Boolean),
+    ),
+  );
+
+const replaceAll = (text, pattern, token, rule, hits) =>
+  text.replace(pattern, (match) => {
+    hits.push({ rule, value: match });
+    return token;
+  });
+
+// Deterministic pass: enabled regex rules, then the session's names list (longest first, so full names win)
+const redactText = (text, { rules = RULE_IDS, names = [] } = {}) => {
+  const hits = [];
+  let result = text;
+  for (const id of RULE_IDS.filter((r) => rules.includes(r))) {
+    const { pattern, token } = REDACTION_RULES[id];
+    result = replaceAll(result, pattern, token, id, hits);
+  }
+  for (const name of [...names].sort((a, b) => b.length - a.length)) {
+    result = replaceAll(result, wholeWord(name), NAME_TOKEN, 'name', hits);
+  }
+  return { text: result, hits };
+};
+
+// The model detector answers with a JSON array of substrings; anything else counts as "nothing found"
+const parseSpanList = (reply, text) => {
+  const match = /\[[\s\S]*\]/.exec(String(reply || ''));
+  if (!match) return [];
+  try {
+    const spans = JSON.parse(match[0]);
+    return Array.isArray(spans)
+      ? spans.filter((s) => typeof s === 'string' && s.trim().length > 1 && text.includes(s))
+      : [];
+  } catch (err) {
+    return [];
+  }
+};
+
+const redactSpans = (text, spans) => {
+  const hits = [];
+  let result = text;
+  for (const span of [...spans].sort((a, b) => b.length - a.length)) {
+    result = replaceAll(result, new RegExp(escapeRegExp(span), 'g'), MODEL_TOKEN, 'model', hits);
+  }
+  return { text: result, hits };
+};
+
+// The log is for the facilitator, so it never holds the value itself: only its ends survive
+const maskValue = (value) => {
+  const chars = Array.from(value.replace(/\s+/g, ''));
+  if (chars.length <= 4) return `${chars[0] || ''}${'•'.repeat(Math.max(chars.length - 1, 0))}`;
+  return `${chars.slice(0, 2).join('')}${'•'.repeat(chars.length - 4)}${chars.slice(-2).join('')}`;
+};
+
+const ruleLabel = (rule) =>
+  REDACTION_RULES[rule]?.label || (rule === 'name' ? 'Listed name' : 'Model-detected');
+
+const logEntries = (hits, at = new Date()) =>
+  hits.map(({ rule, value }) => ({
+    id: uuid(),
+    at: at.toISOString(),
+    rule,
+    label: ruleLabel(rule),
+    preview: maskValue(value),
+  }));
+
+module.exports = {
+  MAX_LOG_ENTRIES,
+  REDACTION_RULES,
+  RULE_IDS,
+  logEntries,
+  maskValue,
+  normalizeNames,
+  parseSpanList,
+  redactSpans,
+  redactText,
+};
@@ -0,0 +1,45 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { logEntries, maskValue, normalizeNames, parseSpanList, redactSpans, redactText } = require('./redaction');
+
+test('redacts Saudi IDs, phone numbers and emails', () => {
+  const { text, hits } = redactText(
+    'Call me on 055 123 4567 or +966501234567, email sara.k@example.sa, my iqama is 2123456789.',
+  );
+  assert.strictEqual(text, 'Call me on [PHONE] or [PHONE], email [EMAIL], my iqama is [ID].');
+  assert.deepStrictEqual(hits.map((h) => h.rule), ['email', 'phone', 'phone', 'saudi_id']);
+});
+
+test('matches Arabic-Indic digits and leaves other numbers alone', () => {
+  const { text } = redactText('رقم الهوية ١٠٢٣٤٥٦٧٨٩ والهدف 2030 بنسبة 45%');
+  assert.strictEqual(text, 'رقم الهوية [ID] والهدف 2030 بنسبة 45%');
+
+  const phones = redactText('call ٠٥٥١٢٣٤٥٦٧ now, or +٩٦٦٥٠١٢٣٤٥٦٧, ٠٠٩٦٦ ١١ ٢٣٤ ٥٦٧٨ and ٠55 123 ٤٥٦٧');
+  assert.strictEqual(phones.text, 'call [PHONE] now, or [PHONE], [PHONE] and [PHONE]');
+  assert.ok(phones.hits.every((h) => h.rule === 'phone'));
+});
+
+test('only applies enabled rules and whole-word names', () => {
+  const names = normalizeNames('Sara Khalid, Sara\nأحمد');
+  assert.deepStrictEqual(names, ['Sara Khalid', 'Sara', 'أحمد']);
+  const { text, hits } = redactText('Sara Khalid and sara asked Saraya; أحمد قال 0551234567', {
+    rules: [],
+    names,
+  });
+  assert.strictEqual(text, '[NAME] and [NAME] asked Saraya; [NAME] قال 0551234567');
+  assert.strictEqual(hits.length, 3);
+});
+
+test('reads model-detected spans and masks log previews', () => {
+  const text = 'Ask Dr Huda at the Riyadh office';
+  const spans = parseSpanList('```json\n["Dr Huda", "Mars"]\n```', text);
+  assert.deepStrictEqual(spans, ['Dr Huda']);
+  assert.deepStrictEqual(parseSpanList('no personal data here', text), []);
+  assert.strictEqual(redactSpans(text, spans).text, 'Ask [REDACTED] at the Riyadh office');
+
+  assert.strictEqual(maskValue('055 123 4567'), '05••••••67');
+  assert.strictEqual(maskValue('Ali'), 'A••');
+  const [entry] = logEntries([{ rule: 'phone', value: '0551234567' }]);
+  assert.strictEqual(entry.label, 'Phone number');
+  assert.ok(!JSON.stringify(entry).includes('0551234567'));
+});
@@ -0,0 +1,162 @@
+const { APIConnectionError, APIConnectionTimeoutError } = require('openai');
+
+// Error codes surfaced to the console (lastError.code, generation_failed, HTTP error bodies).
+// Retryable ones are retried with backoff; the outage ones also count towards opening a circuit.
+const ERROR_CODES = [
+  'RATE_LIMITED',
+  'QUOTA_EXCEEDED',
+  'AUTH_INVALID',
+  'CONTENT_BLOCKED',
+  'BAD_REQUEST',
+  'PROVIDER_ERROR',
+  'PROVIDER_UNAVAILABLE',
+  'NETWORK',
+  'TIMEOUT',
+  'UNKNOWN',
+];
+const RETRYABLE = new Set(['RATE_LIMITED', 'PROVIDER_ERROR', 'NETWORK', 'TIMEOUT']);
+const OUTAGE = new Set(['PROVIDER_ERROR', 'NETWORK', 'TIMEOUT']);
+
+const NETWORK_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'EPIPE', 'EHOSTUNREACH']);
+const BLOCKED_CODES = new Set(['content_policy_violation', 'moderation_blocked', 'content_filter']);
+
+const isClassified = (err) => ERROR_CODES.includes(err?.code) && 'retryable' in err;
+
+// Works on OpenAI SDK errors (status, code, class) and on plain Node network errors
+const classifyError = (err) => {
+  if (isClassified(err)) return err.code;
+  const status = err?.status;
+  const apiCode = err?.code || err?.error?.code;
+  const systemCode = err?.cause?.code || err?.code;
+  const message = String(err?.message || '');
+  if (err instanceof APIConnectionTimeoutError || systemCode === 'ETIMEDOUT' || status === 408) return 'TIMEOUT';
+  if (err instanceof APIConnectionError || NETWORK_CODES.has(systemCode)) return 'NETWORK';
+  if (status === 401 || status === 403 || /missing openai api key/i.test(message)) return 'AUTH_INVALID';
+  if (status === 429) return apiCode === 'insufficient_quota' ? 'QUOTA_EXCEEDED' : 'RATE_LIMITED';
+  if (BLOCKED_CODES.has(apiCode) || /safety system|content policy/i.test(message)) return 'CONTENT_BLOCKED';
+  if (status >= 500) return 'PROVIDER_ERROR';
+  if (status >= 400) return 'BAD_REQUEST';
+  return 'UNKNOWN';
+};
+
+const readRetryAfterMs = (err) => {
+  const headers = err?.headers;
+  const value = typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+  const seconds = Number(value);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : null;
+};
+
+// Keeps the original message (logged and shown as detail) and adds { code, retryable, status, retryAfterMs }
+const toProviderError = (err, context = {}) => {
+  if (isClassified(err)) return err;
+  const code = classifyError(err);
+  return Object.assign(new Error(err?.message || 'Provider call failed', { cause: err }), {
+    code,
+    retryable: RETRYABLE.has(code),
+    status: err?.status ?? null,
+    retryAfterMs: readRetryAfterMs(err),
+    ...context,
+  });
+};
+
+const providerError = (code, message, context = {}) =>
+  Object.assign(new Error(message), { code, retryable: RETRYABLE.has(code), status: null, ...context });
+
+const sleepFor = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Full jitter: a random wait up to the exponential ceiling, so sessions hitting the same limit spread out.
+// A Retry-After header from the provider wins when it is longer.
+const retryDelayMs = (attempt, { baseDelayMs, maxDelayMs, random }, retryAfterMs = null) => {
+  const jittered = random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+  return Math.round(Math.max(jittered, Math.min(retryAfterMs ?? 0, maxDelayMs)));
+};
+
+const withRetry = async (
+  call,
+  {
+    retries = 2,
+    baseDelayMs = 500,
+    maxDelayMs = 8000,
+    sleep = sleepFor,
+    random = Math.random,
+    onRetry = () => {},
+    context = {},
+  } = {},
+) => {
+  for (let attempt = 0; ; attempt += 1) {
+    try {
+      return await call();
+    } catch (err) {
+      const error = toProviderError(err, context);
+      if (!error.retryable || attempt >= retries) throw error;
+      const delayMs = retryDelayMs(attempt, { baseDelayMs, maxDelayMs, random }, error.retryAfterMs);
+      onRetry(error, attempt + 1, delayMs);
+      await sleep(delayMs);
+    }
+  }
+};
+
+// One circuit per provider key. After `threshold` consecutive outage errors it opens and calls fail fast
+// with PROVIDER_UNAVAILABLE; once `cooldownMs` has passed the next call is let through as a trial.
+const createCircuitBreakers = ({ threshold = 5, cooldownMs = 30000, now = Date.now } = {}) => {
+  const circuits = new Map();
+
+  const circuit = (key) => {
+    if (!circuits.has(key)) circuits.set(key, { failures: 0, openedAt: null });
+    return circuits.get(key);
+  };
+
+  const check = (key) => {
+    const { openedAt } = circuit(key);
+    if (openedAt !== null && now() - openedAt < cooldownMs) {
+      const seconds = Math.ceil((openedAt + cooldownMs - now()) / 1000);
+      throw providerError('PROVIDER_UNAVAILABLE', `${key} is failing; paused for another ${seconds}s`, {
+        retryAfterMs: openedAt + cooldownMs - now(),
+      });
+    }
+  };
+
+  const success = (key) => circuits.set(key, { failures: 0, openedAt: null });
+
+  const failure = (key, error) => {
+    if (!OUTAGE.has(error.code)) return false;
+    const state = circuit(key);
+    state.failures += 1;
+    if (state.failures >= threshold) {
+      const opening = state.openedAt === null || now() - state.openedAt >= cooldownMs;
+      state.openedAt = now();
+      return opening;
+    }
+    return false;
+  };
+
+  const open = () =>
+    [...circuits.entries()]
+      .filter(([, state]) => state.openedAt !== null && now() - state.openedAt < cooldownMs)
+      .map(([key, state]) => ({
+        key,
+        failures: state.failures,
+        until: new Date(state.openedAt + cooldownMs).toISOString(),
+      }));
+
+  return { check, failure, open, success };
+};
+
+// Shape for lastError, generation_failed and HTTP error bodies; errors from our own checks
+// ("Not enough transcript to generate") carry the caller's fallback code
+const describeError = (err, fallbackCode = 'GENERATION_FAILED') => ({
+  code: isClassified(err) ? err.code : fallbackCode,
+  message: err?.message || 'Generation failed',
+  retryable: Boolean(err?.retryable),
+});
+
+module.exports = {
+  ERROR_CODES,
+  classifyError,
+  createCircuitBreakers,
+  describeError,
+  providerError,
+  retryDelayMs,
+  toProviderError,
+  withRetry,
+};
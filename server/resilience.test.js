@@ -0,0 +1,84 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { APIConnectionTimeoutError, APIError } = require('openai');
+const {
+  classifyError,
+  createCircuitBreakers,
+  describeError,
+  retryDelayMs,
+  toProviderError,
+  withRetry,
+} = require('./resilience');
+
+const apiError = (status, code, headers = {}) =>
+  APIError.generate(status, { error: { message: `status ${status}`, code } }, undefined, new Headers(headers));
+
+test('classifies provider and network errors', () => {
+  assert.strictEqual(classifyError(apiError(429)), 'RATE_LIMITED');
+  assert.strictEqual(classifyError(apiError(429, 'insufficient_quota')), 'QUOTA_EXCEEDED');
+  assert.strictEqual(classifyError(apiError(401, 'invalid_api_key')), 'AUTH_INVALID');
+  assert.strictEqual(classifyError(apiError(400, 'content_policy_violation')), 'CONTENT_BLOCKED');
+  assert.strictEqual(classifyError(apiError(400, 'invalid_size')), 'BAD_REQUEST');
+  assert.strictEqual(classifyError(apiError(503)), 'PROVIDER_ERROR');
+  assert.strictEqual(classifyError(new APIConnectionTimeoutError()), 'TIMEOUT');
+  assert.strictEqual(classifyError(Object.assign(new Error('connect'), { code: 'ECONNREFUSED' })), 'NETWORK');
+  assert.strictEqual(classifyError(new Error('Missing OpenAI API key')), 'AUTH_INVALID');
+
+  const error = toProviderError(apiError(429, null, { 'retry-after': '2' }), { kind: 'chat' });
+  assert.deepStrictEqual(
+    [error.code, error.retryable, error.retryAfterMs, error.kind],
+    ['RATE_LIMITED', true, 2000, 'chat'],
+  );
+  assert.deepStrictEqual(describeError(error), { code: 'RATE_LIMITED', message: error.message, retryable: true });
+  assert.strictEqual(describeError(new Error('Not enough transcript')).code, 'GENERATION_FAILED');
+});
+
+test('retries transient errors with jittered backoff and gives up on the rest', async () => {
+  const delays = [];
+  let calls = 0;
+  const result = await withRetry(
+    async () => {
+      calls += 1;
+      if (calls < 3) throw apiError(calls === 1 ? 429 : 502);
+      return 'ok';
+    },
+    { retries: 2, baseDelayMs: 100, random: () => 0.5, sleep: async (ms) => delays.push(ms) },
+  );
+  assert.strictEqual(result, 'ok');
+  assert.deepStrictEqual(delays, [50, 100]);
+
+  calls = 0;
+  await assert.rejects(
+    withRetry(
+      async () => {
+        calls += 1;
+        throw apiError(400, 'content_policy_violation');
+      },
+      { sleep: async () => {} },
+    ),
+    { code: 'CONTENT_BLOCKED' },
+  );
+  assert.strictEqual(calls, 1);
+
+  // Retry-After wins over a shorter jittered wait, but never beyond the ceiling
+  const opts = { baseDelayMs: 500, maxDelayMs: 8000, random: () => 0 };
+  assert.strictEqual(retryDelayMs(0, opts, 3000), 3000);
+  assert.strictEqual(retryDelayMs(0, opts, 60000), 8000);
+});
+
+test('opens a circuit after repeated outages and lets a trial call through after the cooldown', () => {
+  let clock = 0;
+  const breakers = createCircuitBreakers({ threshold: 2, cooldownMs: 1000, now: () => clock });
+  const outage = toProviderError(apiError(503));
+  assert.strictEqual(breakers.failure('image', toProviderError(apiError(400))), false);
+  assert.strictEqual(breakers.failure('image', outage), false);
+  assert.strictEqual(breakers.failure('image', outage), true);
+  assert.throws(() => breakers.check('image'), { code: 'PROVIDER_UNAVAILABLE' });
+  assert.strictEqual(breakers.open()[0].key, 'image');
+  breakers.check('chat');
+
+  clock = 1000;
+  breakers.check('image');
+  breakers.success('image');
+  assert.deepStrictEqual(breakers.open(), []);
+});
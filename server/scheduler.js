@@ -0,0 +1,181 @@
+// Topic-shift checks embed the whole window, so they run at most this often while people talk
+const TOPIC_CHECK_INTERVAL_MS = 30000;
+
+const countWords = (text) => (String(text || '').match(/\S+/g) || []).length;
+
+const cosineSimilarity = (a, b) => {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i += 1) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+};
+
+// Decides when a session's auto mode runs. Triggers:
+//   cadence      every autoIntervalMinutes, skipped when fewer than autoMinNewWords were spoken since the last run
+//   words        as soon as autoWordThreshold new words have arrived (0 turns it off)
+//   topic_shift  the current window's embedding falls below autoTopicShiftThreshold cosine similarity
+//                to the window that was last summarised
+// Any generation, manual or automatic, resets the counters through markSummarised().
+const createAutoScheduler = ({
+  getConfig,
+  getWindowText,
+  embed,
+  canRun,
+  run,
+  onChange = () => {},
+  logEvent,
+  now = Date.now,
+  topicCheckIntervalMs = TOPIC_CHECK_INTERVAL_MS,
+}) => {
+  let timer = null;
+  let enabled = false;
+  let lastRunAt = now();
+  let wordsSinceRun = 0;
+  // Words already counted against a words trigger that was blocked; it waits for another threshold's worth
+  let wordsAtSkip = 0;
+  let summarisedText = '';
+  let summarisedVector = null;
+  let lastTopicCheckAt = 0;
+  let checkingTopic = false;
+  let lastSimilarity = null;
+  let lastDecision = null;
+
+  const nextCadenceAt = () => lastRunAt + getConfig().autoIntervalMinutes * 60 * 1000;
+
+  const status = () => {
+    const config = getConfig();
+    if (!enabled) {
+      return { enabled: false, nextRun: null, wordsSinceRun, lastSimilarity, lastDecision };
+    }
+    const threshold = config.autoWordThreshold;
+    return {
+      enabled: true,
+      nextRun: {
+        at: new Date(nextCadenceAt()).toISOString(),
+        reason: 'cadence',
+        // the cadence run is planned but will be skipped unless enough new speech arrives first
+        willSkip: wordsSinceRun < config.autoMinNewWords,
+      },
+      wordsSinceRun,
+      wordsUntilRun: threshold ? Math.max(0, threshold - (wordsSinceRun - wordsAtSkip)) : null,
+      topicShift: config.autoTopicShift,
+      lastSimilarity,
+      lastDecision,
+    };
+  };
+
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = enabled ? setTimeout(onCadence, Math.max(0, nextCadenceAt() - now())) : null;
+    onChange(status());
+  };
+
+  const decide = (action, reason, detail = {}) => {
+    lastDecision = { at: new Date(now()).toISOString(), action, reason, ...detail };
+    logEvent('info', action === 'run' ? 'Auto generation triggered' : 'Auto generation skipped', {
+      reason,
+      ...detail,
+    });
+  };
+
+  const fire = (reason, detail = {}) => {
+    const blocked = canRun();
+    if (blocked) {
+      decide('skip', reason, { ...detail, because: blocked });
+      if (reason === 'words') wordsAtSkip = wordsSinceRun;
+      schedule();
+      return;
+    }
+    decide('run', reason, detail);
+    // Restart the counters now so one burst of speech cannot fire twice before the summary lands
+    lastRunAt = now();
+    wordsSinceRun = 0;
+    wordsAtSkip = 0;
+    schedule();
+    run(reason);
+  };
+
+  const onCadence = () => {
+    if (wordsSinceRun < getConfig().autoMinNewWords) {
+      decide('skip', 'cadence', { because: 'not enough new speech', words: wordsSinceRun });
+      lastRunAt = now();
+      schedule();
+      return;
+    }
+    fire('cadence', { words: wordsSinceRun });
+  };
+
+  const checkTopicShift = async () => {
+    const config = getConfig();
+    if (checkingTopic || !summarisedText || wordsSinceRun < config.autoMinNewWords) return;
+    if (now() - lastTopicCheckAt < topicCheckIntervalMs) return;
+    checkingTopic = true;
+    lastTopicCheckAt = now();
+    const reference = summarisedText;
+    try {
+      const previous = summarisedVector || (await embed(reference));
+      if (reference === summarisedText) summarisedVector = previous;
+      const current = await embed(getWindowText());
+      lastSimilarity = Number(cosineSimilarity(previous, current).toFixed(3));
+      if (enabled && reference === summarisedText && lastSimilarity < config.autoTopicShiftThreshold) {
+        fire('topic_shift', { similarity: lastSimilarity });
+      } else {
+        onChange(status());
+      }
+    } catch (err) {
+      logEvent('error', 'Topic shift check failed', { message: err.message });
+    } finally {
+      checkingTopic = false;
+    }
+  };
+
+  const onTranscript = (text) => {
+    wordsSinceRun += countWords(text);
+    if (!enabled) return;
+    const config = getConfig();
+    if (config.autoWordThreshold && wordsSinceRun - wordsAtSkip >= config.autoWordThreshold) {
+      fire('words', { words: wordsSinceRun });
+      return;
+    }
+    if (config.autoTopicShift) {
+      checkTopicShift();
+    }
+    onChange(status());
+  };
+
+  const markSummarised = (text) => {
+    summarisedText = text;
+    summarisedVector = null;
+    lastRunAt = now();
+    wordsSinceRun = 0;
+    wordsAtSkip = 0;
+    if (enabled) schedule();
+  };
+
+  // Called after every config change; switching auto on starts a fresh cadence
+  const refresh = () => {
+    const wanted = Boolean(getConfig().autoEnabled);
+    if (wanted && !enabled) {
+      lastRunAt = now();
+      wordsSinceRun = 0;
+      wordsAtSkip = 0;
+    }
+    enabled = wanted;
+    schedule();
+  };
+
+  const stop = () => {
+    enabled = false;
+    clearTimeout(timer);
+    timer = null;
+  };
+
+  return { markSummarised, onTranscript, refresh, status, stop };
+};
+
+module.exports = { cosineSimilarity, countWords, createAutoScheduler };
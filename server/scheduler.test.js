@@ -0,0 +1,94 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createMockClient } = require('./providers');
+const { cosineSimilarity, createAutoScheduler } = require('./scheduler');
+
+const mockEmbed = async (input) => (await createMockClient().embeddings.create({ input })).data[0].embedding;
+
+const makeScheduler = (overrides = {}, { canRun = () => null } = {}) => {
+  const runs = [];
+  const skips = [];
+  const config = {
+    autoEnabled: true,
+    autoIntervalMinutes: 60,
+    autoWordThreshold: 0,
+    autoMinNewWords: 3,
+    autoTopicShift: false,
+    autoTopicShiftThreshold: 0.5,
+    ...overrides,
+  };
+  let windowText = '';
+  const scheduler = createAutoScheduler({
+    getConfig: () => config,
+    getWindowText: () => windowText,
+    embed: mockEmbed,
+    canRun,
+    run: (reason) => runs.push(reason),
+    logEvent: (level, message, meta) => {
+      if (message === 'Auto generation skipped') skips.push(meta.reason);
+    },
+    topicCheckIntervalMs: 0,
+  });
+  const say = (text) => {
+    windowText = `${windowText} ${text}`.trim();
+    scheduler.onTranscript(text);
+  };
+  scheduler.refresh();
+  return { scheduler, runs, skips, say, config };
+};
+
+test('cadence runs skip when nothing new was said', async () => {
+  const { scheduler, runs, say } = makeScheduler({ autoIntervalMinutes: 0.0005 });
+  await new Promise((resolve) => setTimeout(resolve, 60));
+  assert.deepStrictEqual(runs, []);
+  assert.strictEqual(scheduler.status().lastDecision.action, 'skip');
+
+  say('budget targets for the next quarter');
+  await new Promise((resolve) => setTimeout(resolve, 60));
+  assert.deepStrictEqual(runs, ['cadence']);
+  assert.strictEqual(scheduler.status().nextRun.reason, 'cadence');
+  scheduler.stop();
+});
+
+test('word threshold and topic shift trigger runs', async () => {
+  const words = makeScheduler({ autoWordThreshold: 6 });
+  words.say('one two three');
+  assert.strictEqual(words.scheduler.status().wordsUntilRun, 3);
+  words.say('four five six');
+  assert.deepStrictEqual(words.runs, ['words']);
+  words.scheduler.stop();
+
+  const topic = makeScheduler({ autoTopicShift: true, autoTopicShiftThreshold: 0.6 });
+  topic.scheduler.markSummarised('budget budget targets spending budget');
+  topic.say('budget targets spending');
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.deepStrictEqual(topic.runs, []);
+  // the window still holds the budget talk, so the shift only registers once the new topic dominates
+  for (let i = 0; i < 4 && topic.runs.length === 0; i += 1) {
+    topic.say('football stadium tickets match football stadium tickets match');
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+  assert.deepStrictEqual(topic.runs, ['topic_shift']);
+  assert.ok(topic.scheduler.status().lastSimilarity < 0.6);
+  topic.scheduler.stop();
+
+  assert.strictEqual(cosineSimilarity([1, 0], [1, 0]), 1);
+});
+
+test('a blocked word trigger waits for another threshold of words before trying again', () => {
+  let blocked = 'draft awaiting review';
+  const { scheduler, runs, skips, say } = makeScheduler({ autoWordThreshold: 4 }, { canRun: () => blocked });
+  say('one two three four');
+  assert.deepStrictEqual(skips, ['words']);
+  say('five');
+  say('six seven');
+  assert.deepStrictEqual(skips, ['words']);
+  assert.strictEqual(scheduler.status().wordsUntilRun, 1);
+  assert.strictEqual(scheduler.status().wordsSinceRun, 7);
+
+  blocked = null;
+  say('eight');
+  assert.deepStrictEqual(runs, ['words']);
+  assert.strictEqual(scheduler.status().wordsUntilRun, 4);
+  scheduler.stop();
+});
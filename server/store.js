@@ -0,0 +1,218 @@
+const fs = require('fs/promises');
+const path = require('path');
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const dataUrlToFile = (url) => {
+  const match = /^data:([^;]+);base64,(.*)$/s.exec(url || '');
+  if (!match) return null;
+  const mime = match[1];
+  const ext = mime.split('/')[1] || 'png';
+  return { mime, ext, buffer: Buffer.from(match[2], 'base64') };
+};
+
+// Append-only JSON journal per session:
+//   <dataDir>/sessions/<id>/session.json   metadata + latest config
+//   <dataDir>/sessions/<id>/journal.jsonl  one event per line, replayed on resume
+//   <dataDir>/sessions/<id>/images/*       decoded image files referenced by the journal
+const createSessionStore = ({ dataDir, logEvent }) => {
+  const root = path.resolve(dataDir, 'sessions');
+  const queues = new Map();
+
+  const sessionDir = (id) => {
+    if (!SESSION_ID_PATTERN.test(id || '')) {
+      throw new Error('Invalid session id');
+    }
+    return path.join(root, id);
+  };
+
+  // Serialise writes per session so journal lines keep their order
+  const enqueue = (id, task) => {
+    const prev = queues.get(id) || Promise.resolve();
+    const next = prev.then(task).catch((err) => {
+      logEvent('error', 'Session store write failed', { sessionId: id, message: err.message });
+    });
+    queues.set(id, next);
+    return next;
+  };
+
+  const readMeta = async (id) => JSON.parse(await fs.readFile(path.join(sessionDir(id), 'session.json'), 'utf8'));
+
+  const writeMeta = (id, meta) =>
+    fs.writeFile(path.join(sessionDir(id), 'session.json'), JSON.stringify(meta, null, 2));
+
+  const createSession = (id, meta) =>
+    enqueue(id, async () => {
+      await fs.mkdir(path.join(sessionDir(id), 'images'), { recursive: true });
+      await writeMeta(id, { id, ...meta });
+    });
+
+  const updateMeta = (id, patch) =>
+    enqueue(id, async () => {
+      const meta = await readMeta(id);
+      await writeMeta(id, { ...meta, ...patch });
+    });
+
+  const append = (id, event) =>
+    enqueue(id, async () => {
+      const dir = sessionDir(id);
+      let record = { ...event, at: Date.now() };
+      if (event.type === 'image' && event.image?.url) {
+        const { url, ...image } = event.image;
+        const file = dataUrlToFile(url);
+        if (file) {
+          const name = `images/${image.id}.${file.ext}`;
+          await fs.writeFile(path.join(dir, name), file.buffer);
+          record = { ...record, image: { ...image, file: name, mime: file.mime } };
+        }
+      }
+      await fs.appendFile(path.join(dir, 'journal.jsonl'), `${JSON.stringify(record)}\n`);
+    });
+
+  const readJournal = async (id) => {
+    let raw = '';
+    try {
+      raw = await fs.readFile(path.join(sessionDir(id), 'journal.jsonl'), 'utf8');
+    } catch (err) {
+      if (err.code !== 'ENOENT') throw err;
+    }
+    return raw
+      .split('\n')
+      .filter(Boolean)
+      .map((line) => {
+        try {
+          return JSON.parse(line);
+        } catch (err) {
+          // a torn last line after a crash is expected; skip it
+          return null;
+        }
+      })
+      .filter(Boolean);
+  };
+
+  const list = async () => {
+    let entries = [];
+    try {
+      entries = await fs.readdir(root, { withFileTypes: true });
+    } catch (err) {
+      if (err.code === 'ENOENT') return [];
+      throw err;
+    }
+    const sessions = [];
+    for (const entry of entries) {
+      if (!entry.isDirectory() || !SESSION_ID_PATTERN.test(entry.name)) continue;
+      try {
+        const meta = await readMeta(entry.name);
+        const journal = await readJournal(entry.name);
+        sessions.push({
+          id: meta.id,
+          startedAt: meta.startedAt,
+          endedAt: meta.endedAt || null,
+          workshopType: meta.config?.workshopType,
+          phase: meta.config?.phase,
+          transcriptCount: journal.filter((e) => e.type === 'transcript').length,
+          imageCount: journal.filter((e) => e.type === 'image').length,
+        });
+      } catch (err) {
+        logEvent('error', 'Skipping unreadable stored session', { sessionId: entry.name, message: err.message });
+      }
+    }
+    return sessions.sort((a, b) => String(b.startedAt).localeCompare(String(a.startedAt)));
+  };
+
+  const load = async (id) => {
+    const dir = sessionDir(id);
+    const meta = await readMeta(id);
+    const journal = await readJournal(id);
+    const state = {
+      meta,
+      config: meta.config,
+      transcripts: [],
+      images: [],
+      lastSummary: null,
+      lastPrompt: null,
+      speakers: [],
+      glossary: null,
+      prompts: null,
+      styleAnchorId: null,
+      usage: [],
+      feedback: [],
+      themes: [],
+    };
+    for (const event of journal) {
+      switch (event.type) {
+        case 'transcript':
+          state.transcripts.push(event.entry);
+          break;
+        case 'summary':
+          state.lastSummary = event.summary;
+          break;
+        case 'prompt':
+          state.lastPrompt = event.prompt;
+          break;
+        case 'config':
+          state.config = event.config;
+          break;
+        case 'speakers':
+          state.speakers = event.speakers;
+          break;
+        case 'glossary':
+          state.glossary = event.terms;
+          break;
+        case 'prompts':
+          state.prompts = event.prompts;
+          break;
+        case 'usage':
+          state.usage.push(event.record);
+          break;
+        case 'feedback':
+          state.feedback.push(event.record);
+          break;
+        case 'themes':
+          state.themes.push(event.record);
+          break;
+        case 'style_anchor':
+          state.styleAnchorId = event.imageId;
+          break;
+        case 'transcript_translation': {
+          const entry = state.transcripts.find((t) => t.timestamp === event.timestamp);
+          if (entry) Object.assign(entry, { language: event.language, translation: event.translation });
+          break;
+        }
+        case 'transcript_speaker': {
+          const entry = state.transcripts.find((t) => t.timestamp === event.timestamp);
+          if (entry) entry.speaker = event.speaker;
+          break;
+        }
+        case 'image':
+          state.images.unshift(event.image);
+          break;
+        case 'image_updated': {
+          const image = state.images.find((img) => img.id === event.id);
+          if (image) Object.assign(image, event.changes);
+          break;
+        }
+        default:
+          break;
+      }
+    }
+    for (const image of state.images) {
+      if (!image.file) continue;
+      try {
+        const buffer = await fs.readFile(path.join(dir, image.file));
+        image.url = `data:${image.mime || 'image/png'};base64,${buffer.toString('base64')}`;
+      } catch (err) {
+        logEvent('error', 'Stored image missing', { sessionId: id, file: image.file });
+      }
+      delete image.file;
+      delete image.mime;
+    }
+    return state;
+  };
+
+  const flush = (id) => queues.get(id) || Promise.resolve();
+
+  return { createSession, updateMeta, append, list, load, flush, isValidId: (id) => SESSION_ID_PATTERN.test(id || '') };
+};
+
+module.exports = { createSessionStore };
@@ -0,0 +1,65 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { createSessionStore } = require('./store');
+
+const pngDataUrl =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mP8/x8AAusB9Y3nKwAAAABJRU5ErkJggg==';
+
+test('journals a session and restores it', async () => {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aii-store-'));
+  const store = createSessionStore({ dataDir, logEvent: () => {} });
+  const id = 'session-1';
+  const config = { phase: 'Vision', workshopType: 'Test' };
+
+  store.createSession(id, { startedAt: '2024-01-01T00:00:00.000Z', config });
+  store.append(id, { type: 'transcript', entry: { text: 'hello', timestamp: 1 } });
+  store.append(id, { type: 'summary', summary: { text: '- idea', timestamp: 2, phase: 'Vision' } });
+  store.append(id, { type: 'prompt', prompt: 'a bridge' });
+  store.append(id, { type: 'image', image: { id: 'img-1', prompt: 'a bridge', url: pngDataUrl, pinned: false } });
+  store.append(id, { type: 'image_updated', id: 'img-1', changes: { pinned: true } });
+  store.append(id, { type: 'config', config: { ...config, phase: 'KPIs' } });
+  const vote = { kind: 'vote', imageId: 'img-1', participantId: 'phone-aaaa', thumb: 'up' };
+  store.append(id, { type: 'feedback', record: vote });
+  const slice = { from: 1, to: 1, words: 1, themes: [{ label: 'Greetings', keywords: ['hello'], note: '' }] };
+  store.append(id, { type: 'themes', record: slice });
+  await store.flush(id);
+
+  assert.ok(fs.existsSync(path.join(dataDir, 'sessions', id, 'images', 'img-1.png')));
+
+  const sessions = await store.list();
+  assert.strictEqual(sessions.length, 1);
+  assert.strictEqual(sessions[0].imageCount, 1);
+  assert.strictEqual(sessions[0].transcriptCount, 1);
+
+  const restored = await store.load(id);
+  assert.strictEqual(restored.config.phase, 'KPIs');
+  assert.strictEqual(restored.transcripts[0].text, 'hello');
+  assert.strictEqual(restored.lastPrompt, 'a bridge');
+  assert.strictEqual(restored.images[0].pinned, true);
+  assert.strictEqual(restored.images[0].url, pngDataUrl);
+  assert.deepStrictEqual(restored.feedback, [vote]);
+  assert.deepStrictEqual(restored.themes, [slice]);
+
+  await assert.rejects(() => store.load('../etc'), /Invalid session id/);
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+test('restores every image of a long session', async () => {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aii-store-'));
+  const store = createSessionStore({ dataDir, logEvent: () => {} });
+  const id = 'session-long';
+  store.createSession(id, { startedAt: '2024-01-01T00:00:00.000Z', config: {} });
+  for (let i = 1; i <= 30; i += 1) {
+    store.append(id, { type: 'image', image: { id: `img-${i}`, prompt: `image ${i}`, url: pngDataUrl } });
+  }
+  await store.flush(id);
+
+  const restored = await store.load(id);
+  assert.strictEqual(restored.images.length, 30);
+  assert.strictEqual(restored.images[0].id, 'img-30');
+  assert.strictEqual(restored.images.at(-1).url, pngDataUrl);
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
@@ -0,0 +1,147 @@
+const fs = require('fs');
+const fsp = require('fs/promises');
+const path = require('path');
+const { v4: uuid } = require('uuid');
+
+// Shipped looks; read-only so every install can rely on their ids. Custom styles are added alongside.
+const BUILT_IN_STYLES = [
+  {
+    id: 'flat-strategy',
+    name: 'Flat strategy slide',
+    description: 'Flat, high-contrast illustration with simple shapes suitable for a strategy workshop slide.',
+    palette: ['#0b3d5c', '#1ce5b4', '#fbc252', '#f4f7f9'],
+    mood: 'confident and optimistic',
+    negative: 'text, logos, photorealism, cluttered backgrounds',
+  },
+  {
+    id: 'flat-bold',
+    name: 'Bold flat shapes',
+    description: 'Flat, high-contrast illustration with bold shapes and minimal detail.',
+    palette: ['#102a43', '#ef8354', '#4f9d69', '#ffffff'],
+    mood: 'energetic',
+    negative: 'text, gradients, fine detail',
+  },
+  {
+    id: 'line-art',
+    name: 'Minimal line art',
+    description: 'Minimal line art with soft gradients and clean iconography.',
+    palette: ['#1f2933', '#7ea8be', '#e4ecf1'],
+    mood: 'calm and focused',
+    negative: 'text, heavy shading, saturated colours',
+  },
+  {
+    id: 'workshop-sketch',
+    name: 'Workshop sketch',
+    description: 'Semi-realistic workshop sketch with warm lighting and simplified faces.',
+    palette: ['#3e2c23', '#d9a05b', '#f2e3c6'],
+    mood: 'warm and collaborative',
+    negative: 'text, realistic faces, harsh lighting',
+  },
+];
+
+const HEX_COLOUR = /^#[0-9a-f]{6}$/i;
+const IMAGE_DATA_URL = /^data:image\/(png|jpeg|webp);base64,/;
+
+const cleanList = (value) =>
+  (Array.isArray(value) ? value : String(value || '').split(','))
+    .map((item) => String(item).trim())
+    .filter(Boolean);
+
+const normalizeStyle = (input, existing = {}) => {
+  const name = String(input.name ?? existing.name ?? '').trim();
+  const description = String(input.description ?? existing.description ?? '').trim();
+  if (!name || !description) {
+    throw new Error('A style needs a name and a description');
+  }
+  const palette = cleanList(input.palette ?? existing.palette);
+  const invalid = palette.filter((c) => !HEX_COLOUR.test(c));
+  if (invalid.length) {
+    throw new Error(`Palette colours must be #rrggbb hex values (got ${invalid.join(', ')})`);
+  }
+  const referenceImage = input.referenceImage === undefined ? existing.referenceImage : input.referenceImage;
+  if (referenceImage && !IMAGE_DATA_URL.test(referenceImage)) {
+    throw new Error('Reference image must be a PNG, JPEG or WebP data URL');
+  }
+  return {
+    id: existing.id || uuid(),
+    name,
+    description,
+    palette: palette.map((c) => c.toLowerCase()),
+    mood: String(input.mood ?? existing.mood ?? '').trim(),
+    negative: String(input.negative ?? existing.negative ?? '').trim(),
+    referenceImage: referenceImage || null,
+    builtIn: false,
+  };
+};
+
+// Palette, mood and negatives are appended to the illustration prompt right before the image call
+const styleDirectives = (style) =>
+  [
+    style.palette.length ? `Colour palette: ${style.palette.join(', ')}.` : '',
+    style.mood ? `Mood: ${style.mood}.` : '',
+    style.negative ? `Avoid: ${style.negative}.` : '',
+  ].filter(Boolean);
+
+// Custom styles live in <AII_DATA_DIR>/styles.json when persistence is on, otherwise only in memory
+const createStyleLibrary = ({ dataDir, logEvent }) => {
+  const file = dataDir ? path.resolve(dataDir, 'styles.json') : null;
+  const builtIns = BUILT_IN_STYLES.map((style) => ({ ...style, referenceImage: null, builtIn: true }));
+  let custom = [];
+  if (file && fs.existsSync(file)) {
+    try {
+      custom = JSON.parse(fs.readFileSync(file, 'utf8')).map((style) => normalizeStyle(style, style));
+    } catch (err) {
+      logEvent('error', 'Style library file ignored', { file, message: err.message });
+    }
+  }
+  let writing = Promise.resolve();
+
+  const save = () => {
+    if (!file) return writing;
+    const snapshot = JSON.stringify(custom, null, 2);
+    writing = writing
+      .then(async () => {
+        await fsp.mkdir(path.dirname(file), { recursive: true });
+        await fsp.writeFile(file, snapshot);
+      })
+      .catch((err) => logEvent('error', 'Style library write failed', { message: err.message }));
+    return writing;
+  };
+
+  const list = () => [...builtIns, ...custom];
+
+  const get = (id) => list().find((style) => style.id === id) || null;
+
+  const editable = (id) => {
+    if (builtIns.some((style) => style.id === id)) {
+      throw new Error('Built-in styles are read-only');
+    }
+    const style = custom.find((s) => s.id === id);
+    if (!style) throw new Error('Style not found');
+    return style;
+  };
+
+  const create = (input) => {
+    const style = normalizeStyle(input);
+    custom.push(style);
+    save();
+    return style;
+  };
+
+  const update = (id, input) => {
+    const style = normalizeStyle(input, editable(id));
+    custom = custom.map((s) => (s.id === id ? style : s));
+    save();
+    return style;
+  };
+
+  const remove = (id) => {
+    editable(id);
+    custom = custom.filter((s) => s.id !== id);
+    save();
+  };
+
+  return { create, get, list, remove, update, flush: () => writing };
+};
+
+module.exports = { BUILT_IN_STYLES, createStyleLibrary, normalizeStyle, styleDirectives };
@@ -0,0 +1,36 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { BUILT_IN_STYLES, createStyleLibrary, styleDirectives } = require('./styles');
+
+test('style library CRUD persists custom styles and protects built-ins', async () => {
+  const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aii-styles-'));
+  const logEvent = () => {};
+  const library = createStyleLibrary({ dataDir, logEvent });
+  assert.strictEqual(library.list().length, BUILT_IN_STYLES.length);
+
+  assert.throws(() => library.create({ name: 'No description' }), /name and a description/);
+  assert.throws(() => library.create({ name: 'Bad', description: 'x', palette: 'teal' }), /hex/);
+  assert.throws(() => library.create({ name: 'Bad', description: 'x', referenceImage: 'http://x/y.png' }), /data URL/);
+  assert.throws(() => library.update('line-art', { mood: 'tense' }), /read-only/);
+
+  const style = library.create({
+    name: 'Night map',
+    description: 'Dark isometric city map',
+    palette: '#0A0A23, #FFCC00',
+    negative: 'text',
+  });
+  assert.deepStrictEqual(style.palette, ['#0a0a23', '#ffcc00']);
+  assert.deepStrictEqual(styleDirectives(style), ['Colour palette: #0a0a23, #ffcc00.', 'Avoid: text.']);
+  library.update(style.id, { mood: 'quiet' });
+  await library.flush();
+
+  const reloaded = createStyleLibrary({ dataDir, logEvent });
+  assert.strictEqual(reloaded.get(style.id).mood, 'quiet');
+  reloaded.remove(style.id);
+  assert.throws(() => reloaded.remove(style.id), /not found/);
+  await reloaded.flush();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
@@ -0,0 +1,141 @@
+const fs = require('fs');
+
+// Built-in workshop formats. Each phase carries the imagery the prompt writer should lean on and
+// what the summariser should listen for in that part of the workshop.
+const BUILT_IN_TEMPLATES = [
+  {
+    id: 'strategy',
+    name: 'Strategy workshop',
+    workshopType: 'NCIM Strategy Workshop',
+    defaultStyle: 'Flat, high-contrast illustration with simple shapes suitable for a strategy workshop slide.',
+    phases: [
+      {
+        name: 'Vision',
+        visualVocabulary: 'horizons, sunrise over a skyline, a path leading to a distant landmark',
+        summaryFocus: 'the desired future state and the aspirations behind it',
+      },
+      {
+        name: 'Mission',
+        visualVocabulary: 'a compass, a team moving together, gears turning in unison',
+        summaryFocus: 'what the organisation does, for whom, and why',
+      },
+      {
+        name: 'Strategic objectives',
+        visualVocabulary: 'pillars holding a roof, milestones along a road, connected building blocks',
+        summaryFocus: 'the concrete objectives proposed and how they relate to each other',
+      },
+      {
+        name: 'KPIs',
+        visualVocabulary: 'dashboards, gauges, rising bar charts, target markers',
+        summaryFocus: 'measures, targets and how progress would be tracked',
+      },
+      {
+        name: 'Other',
+        visualVocabulary: 'abstract shapes and connecting lines',
+        summaryFocus: 'the main points raised',
+      },
+    ],
+  },
+  {
+    id: 'risk-review',
+    name: 'Risk review',
+    workshopType: 'Risk Review Workshop',
+    defaultStyle: 'Clean isometric illustration with muted colours and clear warning accents.',
+    phases: [
+      {
+        name: 'Context',
+        visualVocabulary: 'a landscape map, an organisation seen from above',
+        summaryFocus: 'the scope under review and recent changes in it',
+      },
+      {
+        name: 'Risk identification',
+        visualVocabulary: 'storm clouds on the horizon, cracks in a wall, hidden obstacles on a path',
+        summaryFocus: 'each risk named, its cause and who raised it',
+      },
+      {
+        name: 'Assessment',
+        visualVocabulary: 'scales weighing items, a heat-map grid, magnifying glass',
+        summaryFocus: 'likelihood and impact judgements and any disagreement about them',
+      },
+      {
+        name: 'Mitigation',
+        visualVocabulary: 'shields, bridges over gaps, safety nets, reinforced structures',
+        summaryFocus: 'agreed controls, owners and deadlines',
+      },
+    ],
+  },
+  {
+    id: 'design-sprint',
+    name: 'Design sprint',
+    workshopType: 'Design Sprint',
+    defaultStyle: 'Playful hand-drawn marker sketch on a whiteboard with sticky-note colours.',
+    phases: [
+      {
+        name: 'Understand',
+        visualVocabulary: 'a user journey map, people with question marks, sticky notes on a wall',
+        summaryFocus: 'the problem, the users and the long-term goal',
+      },
+      {
+        name: 'Sketch',
+        visualVocabulary: 'pencils, paper sketches, lightbulbs, many small ideas',
+        summaryFocus: 'the distinct solution ideas proposed',
+      },
+      {
+        name: 'Decide',
+        visualVocabulary: 'voting dots, a spotlight on one sketch, a signpost',
+        summaryFocus: 'which ideas won, and the reasons given',
+      },
+      {
+        name: 'Prototype',
+        visualVocabulary: 'building blocks, a workbench, a paper prototype on a screen',
+        summaryFocus: 'what will be built and the shortcuts taken',
+      },
+      {
+        name: 'Test',
+        visualVocabulary: 'a user at a screen, feedback speech bubbles, checkmarks and crosses',
+        summaryFocus: 'what users did, what worked and what did not',
+      },
+    ],
+  },
+];
+
+const normalizeTemplate = (raw) => {
+  if (!raw?.id || !raw?.name || !Array.isArray(raw.phases) || raw.phases.length === 0) {
+    throw new Error('Templates need an id, a name and at least one phase');
+  }
+  return {
+    id: String(raw.id),
+    name: String(raw.name),
+    workshopType: String(raw.workshopType || raw.name),
+    defaultStyle: raw.defaultStyle ? String(raw.defaultStyle) : null,
+    phases: raw.phases.map((phase) =>
+      typeof phase === 'string'
+        ? { name: phase, visualVocabulary: '', summaryFocus: '' }
+        : {
+            name: String(phase.name),
+            visualVocabulary: String(phase.visualVocabulary || ''),
+            summaryFocus: String(phase.summaryFocus || ''),
+          },
+    ),
+  };
+};
+
+// AII_TEMPLATES_FILE points at a JSON array of extra templates; one with a built-in id replaces it
+const loadTemplates = ({ file, logEvent }) => {
+  const templates = BUILT_IN_TEMPLATES.map(normalizeTemplate);
+  if (!file) return templates;
+  try {
+    const custom = JSON.parse(fs.readFileSync(file, 'utf8'));
+    for (const raw of Array.isArray(custom) ? custom : [custom]) {
+      const template = normalizeTemplate(raw);
+      const idx = templates.findIndex((t) => t.id === template.id);
+      if (idx >= 0) templates[idx] = template;
+      else templates.push(template);
+    }
+  } catch (err) {
+    logEvent('error', 'Workshop templates file ignored', { file, message: err.message });
+  }
+  return templates;
+};
+
+module.exports = { BUILT_IN_TEMPLATES, loadTemplates };
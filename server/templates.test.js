@@ -0,0 +1,29 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { BUILT_IN_TEMPLATES, loadTemplates } = require('./templates');
+
+test('merges templates from a JSON file over the built-ins', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aii-templates-'));
+  const file = path.join(dir, 'templates.json');
+  fs.writeFileSync(
+    file,
+    JSON.stringify([
+      { id: 'retro', name: 'Retrospective', phases: ['Went well', 'To improve'] },
+      { id: 'risk-review', name: 'Risk review (short)', phases: [{ name: 'Risks', summaryFocus: 'top risks only' }] },
+      { id: 'broken', phases: [] },
+    ]),
+  );
+  const errors = [];
+  const templates = loadTemplates({ file, logEvent: (level, message) => errors.push(message) });
+
+  assert.strictEqual(templates.length, BUILT_IN_TEMPLATES.length + 1);
+  const retro = templates.find((t) => t.id === 'retro');
+  assert.deepStrictEqual(retro.phases.map((p) => p.name), ['Went well', 'To improve']);
+  assert.strictEqual(retro.workshopType, 'Retrospective');
+  assert.strictEqual(templates.find((t) => t.id === 'risk-review').phases[0].summaryFocus, 'top risks only');
+  assert.strictEqual(errors.length, 1);
+  fs.rmSync(dir, { recursive: true, force: true });
+});
@@ -0,0 +1,171 @@
+// Themes across the whole session. Each generation only sees the last few minutes, so a background pass
+// reads every new stretch of transcript once, names the themes in it and files the stretch under them.
+// A theme that comes back later gets another occurrence, which is what the console's timeline draws.
+
+const MAX_THEMES_PER_SLICE = 4;
+const MAX_KEYWORDS = 6;
+const MAX_LABEL_LENGTH = 60;
+const MAX_NOTE_LENGTH = 200;
+
+// Words that say nothing about the topic, in both workshop languages (after lower-casing and dropping
+// Arabic diacritics). Redaction placeholders are here too so [NAME] never becomes a theme.
+const STOPWORDS = new Set(
+  [
+    'about after again also and any are because been before being both but can could did does doing down each few',
+    'for from further had has have having her here hers him his how into its just like more most much need needs',
+    'not now off once only other our ours out over own really same she should some such than that the their theirs',
+    'them then there these they this those through too under until very was way we were what when where which while',
+    'who whom why will with would yes yeah you your yours okay think going thing things want know lot one two get',
+    'got make let name redacted',
+    'في من على إلى الى عن مع هذا هذه ذلك تلك التي الذي الذين كان كانت يكون أن إن ان لا ما هو هي هم نحن انا أنا',
+    'انت أنت يعني كمان بس ايش وش عشان لكن ثم أو او كل بعض عند قد لقد هناك هنا تمام طيب أيوه ايوه يا لما اللي فيه',
+    'فيها عليه عليها منها منه كذا وهذا وفي ومن',
+  ]
+    .join(' ')
+    .split(' '),
+);
+
+const ARABIC_DIACRITICS = /[\u064B-\u0652\u0640]/g;
+
+const normalizeWord = (word) => word.toLowerCase().replace(ARABIC_DIACRITICS, '');
+
+// Term frequency over words of three letters or more; ties keep first-seen order
+const extractKeywords = (text, limit = 8) => {
+  const counts = new Map();
+  for (const raw of String(text || '').match(/[\p{L}\p{M}]{3,}/gu) || []) {
+    const word = normalizeWord(raw);
+    if (word.length < 3 || STOPWORDS.has(word)) continue;
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([term, count]) => ({ term, count }));
+};
+
+const clip = (value, limit) =>
+  String(value ?? '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, limit);
+
+// The model answers with a JSON array of { label, keywords, note }; anything else yields []
+const parseThemeReply = (reply) => {
+  const match = /\[[\s\S]*\]/.exec(String(reply || ''));
+  if (!match) return [];
+  let parsed;
+  try {
+    parsed = JSON.parse(match[0]);
+  } catch (err) {
+    return [];
+  }
+  if (!Array.isArray(parsed)) return [];
+  return parsed
+    .filter((item) => item && typeof item.label === 'string' && item.label.trim())
+    .slice(0, MAX_THEMES_PER_SLICE)
+    .map((item) => ({
+      label: clip(item.label, MAX_LABEL_LENGTH),
+      keywords: (Array.isArray(item.keywords) ? item.keywords : [])
+        .filter((k) => typeof k === 'string' && k.trim())
+        .map((k) => normalizeWord(clip(k, 40)))
+        .slice(0, MAX_KEYWORDS),
+      note: clip(item.note, MAX_NOTE_LENGTH),
+    }));
+};
+
+// Used when the model is unavailable or its reply cannot be read: one theme named after the stretch's
+// most frequent words, with the opening of the stretch as its note
+const fallbackThemes = (text) => {
+  const keywords = extractKeywords(text, MAX_KEYWORDS).map((k) => k.term);
+  if (!keywords.length) return [];
+  return [{ label: keywords.slice(0, 2).join(' & '), keywords, note: clip(text, MAX_NOTE_LENGTH) }];
+};
+
+// Records are the analysed slices, kept so a resumed session rebuilds the same themes and ids:
+//   { at, from, to, words, themes: [{ label, keywords, note }] }
+// from/to are the timestamps of the slice's first and last transcript entries.
+const createThemeMap = ({ records = [] } = {}) => {
+  const history = [];
+  const themes = []; // in order of first appearance
+  let analysedUntil = 0;
+
+  const sameLabel = (a, b) => a.toLowerCase() === b.toLowerCase();
+
+  // The same label, or two shared keywords, counts as the theme coming back
+  const findTheme = (found) =>
+    themes.find((theme) => sameLabel(theme.label, found.label)) ||
+    themes.find((theme) => found.keywords.filter((k) => theme.keywords.has(k)).length >= 2) ||
+    null;
+
+  const apply = (record) => {
+    history.push(record);
+    analysedUntil = Math.max(analysedUntil, record.to);
+    const share = record.themes.length ? Math.round(record.words / record.themes.length) : 0;
+    for (const found of record.themes) {
+      let theme = findTheme(found);
+      if (!theme) {
+        theme = { id: `theme-${themes.length + 1}`, label: found.label, keywords: new Map(), occurrences: [] };
+        themes.push(theme);
+      }
+      for (const keyword of found.keywords) {
+        theme.keywords.set(keyword, (theme.keywords.get(keyword) || 0) + 1);
+      }
+      theme.occurrences.push({ from: record.from, to: record.to, words: share, note: found.note });
+    }
+    return record;
+  };
+  records.forEach(apply);
+
+  const record = ({ from, to, words, themes: found }) =>
+    apply({ at: new Date().toISOString(), from, to, words, themes: found });
+
+  const describe = (theme) => ({
+    id: theme.id,
+    label: theme.label,
+    keywords: [...theme.keywords.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 8)
+      .map(([term, count]) => ({ term, count })),
+    occurrences: theme.occurrences.map((o) => ({ ...o })),
+    words: theme.occurrences.reduce((sum, o) => sum + o.words, 0),
+    firstSeen: theme.occurrences[0].from,
+    lastSeen: theme.occurrences.at(-1).to,
+  });
+
+  const get = (id) => {
+    const theme = themes.find((t) => t.id === id);
+    return theme ? describe(theme) : null;
+  };
+
+  // An image made for a theme says so; otherwise it belongs to the theme that covers most of the
+  // transcript it was drawn from
+  const placeImage = (image) => {
+    if (image.themeId && themes.some((t) => t.id === image.themeId)) return image.themeId;
+    const span = image.transcriptSpan;
+    if (!span) return null;
+    let best = null;
+    let bestWords = 0;
+    for (const theme of themes) {
+      const words = theme.occurrences
+        .filter((o) => o.from <= span.to && o.to >= span.from)
+        .reduce((sum, o) => sum + Math.max(o.words, 1), 0);
+      if (words > bestWords) {
+        best = theme.id;
+        bestWords = words;
+      }
+    }
+    return best;
+  };
+
+  return {
+    record,
+    get,
+    list: () => themes.map(describe),
+    placeImage,
+    analysedUntil: () => analysedUntil,
+    slices: () => history.length,
+    toJSON: () => history.slice(),
+  };
+};
+
+module.exports = { createThemeMap, extractKeywords, fallbackThemes, parseThemeReply };
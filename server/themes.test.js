@@ -0,0 +1,83 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const { createThemeMap, extractKeywords, fallbackThemes, parseThemeReply } = require('./themes');
+
+test('keywords skip filler words in both languages', () => {
+  const keywords = extractKeywords(
+    'We think the budget is the budget problem, يعني الميزانية والميزانية هي الميزانية [NAME] said budget',
+    3,
+  );
+  assert.deepStrictEqual(keywords, [
+    { term: 'budget', count: 3 },
+    { term: 'الميزانية', count: 2 },
+    { term: 'problem', count: 1 },
+  ]);
+  assert.deepStrictEqual(extractKeywords('تَمَام يا أنا'), []);
+});
+
+test('theme replies are read from the first JSON array and clipped', () => {
+  const themes = parseThemeReply(
+    'Here you go:\n[{"label":" Youth  jobs ","keywords":["Jobs","skills",3],"note":"Entry-level hiring"},{"label":""}]',
+  );
+  assert.deepStrictEqual(themes, [{ label: 'Youth jobs', keywords: ['jobs', 'skills'], note: 'Entry-level hiring' }]);
+  assert.deepStrictEqual(parseThemeReply('mock summary or prompt'), []);
+  assert.deepStrictEqual(parseThemeReply('[not json]'), []);
+
+  assert.deepStrictEqual(fallbackThemes('Tourism tourism visas and tourism visas'), [
+    {
+      label: 'tourism & visas',
+      keywords: ['tourism', 'visas'],
+      note: 'Tourism tourism visas and tourism visas',
+    },
+  ]);
+});
+
+test('recurring themes collect occurrences and images are placed by transcript overlap', () => {
+  const map = createThemeMap();
+  map.record({
+    from: 1000,
+    to: 2000,
+    words: 200,
+    themes: [
+      { label: 'Youth jobs', keywords: ['jobs', 'skills', 'graduates'], note: 'Hiring graduates' },
+      { label: 'Housing', keywords: ['rent', 'housing'], note: 'Rents in Riyadh' },
+    ],
+  });
+  // a new label that shares two keywords is the same theme coming back
+  map.record({
+    from: 5000,
+    to: 6000,
+    words: 90,
+    themes: [{ label: 'Graduate employment', keywords: ['graduates', 'jobs'], note: 'Back to jobs' }],
+  });
+
+  const [jobs, housing] = map.list();
+  assert.strictEqual(jobs.id, 'theme-1');
+  assert.strictEqual(jobs.label, 'Youth jobs');
+  assert.deepStrictEqual(
+    jobs.occurrences.map((o) => [o.from, o.to, o.words]),
+    [
+      [1000, 2000, 100],
+      [5000, 6000, 90],
+    ],
+  );
+  assert.deepStrictEqual(jobs.keywords.slice(0, 2), [
+    { term: 'jobs', count: 2 },
+    { term: 'graduates', count: 2 },
+  ]);
+  assert.strictEqual(jobs.words, 190);
+  assert.strictEqual(jobs.lastSeen, 6000);
+  assert.strictEqual(housing.firstSeen, 1000);
+  assert.strictEqual(map.analysedUntil(), 6000);
+
+  assert.strictEqual(map.placeImage({ transcriptSpan: { from: 5500, to: 7000 } }), 'theme-1');
+  assert.strictEqual(map.placeImage({ themeId: 'theme-2', transcriptSpan: { from: 5500, to: 7000 } }), 'theme-2');
+  assert.strictEqual(map.placeImage({ transcriptSpan: { from: 3000, to: 4000 } }), null);
+  assert.strictEqual(map.placeImage({ transcriptSpan: null }), null);
+
+  // replaying the records rebuilds the same ids
+  const restored = createThemeMap({ records: JSON.parse(JSON.stringify(map.toJSON())) });
+  assert.deepStrictEqual(restored.list(), map.list());
+  assert.strictEqual(restored.get('theme-2').label, 'Housing');
+  assert.strictEqual(restored.get('theme-9'), null);
+});
@@ -0,0 +1,110 @@
+const fs = require('fs');
+
+// Estimated list prices in USD, keyed by model. Override or extend with AII_PRICES_FILE.
+//   perMinute               audio models, billed on audio duration
+//   inputPer1M/outputPer1M  token-billed models (also used for audio models that only report tokens)
+//   perImage                by requested size; "default" covers sizes not listed (e.g. "auto")
+const DEFAULT_PRICES = {
+  'gpt-4o-mini': { inputPer1M: 0.15, outputPer1M: 0.6 },
+  'gpt-4o': { inputPer1M: 2.5, outputPer1M: 10 },
+  'gpt-4o-mini-transcribe': { perMinute: 0.003, inputPer1M: 3, outputPer1M: 5 },
+  'gpt-4o-transcribe': { perMinute: 0.006, inputPer1M: 6, outputPer1M: 10 },
+  'gpt-4o-transcribe-diarize': { perMinute: 0.006 },
+  'whisper-1': { perMinute: 0.006 },
+  'gpt-image-1': { perImage: { '1024x1024': 0.042, '1024x1536': 0.063, '1536x1024': 0.063, default: 0.042 } },
+  'text-embedding-3-small': { inputPer1M: 0.02 },
+};
+
+const USAGE_KINDS = ['transcription', 'chat', 'image', 'embedding'];
+
+// AII_PRICES_FILE points at a JSON object of { model: price }; listed models replace the built-in entry
+const loadPriceTable = ({ file, logEvent }) => {
+  const prices = { ...DEFAULT_PRICES };
+  if (!file) return prices;
+  try {
+    const custom = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (!custom || typeof custom !== 'object' || Array.isArray(custom)) {
+      throw new Error('Price table must be a JSON object keyed by model');
+    }
+    Object.assign(prices, custom);
+  } catch (err) {
+    logEvent('error', 'Price table file ignored', { file, message: err.message });
+  }
+  return prices;
+};
+
+// Images are priced per image, audio per minute when the duration is known, anything else per token.
+// null means the model has no usable price, which the totals count separately rather than as free.
+const estimateCost = (usage, price) => {
+  if (!price) return null;
+  if (usage.images) {
+    const perImage = price.perImage?.[usage.size] ?? price.perImage?.default;
+    return perImage == null ? null : usage.images * perImage;
+  }
+  if (usage.audioSeconds && price.perMinute != null) {
+    return (usage.audioSeconds / 60) * price.perMinute;
+  }
+  if ((usage.inputTokens || usage.outputTokens) && (price.inputPer1M != null || price.outputPer1M != null)) {
+    return (
+      ((usage.inputTokens || 0) * (price.inputPer1M || 0) + (usage.outputTokens || 0) * (price.outputPer1M || 0)) /
+      1e6
+    );
+  }
+  return null;
+};
+
+const emptyKind = () => ({ calls: 0, inputTokens: 0, outputTokens: 0, audioSeconds: 0, images: 0, cost: 0 });
+
+const round = (value, digits) => Number(value.toFixed(digits));
+
+// Per-session running totals. Records are kept so a resumed session restores its spend.
+const createUsageMeter = ({ prices, records = [] }) => {
+  const history = records.slice();
+
+  const record = (usage) => {
+    const entry = {
+      at: new Date().toISOString(),
+      kind: usage.kind,
+      provider: usage.provider || null,
+      model: usage.model,
+      inputTokens: usage.inputTokens || 0,
+      outputTokens: usage.outputTokens || 0,
+      audioSeconds: usage.audioSeconds || 0,
+      images: usage.images || 0,
+      size: usage.size || null,
+      estimated: Boolean(usage.estimated),
+      cost: estimateCost(usage, prices[usage.model]),
+    };
+    history.push(entry);
+    return entry;
+  };
+
+  const totals = () => {
+    const byKind = Object.fromEntries(USAGE_KINDS.map((kind) => [kind, emptyKind()]));
+    const unpriced = new Set();
+    let cost = 0;
+    for (const r of history) {
+      const bucket = byKind[r.kind] || (byKind[r.kind] = emptyKind());
+      bucket.calls += 1;
+      bucket.inputTokens += r.inputTokens;
+      bucket.outputTokens += r.outputTokens;
+      bucket.audioSeconds += r.audioSeconds;
+      bucket.images += r.images;
+      if (r.cost == null) {
+        unpriced.add(r.model);
+      } else {
+        bucket.cost += r.cost;
+        cost += r.cost;
+      }
+    }
+    for (const bucket of Object.values(byKind)) {
+      bucket.audioSeconds = round(bucket.audioSeconds, 1);
+      bucket.cost = round(bucket.cost, 4);
+    }
+    return { cost: round(cost, 4), calls: history.length, byKind, unpricedModels: [...unpriced] };
+  };
+
+  return { record, totals, toJSON: () => history.slice() };
+};
+
+module.exports = { DEFAULT_PRICES, USAGE_KINDS, createUsageMeter, estimateCost, loadPriceTable };
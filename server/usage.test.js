@@ -0,0 +1,57 @@
+const test = require('node:test');
+const assert = require('node:assert');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const { DEFAULT_PRICES, createUsageMeter, estimateCost, loadPriceTable } = require('./usage');
+
+test('prices images per size, audio per minute and chat per token', () => {
+  assert.strictEqual(estimateCost({ images: 2, size: '1536x1024' }, DEFAULT_PRICES['gpt-image-1']), 0.126);
+  assert.strictEqual(estimateCost({ images: 1, size: 'auto' }, DEFAULT_PRICES['gpt-image-1']), 0.042);
+  assert.strictEqual(estimateCost({ audioSeconds: 120 }, DEFAULT_PRICES['gpt-4o-mini-transcribe']), 0.006);
+  // no duration reported: token-priced audio models fall back to tokens
+  assert.strictEqual(
+    estimateCost({ inputTokens: 1000000, outputTokens: 0 }, DEFAULT_PRICES['gpt-4o-mini-transcribe']),
+    3,
+  );
+  assert.strictEqual(
+    estimateCost({ inputTokens: 2000000, outputTokens: 1000000 }, DEFAULT_PRICES['gpt-4o-mini']),
+    0.9,
+  );
+  assert.strictEqual(estimateCost({ audioSeconds: 60 }, DEFAULT_PRICES['gpt-4o-mini']), null);
+  assert.strictEqual(estimateCost({ inputTokens: 10 }, undefined), null);
+});
+
+test('totals usage by kind and restores from records', () => {
+  const meter = createUsageMeter({ prices: DEFAULT_PRICES });
+  meter.record({ kind: 'transcription', model: 'whisper-1', audioSeconds: 30 });
+  meter.record({ kind: 'chat', model: 'gpt-4o-mini', inputTokens: 1000, outputTokens: 500 });
+  meter.record({ kind: 'image', model: 'local-sd', images: 1, size: '1024x1024' });
+  const totals = meter.totals();
+  assert.strictEqual(totals.calls, 3);
+  assert.strictEqual(totals.byKind.transcription.audioSeconds, 30);
+  assert.strictEqual(totals.byKind.chat.outputTokens, 500);
+  assert.strictEqual(totals.cost, 0.0034);
+  assert.deepStrictEqual(totals.unpricedModels, ['local-sd']);
+
+  const restored = createUsageMeter({ prices: {}, records: meter.toJSON() });
+  assert.deepStrictEqual(restored.totals(), totals);
+});
+
+test('merges a price file over the defaults and ignores a broken one', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aii-prices-'));
+  const file = path.join(dir, 'prices.json');
+  const custom = { 'local-sd': { perImage: { default: 0 } }, 'gpt-4o-mini': { inputPer1M: 1 } };
+  fs.writeFileSync(file, JSON.stringify(custom));
+  const prices = loadPriceTable({ file, logEvent: () => {} });
+  assert.deepStrictEqual(prices['gpt-4o-mini'], { inputPer1M: 1 });
+  assert.ok(prices['gpt-image-1']);
+  assert.strictEqual(estimateCost({ images: 3 }, prices['local-sd']), 0);
+
+  fs.writeFileSync(file, '[1, 2]');
+  const errors = [];
+  const fallback = loadPriceTable({ file, logEvent: (level, message) => errors.push(message) });
+  assert.deepStrictEqual(fallback, DEFAULT_PRICES);
+  assert.deepStrictEqual(errors, ['Price table file ignored']);
+  fs.rmSync(dir, { recursive: true, force: true });
+});